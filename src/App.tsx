@@ -1,32 +1,42 @@
-import { QueryErrorResetBoundary, useMutation } from "@tanstack/react-query"
-import cx from "classnames"
-import { Draggable, framer, useIsAllowedTo } from "framer-plugin"
-import {
-    memo,
-    type PropsWithChildren,
-    useCallback,
-    useDeferredValue,
-    useEffect,
-    useMemo,
-    useRef,
-    useState,
-} from "react"
+import { QueryErrorResetBoundary } from "@tanstack/react-query"
+import { framer } from "framer-plugin"
+import { memo, type PropsWithChildren, useCallback, useEffect, useMemo, useState } from "react"
 import { ErrorBoundary } from "react-error-boundary"
+import { announce } from "./announce"
 import {
-    getContentDimensions,
-    getContentUrl,
-    type KlipyContent,
-    type KlipyContentType,
+    type ContentType,
+    type FilteredPage,
+    isContentType,
+    type MediaItem,
+    provider,
     useListContentInfinite,
 } from "./api"
+import { BrowseChips, RelatedSearches } from "./Browse"
+import { useBudgetSettings } from "./budget"
+import { ColorFilterBar } from "./ColorFilter"
+import { type ColorFilter, hasUnknownColors, rankByPalette, useItemColors } from "./colors"
+import { setContentFilterPanelOpen, useContentFilterPanelOpen } from "./contentFilter"
+import { ContentFilterPanel } from "./ContentFilterPanel"
+import { ContentGrid } from "./ContentGrid"
+import { DetailPanel } from "./DetailPanel"
+import { EditorPanel } from "./EditorPanel"
+import { type EditedLayer, useSelectedEditedLayer } from "./editRecords"
+import { ErrorMessage } from "./ErrorMessage"
+import { FavoritesList } from "./Favorites"
+import { FilterBar } from "./FilterBar"
+import { focusSearch } from "./focus"
+import { useDebounce } from "./hooks"
+import { contentTypeEmptyMessage, contentTypeLabel, contentTypeName, t, useLocale } from "./i18n"
+import { hasFilters, type ItemFilters, matchesFilters, mergeFilters, noFilters, parseQuery } from "./itemFilters"
+import { useOfflineThumbnailSync } from "./offlineThumbnails"
+import { useDefaultRendition } from "./renditions"
+import { addToSearchHistory } from "./searchHistory"
+import { SearchField } from "./SearchField"
+import { SelectionTray } from "./SelectionTray"
 import Tabs from "./Tabs"
 
 const mode = framer.mode
 
-const minColumnWidth = mode === "image" ? 120 : 110
-const columnGap = 8
-const sidePadding = 15 * 2
-
 if (mode === "image") {
     void framer.showUI({
         width: 600,
@@ -46,7 +56,9 @@ if (mode === "image") {
 // localStorage utility functions
 const SELECTED_TAB_KEY = "framestack-gifs-selected-tab"
 
-const saveSelectedTab = (tab: "gifs" | "stickers") => {
+type Tab = ContentType | "favorites"
+
+const saveSelectedTab = (tab: Tab) => {
     try {
         localStorage.setItem(SELECTED_TAB_KEY, tab)
     } catch (error) {
@@ -54,23 +66,66 @@ const saveSelectedTab = (tab: "gifs" | "stickers") => {
     }
 }
 
-const getSelectedTab = (): "gifs" | "stickers" => {
+const getSelectedTab = (): Tab => {
     try {
         const saved = localStorage.getItem(SELECTED_TAB_KEY)
-        return saved === "stickers" ? "stickers" : "gifs"
+        if (saved === "favorites") return saved
+        return isContentType(saved) && provider.contentTypes.includes(saved) ? saved : "gifs"
     } catch (error) {
         console.warn("Failed to get selected tab from localStorage:", error)
         return "gifs"
     }
 }
 
+// Messages are read while rendering, so the whole UI is mounted again when the language changes
+export function LocalizedApp() {
+    const locale = useLocale()
+
+    useEffect(() => {
+        document.documentElement.lang = locale
+    }, [locale])
+
+    return <App key={locale} />
+}
+
 export function App() {
     const [query, setQuery] = useState("")
     const [userId, setUserId] = useState<string>("")
-    const [type, setType] = useState<"gifs" | "stickers">(getSelectedTab())
+    const [type, setType] = useState<Tab>(getSelectedTab())
+    const [detailItem, setDetailItem] = useState<MediaItem | null>(null)
+    const [colorFilter, setColorFilter] = useState<ColorFilter | null>(null)
+    const [barFilters, setBarFilters] = useState<ItemFilters>(noFilters)
+    const isContentFilterOpen = useContentFilterPanelOpen()
+    const editedLayer = useSelectedEditedLayer()
+    const [reEditing, setReEditing] = useState<EditedLayer | null>(null)
 
     const debouncedQuery = useDebounce(query, 400)
 
+    // Terms like `ratio:16:9` or `max:500kb` are filters, only the rest of the query is searched for
+    const parsedQuery = useMemo(() => parseQuery(debouncedQuery), [debouncedQuery])
+    const searchQuery = parsedQuery.query
+    const filters = useMemo(() => mergeFilters(barFilters, parsedQuery.filters), [barFilters, parsedQuery])
+
+    useOfflineThumbnailSync()
+
+    // "/" focuses the search field from anywhere outside a text field
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key !== "/" || event.metaKey || event.ctrlKey) return
+
+            const target = event.target as HTMLElement
+            if (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable) return
+
+            event.preventDefault()
+            focusSearch()
+        }
+
+        window.addEventListener("keydown", handleKeyDown)
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown)
+        }
+    }, [])
+
     // Fetch user ID on component mount
     useEffect(() => {
         const fetchUserId = async () => {
@@ -85,354 +140,348 @@ export function App() {
         void fetchUserId()
     }, [])
 
-    const changeType = (type: "gifs" | "stickers") => {
+    const changeType = (type: Tab) => {
         setType(type)
         saveSelectedTab(type)
     }
 
+    const closeDetails = useCallback(() => {
+        setDetailItem(null)
+    }, [])
+
+    // Editing the filter bar takes over the filters typed into the search, so they're removed from the query
+    const changeFilters = (next: ItemFilters) => {
+        setBarFilters(next)
+
+        const stripped = parseQuery(query).query
+        if (stripped !== query.trim()) setQuery(stripped)
+    }
+
+    const closeContentFilter = useCallback(() => {
+        setContentFilterPanelOpen(false)
+    }, [])
+
+    const closeReEditing = useCallback(() => {
+        setReEditing(null)
+    }, [])
+
+    // Tags in the detail view search within the item's own content type when the provider has it
+    const searchFromDetails = (searchQuery: string, contentType: ContentType) => {
+        changeType(provider.contentTypes.includes(contentType) ? contentType : "gifs")
+        setQuery(searchQuery)
+        setDetailItem(null)
+    }
+
     return (
-        <main className="flex flex-col gap-0 h-full select-none">
+        <main className="flex flex-col gap-0 h-full select-none relative">
             <div className="pb-[15px] z-10 relative px-[15px] flex gap-[10px] sm:flex-row-reverse flex-col">
                 <Tabs
-                    className="sm:!w-[180px]"
+                    className="sm:!w-auto sm:max-w-[60%]"
+                    label={t("app.contentType")}
                     items={[
-                        {
-                            label: "GIFs",
-                            active: type === "gifs",
+                        ...provider.contentTypes.map(contentType => ({
+                            label: contentTypeLabel(contentType),
+                            active: type === contentType,
                             select: () => {
-                                changeType("gifs")
+                                changeType(contentType)
                             },
-                        },
+                        })),
                         {
-                            label: "Stickers",
-                            active: type === "stickers",
+                            label: t("app.favorites"),
+                            active: type === "favorites",
                             select: () => {
-                                changeType("stickers")
+                                changeType("favorites")
                             },
                         },
                     ]}
                 />
-                <div className="bg-primary z-10 relative flex-1">
-                    <input
-                        type="text"
-                        placeholder="Search…"
-                        value={query}
-                        className="w-full pl-[30px] pr-[116px]"
-                        autoFocus
-                        onChange={e => {
-                            setQuery(e.target.value)
-                        }}
-                    />
-                    <div className="flex items-center justify-center absolute left-[10px] top-0 bottom-0 text-tertiary pointer-events-none">
-                        <svg
-                            xmlns="http://www.w3.org/2000/svg"
-                            width="11.384"
-                            height="11.134"
-                            fill="none"
-                            overflow="visible"
-                        >
-                            <path
-                                d="M 5 0 C 7.761 0 10 2.239 10 5 C 10 6.046 9.679 7.017 9.13 7.819 L 11.164 9.854 C 11.457 10.146 11.457 10.621 11.164 10.914 C 10.871 11.207 10.396 11.207 10.104 10.914 L 8.107 8.918 C 7.254 9.595 6.174 10 5 10 C 2.239 10 0 7.761 0 5 C 0 2.239 2.239 0 5 0 Z M 1.5 5 C 1.5 6.933 3.067 8.5 5 8.5 C 6.933 8.5 8.5 6.933 8.5 5 C 8.5 3.067 6.933 1.5 5 1.5 C 3.067 1.5 1.5 3.067 1.5 5 Z"
-                                fill="currentColor"
-                            ></path>
-                        </svg>
-                    </div>
-                    <img
-                        src="/klipy-logo.png"
-                        className="absolute right-[8px] top-1/2 -translate-y-1/2 h-[14px] pointer-events-none dark:invert"
-                    />
-                </div>
+                <SearchField
+                    query={query}
+                    onQueryChange={setQuery}
+                    userId={userId}
+                    contentType={type === "favorites" ? undefined : type}
+                />
             </div>
+            {type !== "favorites" && query.length === 0 && (
+                <BrowseChips contentType={type} userId={userId} onSearch={setQuery} />
+            )}
+            {type !== "favorites" && query.length > 0 && (
+                <RelatedSearches query={searchQuery} contentType={type} userId={userId} onSearch={setQuery} />
+            )}
+            {type !== "favorites" && <FilterBar value={filters} onChange={changeFilters} />}
+            {type !== "favorites" && <ColorFilterBar value={colorFilter} onChange={setColorFilter} />}
             <AppErrorBoundary>
-                <GifsList query={debouncedQuery} userId={userId} type={type} />
+                {type === "favorites" ? (
+                    <FavoritesList query={searchQuery} userId={userId} onShowDetails={setDetailItem} />
+                ) : (
+                    <GifsList
+                        query={searchQuery}
+                        userId={userId}
+                        type={type}
+                        filters={filters}
+                        colorFilter={colorFilter}
+                        onShowDetails={setDetailItem}
+                    />
+                )}
             </AppErrorBoundary>
+            {mode === "canvas" && editedLayer && (
+                <EditedLayerNotice
+                    layer={editedLayer}
+                    onEdit={() => {
+                        setReEditing(editedLayer)
+                    }}
+                />
+            )}
+            {mode === "canvas" && <SelectionTray userId={userId} />}
+            {detailItem && (
+                <DetailPanel
+                    key={detailItem.id}
+                    content={detailItem}
+                    userId={userId}
+                    onClose={closeDetails}
+                    onShowDetails={setDetailItem}
+                    onSearch={searchFromDetails}
+                />
+            )}
+            {isContentFilterOpen && <ContentFilterPanel onClose={closeContentFilter} />}
+            {reEditing && (
+                <EditorPanel
+                    key={reEditing.nodeId}
+                    content={reEditing.record.item}
+                    userId={userId}
+                    mode="caption"
+                    initialEdits={reEditing.record.edits}
+                    target={reEditing.nodeId}
+                    onClose={closeReEditing}
+                />
+            )}
         </main>
     )
 }
 
-type ContentId = number
+type ContentId = string
+
+// Pages in a row without a result matching the filters before fetching pauses
+const maxPagesWithoutMatches = 5
 
 const GifsList = memo(function GifsList({
     query,
     userId,
     type,
+    filters,
+    colorFilter,
+    onShowDetails,
 }: {
     query: string
     userId: string
-    type: KlipyContentType
+    type: ContentType
+    filters: ItemFilters
+    colorFilter: ColorFilter | null
+    onShowDetails: (content: MediaItem) => void
 }) {
-    const isAllowedToUpsertImage = useIsAllowedTo("addImage", "setImage")
-
-    const { data, fetchNextPage, isFetchingNextPage, isLoading, hasNextPage } = useListContentInfinite(
-        query,
-        userId,
-        type
-    )
-    const scrollRef = useRef<HTMLDivElement>(null)
-    const [windowWidth, setWindowWidth] = useState(window.innerWidth)
-    const deferredWindowWidth = useDeferredValue(windowWidth)
-    const previousWindowHeightRef = useRef(window.innerHeight)
-
-    const handleScroll = useCallback(() => {
-        if (isFetchingNextPage || isLoading) return
-
-        const scrollElement = scrollRef.current
-        if (!scrollElement) return
-
-        const distanceToEnd = scrollElement.scrollHeight - (scrollElement.clientHeight + scrollElement.scrollTop)
+    const {
+        data,
+        error,
+        fetchNextPage,
+        isFetchingNextPage,
+        isFetchNextPageError,
+        isLoading,
+        hasNextPage,
+        isPlaceholderData,
+    } = useListContentInfinite(query, userId, type)
+
+    const items = useMemo(() => {
+        const seenContent = new Set<ContentId>()
+        const items: MediaItem[] = []
 
-        if (distanceToEnd > 150) return
+        for (const page of data?.pages ?? []) {
+            for (const content of page.items) {
+                // Could have duplicates with pagination
+                if (seenContent.has(content.id)) continue
+                seenContent.add(content.id)
+                items.push(content)
+            }
+        }
 
-        void fetchNextPage()
-    }, [isFetchingNextPage, isLoading, fetchNextPage])
+        return items
+    }, [data])
 
-    useEffect(() => {
-        const handleResize = () => {
-            setWindowWidth(window.innerWidth)
+    const defaultRendition = useDefaultRendition()
+    const budgetSettings = useBudgetSettings()
+    const isFiltering = hasFilters(filters)
+    const filteredItems = useMemo(
+        () =>
+            isFiltering ? items.filter(item => matchesFilters(item, filters, defaultRendition, budgetSettings)) : items,
+        [items, filters, isFiltering, defaultRendition, budgetSettings]
+    )
 
-            // Handle vertical window resize
-            if (window.innerHeight > previousWindowHeightRef.current) {
-                handleScroll()
-            }
+    // Filters can leave whole pages without a match. Further pages are fetched until the viewport is filled, but after
+    // a run of pages with nothing to show it stops and offers to keep searching.
+    const [searchLimit, setSearchLimit] = useState(maxPagesWithoutMatches)
+    const pagesWithoutMatches = useMemo(() => {
+        if (!isFiltering) return 0
 
-            previousWindowHeightRef.current = window.innerHeight
+        let count = 0
+        for (const page of [...(data?.pages ?? [])].reverse()) {
+            if (page.items.some(item => matchesFilters(item, filters, defaultRendition, budgetSettings))) break
+            count++
         }
 
-        handleResize()
-        window.addEventListener("resize", handleResize)
-        return () => {
-            window.removeEventListener("resize", handleResize)
-        }
-    }, [handleScroll])
+        return count
+    }, [data, filters, isFiltering, defaultRendition, budgetSettings])
 
-    const addContentMutation = useMutation({
-        mutationFn: async (content: KlipyContent) => {
-            if (!userId) {
-                throw new Error("User ID not available")
-            }
+    useEffect(() => {
+        setSearchLimit(maxPagesWithoutMatches)
+    }, [query, type, filters])
 
-            const mode = framer.mode
-            const contentTypeName = type === "gifs" ? "GIF" : "Sticker"
+    const isSearchStopped = hasNextPage && pagesWithoutMatches >= searchLimit
 
-            const imageData = {
-                image: getContentUrl(content, "md", "gif"),
-                name: content.title ?? contentTypeName,
-                altText: content.title ?? undefined,
-            }
+    // With a color filter only results close to its palette are shown, closest first
+    const itemColors = useItemColors(filteredItems, colorFilter !== null)
+    const rankedItems = useMemo(
+        () => (colorFilter ? rankByPalette(filteredItems, colorFilter.palette, itemColors) : filteredItems),
+        [filteredItems, colorFilter, itemColors]
+    )
+    const isRanking =
+        colorFilter !== null && rankedItems.length === 0 && hasUnknownColors(filteredItems, itemColors)
 
-            try {
-                if (mode === "canvas") {
-                    await framer.addImage(imageData)
-                    void framer.notify(`Inserted ${contentTypeName}`, { variant: "success" })
-                    return
-                }
-
-                await framer.setImage(imageData)
-                void framer.closePlugin()
-            } catch (error) {
-                console.error("Failed to add image:", error)
-                void framer.notify(`Failed to insert ${contentTypeName}`, { variant: "error" })
-            }
-        },
-    })
+    // Pages that had results hidden by the blocklist
+    const hiddenPages = useMemo(() => (data?.pages ?? []).filter(page => page.hiddenCount > 0), [data])
 
     useEffect(() => {
-        const scrollElement = scrollRef.current
+        if (isLoading) {
+            announce(t("app.loading", { type: contentTypeLabel(type) }))
+            return
+        }
 
-        if (scrollElement) scrollElement.scrollTop = 0
-    }, [query])
+        if (isFetchingNextPage) return
+        announce(items.length === 0 ? contentTypeEmptyMessage(type) : t("app.results", { count: items.length }))
+    }, [type, isLoading, isFetchingNextPage, items.length])
 
+    // Only searches that found something are worth suggesting again
     useEffect(() => {
-        const scrollElement = scrollRef.current
-        if (!scrollElement || isLoading) return
-
-        const isScrollable = scrollElement.scrollHeight > scrollElement.clientHeight
-
-        if (isScrollable || !hasNextPage) return
+        if (query && items.length > 0) addToSearchHistory(query)
+    }, [query, items.length])
 
+    // Cached pages shown while the first page loads can't be paginated from, and after a failed page only the retry
+    // button loads more so scrolling doesn't keep hammering a failing API
+    const loadMore = useCallback(() => {
+        if (isPlaceholderData || isFetchNextPageError) return
         void fetchNextPage()
-    }, [data, hasNextPage, fetchNextPage, deferredWindowWidth, isLoading])
-
-    const [contentColumns, columnWidth] = useMemo(() => {
-        const adjustedWindowWidth = deferredWindowWidth - sidePadding
-        const columnCount = Math.max(1, Math.floor((adjustedWindowWidth + columnGap) / (minColumnWidth + columnGap)))
-        const columnWidth = (adjustedWindowWidth - (columnCount - 1) * columnGap) / columnCount
-        const heightPerColumn = Array<number>(columnCount).fill(0)
-
-        const seenContent = new Set<ContentId>()
-        const columns = Array.from({ length: columnCount }, (): KlipyContent[] => [])
-
-        if (!data) return [columns, columnWidth]
+    }, [fetchNextPage, isPlaceholderData, isFetchNextPageError])
 
-        for (const page of data.pages) {
-            // TODO: Cache pages?
+    const retryNextPage = useCallback(() => {
+        void fetchNextPage()
+    }, [fetchNextPage])
 
-            for (const content of page.results) {
-                // Could have duplicates with pagination
-                if (seenContent.has(content.id)) continue
-                seenContent.add(content.id)
+    const keepSearching = useCallback(() => {
+        setSearchLimit(pagesWithoutMatches + maxPagesWithoutMatches)
+        void fetchNextPage()
+    }, [fetchNextPage, pagesWithoutMatches])
 
-                const itemHeight = heightForContent(content, columnWidth)
+    // The grid only loads more once it has something to scroll, so pages are fetched here while nothing matches
+    const isSearchingForMatches =
+        isFiltering && filteredItems.length === 0 && !!hasNextPage && !isSearchStopped && !isFetchNextPageError
+    useEffect(() => {
+        if (isSearchingForMatches && !isLoading && !isFetchingNextPage) loadMore()
+    }, [isSearchingForMatches, isLoading, isFetchingNextPage, loadMore])
 
-                const minColumnIndex = heightPerColumn.indexOf(Math.min(...heightPerColumn))
-                if (minColumnIndex === -1) continue
+    const emptyMessage = () => {
+        if (isFiltering && items.length > 0) return t("filter.noMatches")
+        if (colorFilter && filteredItems.length > 0) return t("color.noMatches")
+        return contentTypeEmptyMessage(type)
+    }
 
-                columns[minColumnIndex]?.push(content)
-                if (heightPerColumn[minColumnIndex] === undefined) throw new Error("Logic error")
-                heightPerColumn[minColumnIndex] += itemHeight
+    return (
+        <ContentGrid
+            items={rankedItems}
+            userId={userId}
+            resetKey={`${query}-${JSON.stringify(filters)}-${colorFilter?.id ?? ""}`}
+            isLoading={isLoading || isRanking || isSearchingForMatches}
+            isFetchingMore={isFetchingNextPage}
+            hasMore={hasNextPage && !isSearchStopped}
+            onLoadMore={loadMore}
+            onShowDetails={onShowDetails}
+            emptyMessage={emptyMessage()}
+            footer={
+                <>
+                    {isSearchStopped && !isFetchingNextPage && (
+                        <KeepSearching pageCount={pagesWithoutMatches} onKeepSearching={keepSearching} />
+                    )}
+                    {hiddenPages.length > 0 && <HiddenNotice pages={hiddenPages} />}
+                    {isFetchNextPageError && <ErrorMessage error={error} onRetry={retryNextPage} compact />}
+                </>
             }
-        }
-        return [columns, columnWidth] as const
-    }, [data, deferredWindowWidth])
-
-    const isLoadingVisible = isLoading || isFetchingNextPage
+        />
+    )
+})
 
-    if (!userId) {
-        return (
-            <div className="flex-1 flex items-center justify-center">
-                <div className="framer-spinner" />
-            </div>
-        )
-    }
+function KeepSearching({ pageCount, onKeepSearching }: { pageCount: number; onKeepSearching: () => void }) {
+    return (
+        <div className="flex items-center justify-center gap-[6px] py-[10px] text-tertiary">
+            <span className="truncate">{t("filter.stopped", { count: pageCount })}</span>
+            <button
+                className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-secondary shrink-0"
+                onClick={onKeepSearching}
+            >
+                {t("filter.keepSearching")}
+            </button>
+        </div>
+    )
+}
 
-    if (!isLoadingVisible && contentColumns[0]?.length === 0) {
-        const contentTypeName = type === "gifs" ? "GIFs" : "stickers"
-        return <div className="flex-1 flex items-center justify-center text-tertiary">No {contentTypeName} found</div>
-    }
+// Layers inserted from the editor keep their edits, so the caption can be changed from the original frames
+function EditedLayerNotice({ layer, onEdit }: { layer: EditedLayer; onEdit: () => void }) {
+    const { item } = layer.record
 
     return (
-        <div
-            className="overflow-auto relative flex-1 rounded-t-[8px] mx-[15px] no-scrollbar"
-            ref={scrollRef}
-            onScroll={handleScroll}
-        >
-            <div className="relative">
-                <div className="flex gap-[8px]">
-                    {contentColumns.map((content, i) => (
-                        <div
-                            key={`column-${i}`}
-                            className="shrink-0 flex flex-col gap-[8px]"
-                            style={{ width: columnWidth }}
-                        >
-                            {content.map(item => (
-                                <GridItem
-                                    key={item.id}
-                                    content={item}
-                                    height={heightForContent(item, columnWidth)}
-                                    width={columnWidth}
-                                    loading={
-                                        addContentMutation.isPending && addContentMutation.variables?.id === item.id
-                                    }
-                                    onSelect={addContentMutation.mutate}
-                                    isAllowedToUpsertImage={isAllowedToUpsertImage}
-                                    userId={userId}
-                                />
-                            ))}
-                            {isLoadingVisible && <Placeholders index={i} />}
-                        </div>
-                    ))}
-                </div>
-            </div>
+        <div className="flex items-center justify-center gap-[6px] px-[15px] py-[10px] text-tertiary border-t border-divider">
+            <span className="truncate">
+                {t("caption.selected", { name: item.title || contentTypeName(item.contentType) })}
+            </span>
+            <button
+                className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-secondary shrink-0"
+                onClick={onEdit}
+            >
+                {t("caption.edit")}
+            </button>
         </div>
     )
-})
-
-interface GridItemProps {
-    content: KlipyContent
-    height: number
-    width: number
-    loading: boolean
-    onSelect: (content: KlipyContent) => void
-    isAllowedToUpsertImage: boolean
-    userId: string
 }
 
-const GridItem = memo(function GridItem({
-    content,
-    loading,
-    height,
-    onSelect,
-    isAllowedToUpsertImage,
-    userId,
-}: GridItemProps) {
-    const handleClick = useCallback(() => {
-        onSelect(content)
-    }, [onSelect, content])
-    const [imageLoaded, setImageLoaded] = useState(false)
-
-    const handleImageLoad = useCallback(() => {
-        setImageLoaded(true)
-    }, [])
+function HiddenNotice({ pages }: { pages: FilteredPage[] }) {
+    const total = pages.reduce((sum, page) => sum + page.hiddenCount, 0)
+    const breakdown = pages.map(page => t("app.hiddenPage", { page: page.page, count: page.hiddenCount })).join(", ")
 
     return (
-        <Draggable
-            data={{
-                type: "image",
-                image: getContentUrl(content, "md", "gif"),
-                previewImage: getContentUrl(content, "sm", "webp"),
-                name: content.title ?? "Content",
-                altText: content.title ?? undefined,
-            }}
-        >
+        <div className="flex items-center justify-center gap-[6px] py-[10px] text-tertiary">
+            <span className="truncate" title={breakdown}>
+                {t("app.hidden", { count: total, pages: breakdown })}
+            </span>
             <button
+                className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-secondary shrink-0"
                 onClick={() => {
-                    if (!isAllowedToUpsertImage || !userId) return
-                    handleClick()
+                    setContentFilterPanelOpen(true)
                 }}
-                className="cursor-pointer bg-cover relative rounded-lg overflow-hidden bg-tertiary"
-                style={{ height }}
-                disabled={!isAllowedToUpsertImage || !userId}
-                title={content.title}
             >
-                {/* Main image - loads once and triggers onLoad */}
-                <img
-                    src={getContentUrl(content, "sm", "webp")}
-                    onLoad={handleImageLoad}
-                    className="absolute inset-0 w-full h-full object-cover rounded-lg"
-                    alt={content.title ?? "Content"}
-                    loading="lazy"
-                />
-
-                {/* Blur preview - fades out after image loads */}
-                <div
-                    className="absolute inset-0 bg-cover bg-center rounded-lg transition-opacity duration-150"
-                    style={{
-                        backgroundImage: `url(${content.blur_preview})`,
-                        opacity: imageLoaded ? 0 : 1,
-                    }}
-                />
-
-                {/* Loading overlay */}
-                <div
-                    className={cx(
-                        "absolute inset-0 rounded-lg flex items-center justify-center transition-all pointer-events-none",
-                        loading && "bg-black-dimmed"
-                    )}
-                >
-                    {loading && <div className="framer-spinner bg-white" />}
-                </div>
+                {t("app.editBlocklist")}
             </button>
-        </Draggable>
+        </div>
     )
-})
+}
 
 const AppErrorBoundary = ({ children }: PropsWithChildren<object>) => (
     <QueryErrorResetBoundary>
         {({ reset }) => (
             <ErrorBoundary
                 onReset={reset}
-                fallbackRender={({ resetErrorBoundary }) => (
-                    <div className="flex flex-1 items-center justify-center flex-col max-w-[200px] m-auto text-tertiary">
-                        Could not load content
-                        <button
-                            className="bg-transparent hover:bg-transparent active:bg-transparent text-blue-600 outline-hidden"
-                            onClick={() => {
-                                resetErrorBoundary()
-                            }}
-                        >
-                            Try again
-                        </button>
-                    </div>
+                fallbackRender={({ error, resetErrorBoundary }) => (
+                    <ErrorMessage
+                        error={error}
+                        onRetry={() => {
+                            resetErrorBoundary()
+                        }}
+                    />
                 )}
             >
                 {children}
@@ -440,41 +489,3 @@ const AppErrorBoundary = ({ children }: PropsWithChildren<object>) => (
         )}
     </QueryErrorResetBoundary>
 )
-
-const placeholderHeights = [
-    [120, 70, 90, 86],
-    [70, 140, 120, 70],
-    [140, 60, 70, 90],
-    [90, 130, 60, 120],
-]
-
-const Placeholders = ({ index }: { index: number }) => {
-    const heights = placeholderHeights[index % placeholderHeights.length]
-    if (!heights) return null
-
-    return heights.map((height, heightIndex) => (
-        <div key={heightIndex} className="animate-pulse bg-secondary rounded-md" style={{ height }} />
-    ))
-}
-
-function heightForContent(content: KlipyContent, columnWidth: number) {
-    const { width, height } = getContentDimensions(content, "md")
-    const ratio = width / height
-    return columnWidth / ratio
-}
-
-function useDebounce<T>(value: T, delay: number) {
-    const [debouncedValue, setDebouncedValue] = useState<T>(value)
-
-    useEffect(() => {
-        const debounce = setTimeout(() => {
-            setDebouncedValue(value)
-        }, delay)
-
-        return () => {
-            clearTimeout(debounce)
-        }
-    }, [value, delay])
-
-    return debouncedValue
-}
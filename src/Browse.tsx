@@ -0,0 +1,87 @@
+import { memo, type PropsWithChildren } from "react"
+import { type ContentType, useCategories, useRelatedSearches, useTrendingSearches } from "./api"
+import Chip from "./Chip"
+import { t } from "./i18n"
+
+interface Props {
+    contentType: ContentType
+    userId: string
+    onSearch: (query: string) => void
+}
+
+// Empty-state browse rows shown above the trending grid until the user types
+export const BrowseChips = memo(function BrowseChips({ contentType, userId, onSearch }: Props) {
+    const { data: categories = [] } = useCategories(userId, contentType)
+    const { data: trendingSearches = [] } = useTrendingSearches(userId, contentType)
+
+    if (categories.length === 0 && trendingSearches.length === 0) return null
+
+    return (
+        <div className="flex flex-col gap-[6px] pb-[10px] shrink-0">
+            {categories.length > 0 && (
+                <ChipRow label={t("browse.categories")}>
+                    {categories.map(category => (
+                        <Chip
+                            key={category.name}
+                            onClick={() => {
+                                onSearch(category.query)
+                            }}
+                        >
+                            {category.name}
+                        </Chip>
+                    ))}
+                </ChipRow>
+            )}
+            {trendingSearches.length > 0 && (
+                <ChipRow label={t("browse.trending")}>
+                    {trendingSearches.map(search => (
+                        <Chip
+                            key={search}
+                            onClick={() => {
+                                onSearch(search)
+                            }}
+                        >
+                            {search}
+                        </Chip>
+                    ))}
+                </ChipRow>
+            )}
+        </div>
+    )
+})
+
+// Related searches shown under the search field once a search has run
+export const RelatedSearches = memo(function RelatedSearches({
+    query,
+    contentType,
+    userId,
+    onSearch,
+}: Props & { query: string }) {
+    const { data: relatedSearches = [] } = useRelatedSearches(query, userId, contentType)
+
+    if (relatedSearches.length === 0) return null
+
+    return (
+        <div className="pb-[10px] shrink-0">
+            <ChipRow label={t("browse.related")}>
+                {relatedSearches.map(search => (
+                    <Chip
+                        key={search}
+                        onClick={() => {
+                            onSearch(search)
+                        }}
+                    >
+                        {search}
+                    </Chip>
+                ))}
+            </ChipRow>
+        </div>
+    )
+})
+
+const ChipRow = ({ label, children }: PropsWithChildren<{ label: string }>) => (
+    <div className="flex items-center gap-[6px] px-[15px] overflow-x-auto no-scrollbar">
+        <span className="shrink-0 text-tertiary w-[64px]">{label}</span>
+        {children}
+    </div>
+)
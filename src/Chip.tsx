@@ -0,0 +1,23 @@
+import cx from "classnames"
+import type { PropsWithChildren } from "react"
+
+interface Props {
+    active?: boolean
+    title?: string
+    onClick: () => void
+}
+
+export default function Chip({ active = false, title, onClick, children }: PropsWithChildren<Props>) {
+    return (
+        <button
+            className={cx(
+                "shrink-0 w-auto h-[24px] px-[10px] rounded-full",
+                active ? "bg-tint text-white hover:bg-tint" : "bg-tertiary"
+            )}
+            title={title}
+            onClick={onClick}
+        >
+            {children}
+        </button>
+    )
+}
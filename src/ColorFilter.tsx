@@ -0,0 +1,91 @@
+import cx from "classnames"
+import { framer } from "framer-plugin"
+import { useState } from "react"
+import { selectedLayerPalette } from "./canvasSelection"
+import Chip from "./Chip"
+import { type ColorFilter, colorSwatches, rgbToHex } from "./colors"
+import { t } from "./i18n"
+
+interface Props {
+    value: ColorFilter | null
+    onChange: (value: ColorFilter | null) => void
+}
+
+// Swatches that rank the results by color, and in canvas mode a chip matching the colors of the selected layers
+export function ColorFilterBar({ value, onChange }: Props) {
+    const [isReadingSelection, setIsReadingSelection] = useState(false)
+
+    const matchSelection = async () => {
+        if (value?.id === "selection") {
+            onChange(null)
+            return
+        }
+
+        setIsReadingSelection(true)
+        try {
+            const palette = await selectedLayerPalette()
+            if (palette.length === 0) {
+                void framer.notify(t("color.noPalette"), { variant: "info" })
+                return
+            }
+
+            onChange({ id: "selection", palette })
+        } catch (error) {
+            console.error("Failed to read the selected layers' colors:", error)
+            void framer.notify(t("color.noPalette"), { variant: "error" })
+        } finally {
+            setIsReadingSelection(false)
+        }
+    }
+
+    return (
+        <div
+            className="flex items-center gap-[6px] px-[15px] pb-[10px] overflow-x-auto no-scrollbar shrink-0"
+            role="group"
+            aria-label={t("color.label")}
+        >
+            <span className="shrink-0 text-tertiary w-[64px]">{t("color.label")}</span>
+            {colorSwatches.map(swatch => {
+                const isActive = value?.id === swatch.id
+
+                return (
+                    <button
+                        key={swatch.id}
+                        className={cx(
+                            "shrink-0 size-[18px] p-0 rounded-full border border-divider",
+                            isActive && "ring-2 ring-tint ring-offset-1"
+                        )}
+                        style={{ backgroundColor: rgbToHex(swatch.color) }}
+                        title={t(`color.${swatch.id}`)}
+                        aria-label={t(`color.${swatch.id}`)}
+                        aria-pressed={isActive}
+                        onClick={() => {
+                            onChange(isActive ? null : { id: swatch.id, palette: [swatch.color] })
+                        }}
+                    />
+                )
+            })}
+            {framer.mode === "canvas" && (
+                <Chip
+                    active={value?.id === "selection"}
+                    title={t("color.matchSelectionTitle")}
+                    onClick={() => {
+                        if (!isReadingSelection) void matchSelection()
+                    }}
+                >
+                    <span className="flex items-center gap-[4px]">
+                        {value?.id === "selection" &&
+                            value.palette.slice(0, 4).map((color, index) => (
+                                <span
+                                    key={index}
+                                    className="size-[8px] rounded-full"
+                                    style={{ backgroundColor: rgbToHex(color) }}
+                                />
+                            ))}
+                        {t("color.matchSelection")}
+                    </span>
+                </Chip>
+            )}
+        </div>
+    )
+}
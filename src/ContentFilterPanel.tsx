@@ -0,0 +1,156 @@
+import { framer } from "framer-plugin"
+import { type ChangeEvent, useEffect, useRef, useState } from "react"
+import { safeSearchLevels } from "./api"
+import Chip from "./Chip"
+import {
+    addBlockedTerm,
+    changeSafeSearch,
+    exportContentFilter,
+    importContentFilter,
+    removeBlockedTerm,
+    safeSearchLabels,
+    useContentFilter,
+} from "./contentFilter"
+import { t } from "./i18n"
+
+interface Props {
+    onClose: () => void
+}
+
+export function ContentFilterPanel({ onClose }: Props) {
+    const { safeSearch, blocklist } = useContentFilter()
+    const [newTerm, setNewTerm] = useState("")
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") onClose()
+        }
+
+        window.addEventListener("keydown", handleKeyDown)
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown)
+        }
+    }, [onClose])
+
+    const submitNewTerm = () => {
+        addBlockedTerm(newTerm)
+        setNewTerm("")
+    }
+
+    const exportFilter = () => {
+        const blob = new Blob([exportContentFilter()], { type: "application/json" })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement("a")
+        link.href = url
+        link.download = "content-filter.json"
+        link.click()
+        setTimeout(() => {
+            URL.revokeObjectURL(url)
+        }, 0)
+    }
+
+    const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ""
+        if (!file) return
+
+        try {
+            const count = importContentFilter(await file.text())
+            void framer.notify(t("blocklist.imported", { count }), { variant: "success" })
+        } catch (error) {
+            console.error("Failed to import content filter:", error)
+            void framer.notify(t("blocklist.importFailed"), { variant: "error" })
+        }
+    }
+
+    return (
+        <div
+            className="absolute inset-0 z-30 bg-primary flex flex-col overflow-auto no-scrollbar"
+            role="dialog"
+            aria-label={t("blocklist.title")}
+        >
+            <div className="flex items-center gap-[10px] px-[15px] py-[10px] shrink-0">
+                <button className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-tertiary" onClick={onClose}>
+                    {t("detail.back")}
+                </button>
+                <span className="flex-1 truncate font-semibold text-primary">{t("blocklist.title")}</span>
+            </div>
+
+            <div className="px-[15px] flex flex-col gap-[15px] pb-[15px]">
+                <section className="flex flex-col gap-[6px]">
+                    <h2 className="text-tertiary">{t("blocklist.safeSearch")}</h2>
+                    <div className="flex flex-wrap gap-[6px]">
+                        {safeSearchLevels.map(level => (
+                            <Chip
+                                key={level}
+                                active={level === safeSearch}
+                                onClick={() => {
+                                    changeSafeSearch(level)
+                                }}
+                            >
+                                {t(safeSearchLabels[level])}
+                            </Chip>
+                        ))}
+                    </div>
+                </section>
+
+                <section className="flex flex-col gap-[6px]">
+                    <h2 className="text-tertiary">{t("blocklist.terms")}</h2>
+                    <p className="text-secondary">{t("blocklist.description")}</p>
+                    <input
+                        type="text"
+                        placeholder={t("blocklist.placeholder")}
+                        aria-label={t("blocklist.add")}
+                        value={newTerm}
+                        onChange={event => {
+                            setNewTerm(event.target.value)
+                        }}
+                        onKeyDown={event => {
+                            if (event.key === "Enter") submitNewTerm()
+                        }}
+                    />
+                    {blocklist.length > 0 && (
+                        <div className="flex flex-wrap gap-[6px]">
+                            {blocklist.map(term => (
+                                <Chip
+                                    key={term}
+                                    title={t("blocklist.unblock", { term })}
+                                    onClick={() => {
+                                        removeBlockedTerm(term)
+                                    }}
+                                >
+                                    {term}
+                                    <span className="opacity-60 ml-[4px]">×</span>
+                                </Chip>
+                            ))}
+                        </div>
+                    )}
+                </section>
+
+                <div className="flex gap-[10px] text-tertiary">
+                    <button className="w-auto h-auto p-0 bg-transparent hover:bg-transparent" onClick={exportFilter}>
+                        {t("blocklist.export")}
+                    </button>
+                    <button
+                        className="w-auto h-auto p-0 bg-transparent hover:bg-transparent"
+                        onClick={() => {
+                            fileInputRef.current?.click()
+                        }}
+                    >
+                        {t("blocklist.import")}
+                    </button>
+                    <input
+                        ref={fileInputRef}
+                        type="file"
+                        accept="application/json,.json"
+                        className="hidden"
+                        onChange={event => {
+                            void importFile(event)
+                        }}
+                    />
+                </div>
+            </div>
+        </div>
+    )
+}
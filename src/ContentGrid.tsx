@@ -0,0 +1,710 @@
+import cx from "classnames"
+import { Draggable, framer, type MenuItem, useIsAllowedTo } from "framer-plugin"
+import {
+    type KeyboardEvent,
+    memo,
+    type MouseEvent,
+    type ReactNode,
+    useCallback,
+    useDeferredValue,
+    useEffect,
+    useLayoutEffect,
+    useMemo,
+    useRef,
+    useState,
+} from "react"
+import { getContentDimensions, getContentUrl, type MediaItem } from "./api"
+import {
+    type BudgetSettings,
+    dragRendition,
+    isOverBudget,
+    resolveRendition,
+    useBudgetSettings,
+    warnHardLimit,
+} from "./budget"
+import { replaceLabel, useSelectedImageLayers } from "./canvasSelection"
+import {
+    type Collection,
+    collectionName,
+    isInCollection,
+    toggleFavorite,
+    toggleInCollection,
+    useCollections,
+} from "./favorites"
+import { focusSearch } from "./focus"
+import { contentTypeName, t } from "./i18n"
+import { type InsertRequest, recordInsert, useInsertContent, useReplaceSelection } from "./insert"
+import {
+    findAnchor,
+    layoutHeight,
+    type MasonryDirection,
+    type MasonryInput,
+    type MasonryLayout,
+    type MasonryOptions,
+    neighborPosition,
+    updateLayout,
+    visiblePositions,
+} from "./masonry"
+import { useOfflineThumbnail } from "./offlineThumbnails"
+import { tagLayer } from "./provenance"
+import {
+    allRenditionChoices,
+    formatBytes,
+    getRendition,
+    type RenditionChoice,
+    renditionDetails,
+    renditionLabel,
+    renditionMenuItems,
+    setDefaultRendition,
+    useDefaultRendition,
+} from "./renditions"
+import { isSelected, toggleSelection, useSelection } from "./selection"
+
+const minColumnWidth = framer.mode === "image" ? 120 : 110
+const columnGap = 8
+const sidePadding = 15 * 2
+
+const arrowKeyDirections: Partial<Record<string, MasonryDirection>> = {
+    ArrowUp: "up",
+    ArrowDown: "down",
+    ArrowLeft: "left",
+    ArrowRight: "right",
+}
+
+interface ContentGridProps {
+    items: MediaItem[]
+    userId: string
+    resetKey: string // Scrolls back to the top when it changes
+    isLoading: boolean
+    isFetchingMore?: boolean
+    hasMore?: boolean
+    onLoadMore?: () => void
+    onShowDetails: (content: MediaItem) => void
+    emptyMessage: string
+    offlineThumbnails?: boolean // Use thumbnails from the offline cache, for saved items
+    footer?: ReactNode // Shown below the items, e.g. when loading the next page failed
+}
+
+export const ContentGrid = memo(function ContentGrid({
+    items,
+    userId,
+    resetKey,
+    isLoading,
+    isFetchingMore = false,
+    hasMore = false,
+    onLoadMore,
+    onShowDetails,
+    emptyMessage,
+    offlineThumbnails = false,
+    footer,
+}: ContentGridProps) {
+    const isAllowedToUpsertImage = useIsAllowedTo("addImage", "setImage")
+    const isAllowedToReplace = useIsAllowedTo("setAttributes")
+    const defaultRendition = useDefaultRendition()
+    const budgetSettings = useBudgetSettings()
+    const collections = useCollections()
+    const selection = useSelection()
+    const imageLayers = useSelectedImageLayers()
+
+    const scrollRef = useRef<HTMLDivElement>(null)
+    const [windowWidth, setWindowWidth] = useState(window.innerWidth)
+    const deferredWindowWidth = useDeferredValue(windowWidth)
+    const previousWindowHeightRef = useRef(window.innerHeight)
+    const [scrollTop, setScrollTop] = useState(0)
+    const [viewportHeight, setViewportHeight] = useState(window.innerHeight)
+
+    const previousLayoutRef = useRef<MasonryLayout | null>(null)
+    const anchorRef = useRef<{ id: string; offset: number } | null>(null)
+
+    // Only items appended since the layout was last updated are placed, existing ones keep their position. The layout
+    // is derived from the previous one, so it's kept in state and updated while rendering when its inputs change.
+    const containerWidth = deferredWindowWidth - sidePadding
+    const [layoutState, setLayoutState] = useState(() => ({
+        items,
+        containerWidth,
+        layout: updateLayout(null, masonryOptions(containerWidth), items.map(masonryInputForContent)),
+    }))
+
+    let layout = layoutState.layout
+    if (layoutState.items !== items || layoutState.containerWidth !== containerWidth) {
+        layout = updateLayout(layout, masonryOptions(containerWidth), items.map(masonryInputForContent))
+        setLayoutState({ items, containerWidth, layout })
+    }
+
+    const itemsById = useMemo(() => new Map(items.map(item => [item.id, item])), [items])
+
+    const handleScroll = useCallback(() => {
+        const scrollElement = scrollRef.current
+        if (!scrollElement) return
+
+        setScrollTop(scrollElement.scrollTop)
+        anchorRef.current = findAnchor(layout, scrollElement.scrollTop)
+
+        if (isFetchingMore || isLoading || !onLoadMore) return
+
+        const distanceToEnd = scrollElement.scrollHeight - (scrollElement.clientHeight + scrollElement.scrollTop)
+
+        if (distanceToEnd > 150) return
+
+        onLoadMore()
+    }, [layout, isFetchingMore, isLoading, onLoadMore])
+
+    useEffect(() => {
+        const handleResize = () => {
+            setWindowWidth(window.innerWidth)
+            setViewportHeight(scrollRef.current?.clientHeight ?? window.innerHeight)
+
+            // Handle vertical window resize
+            if (window.innerHeight > previousWindowHeightRef.current) {
+                handleScroll()
+            }
+
+            previousWindowHeightRef.current = window.innerHeight
+        }
+
+        handleResize()
+        window.addEventListener("resize", handleResize)
+        return () => {
+            window.removeEventListener("resize", handleResize)
+        }
+    }, [handleScroll])
+
+    // Keep the item that was at the top of the viewport in place when a resize reflows the columns
+    useLayoutEffect(() => {
+        const previousLayout = previousLayoutRef.current
+        previousLayoutRef.current = layout
+
+        const scrollElement = scrollRef.current
+        const anchor = anchorRef.current
+        if (!scrollElement || !anchor || !previousLayout) return
+        if (previousLayout.options.containerWidth === layout.options.containerWidth) return
+
+        const position = layout.positions.get(anchor.id)
+        if (!position) return
+
+        scrollElement.scrollTop = position.y - anchor.offset
+        setScrollTop(scrollElement.scrollTop)
+    }, [layout])
+
+    const addContentMutation = useInsertContent(userId)
+    const replaceMutation = useReplaceSelection(userId)
+    const replaceAction = isAllowedToReplace && imageLayers.length > 0 ? replaceLabel(imageLayers) : null
+
+    // Roving tab index: a single item is tabbable and arrow keys move between items by visual position
+    const [focusedId, setFocusedId] = useState<string | null>(null)
+    const pendingFocusRef = useRef<string | null>(null)
+    const tabbableId = focusedId && layout.positions.has(focusedId) ? focusedId : (layout.order[0] ?? null)
+
+    const handleKeyDown = useCallback(
+        (event: KeyboardEvent<HTMLDivElement>) => {
+            const scrollElement = scrollRef.current
+            const id = (event.target as HTMLElement).dataset.itemId
+            if (!scrollElement || !id) return
+
+            if (event.key === "Escape") {
+                event.preventDefault()
+                focusSearch()
+                return
+            }
+
+            if ((event.key === "f" || event.key === "i") && !event.metaKey && !event.ctrlKey) {
+                const item = itemsById.get(id)
+                if (!item) return
+
+                if (event.key === "f") toggleFavorite(item)
+                else onShowDetails(item)
+                return
+            }
+
+            const direction = arrowKeyDirections[event.key]
+            if (!direction) return
+            event.preventDefault()
+
+            const neighbor = neighborPosition(layout, id, direction)
+            if (!neighbor) return
+
+            // Scroll the item into view first, it may not be mounted yet
+            const viewportBottom = scrollElement.scrollTop + scrollElement.clientHeight
+            if (neighbor.y < scrollElement.scrollTop) {
+                scrollElement.scrollTop = neighbor.y
+            } else if (neighbor.y + neighbor.height > viewportBottom) {
+                scrollElement.scrollTop = neighbor.y + neighbor.height - scrollElement.clientHeight
+            }
+
+            setScrollTop(scrollElement.scrollTop)
+            setFocusedId(neighbor.id)
+            pendingFocusRef.current = neighbor.id
+        },
+        [layout, itemsById, onShowDetails]
+    )
+
+    useEffect(() => {
+        const id = pendingFocusRef.current
+        if (!id) return
+
+        const element = scrollRef.current?.querySelector<HTMLElement>(`[data-item-id="${CSS.escape(id)}"]`)
+        if (!element) return
+
+        pendingFocusRef.current = null
+        element.focus()
+    })
+
+    useEffect(() => {
+        const scrollElement = scrollRef.current
+        anchorRef.current = null
+
+        if (scrollElement) scrollElement.scrollTop = 0
+        setScrollTop(0)
+    }, [resetKey])
+
+    useEffect(() => {
+        const scrollElement = scrollRef.current
+        if (!scrollElement || isLoading || isFetchingMore || !onLoadMore) return
+
+        const isScrollable = scrollElement.scrollHeight > scrollElement.clientHeight
+
+        if (isScrollable || !hasMore) return
+
+        // Runs again when a page finishes loading, since a filtered page can add nothing to the layout
+        onLoadMore()
+    }, [layout, hasMore, onLoadMore, isLoading, isFetchingMore])
+
+    // Only items within a screen of the viewport are mounted
+    const visible = useMemo(
+        () => visiblePositions(layout, scrollTop - viewportHeight, scrollTop + viewportHeight * 2),
+        [layout, scrollTop, viewportHeight]
+    )
+
+    const isLoadingVisible = isLoading || isFetchingMore
+
+    if (!userId) {
+        return (
+            <div className="flex-1 flex items-center justify-center">
+                <div className="framer-spinner" />
+            </div>
+        )
+    }
+
+    if (!isLoadingVisible && items.length === 0) {
+        return (
+            <div className="flex-1 flex flex-col items-center justify-center text-tertiary">
+                {emptyMessage}
+                {footer}
+            </div>
+        )
+    }
+
+    return (
+        <div
+            className="overflow-auto relative flex-1 rounded-t-[8px] mx-[15px] no-scrollbar"
+            ref={scrollRef}
+            onScroll={handleScroll}
+            onKeyDown={handleKeyDown}
+            role="region"
+            aria-label={t("grid.results")}
+            aria-busy={isLoadingVisible}
+        >
+            <div className="relative" style={{ height: layoutHeight(layout) }}>
+                {visible.map(position => {
+                    const item = itemsById.get(position.id)
+                    if (!item) return null
+
+                    return (
+                        <div
+                            key={item.id}
+                            className="absolute"
+                            style={{ left: position.x, top: position.y, width: position.width }}
+                        >
+                            <GridItem
+                                content={item}
+                                height={position.height}
+                                width={position.width}
+                                loading={
+                                    (addContentMutation.isPending &&
+                                        addContentMutation.variables?.content.id === item.id) ||
+                                    (replaceMutation.isPending && replaceMutation.variables?.content.id === item.id)
+                                }
+                                onSelect={addContentMutation.mutate}
+                                replaceAction={replaceAction}
+                                onReplace={replaceMutation.mutate}
+                                defaultRendition={defaultRendition}
+                                budgetSettings={budgetSettings}
+                                onChangeDefaultRendition={setDefaultRendition}
+                                collections={collections}
+                                selected={isSelected(selection, item)}
+                                isSelecting={selection.length > 0}
+                                isAllowedToUpsertImage={isAllowedToUpsertImage}
+                                userId={userId}
+                                tabbable={item.id === tabbableId}
+                                onFocus={setFocusedId}
+                                onShowDetails={onShowDetails}
+                                offlineThumbnail={offlineThumbnails}
+                            />
+                        </div>
+                    )
+                })}
+                {isLoadingVisible &&
+                    layout.columnHeights.map((columnHeight, i) => (
+                        <div
+                            key={`placeholders-${i}`}
+                            className="absolute flex flex-col gap-[8px]"
+                            style={{
+                                left: i * (layout.columnWidth + columnGap),
+                                top: columnHeight === 0 ? 0 : columnHeight + columnGap,
+                                width: layout.columnWidth,
+                            }}
+                        >
+                            <Placeholders index={i} />
+                        </div>
+                    ))}
+            </div>
+            {footer}
+        </div>
+    )
+})
+
+interface GridItemProps {
+    content: MediaItem
+    height: number
+    width: number
+    loading: boolean
+    onSelect: (insert: InsertRequest) => void
+    replaceAction: string | null // Label for replacing the selected image layers, null when nothing can be replaced
+    onReplace: (insert: InsertRequest) => void
+    defaultRendition: RenditionChoice
+    budgetSettings: BudgetSettings
+    onChangeDefaultRendition: (rendition: RenditionChoice) => void
+    collections: Collection[]
+    selected: boolean
+    isSelecting: boolean // Some item is selected, plain clicks add to the selection instead of inserting
+    isAllowedToUpsertImage: boolean
+    userId: string
+    tabbable: boolean
+    onFocus: (id: string) => void
+    onShowDetails: (content: MediaItem) => void
+    offlineThumbnail: boolean
+}
+
+const GridItem = memo(function GridItem({
+    content,
+    loading,
+    height,
+    onSelect,
+    replaceAction,
+    onReplace,
+    defaultRendition,
+    budgetSettings,
+    onChangeDefaultRendition,
+    collections,
+    selected,
+    isSelecting,
+    isAllowedToUpsertImage,
+    userId,
+    tabbable,
+    onFocus,
+    onShowDetails,
+    offlineThumbnail,
+}: GridItemProps) {
+    const isFavorite = collections[0] ? isInCollection(collections[0], content) : false
+    const name = content.title || contentTypeName(content.contentType)
+
+    // Rendition used for clicks and drags, the largest one under the size budget when auto select is on
+    const rendition = resolveRendition(content, defaultRendition, budgetSettings)
+    const renditionSize = getRendition(content, rendition).size
+    const isAboveBudget = isOverBudget(getRendition(content, rendition), budgetSettings)
+    const draggedRendition = dragRendition(content, rendition, budgetSettings)
+
+    const label = [name, isFavorite && "favorite", selected && "selected", isAboveBudget && formatBytes(renditionSize)]
+        .filter(Boolean)
+        .join(", ")
+
+    const handleClick = useCallback(() => {
+        onSelect({ content, rendition })
+    }, [onSelect, content, rendition])
+
+    const handleContextMenu = useCallback(
+        (event: MouseEvent) => {
+            event.preventDefault()
+            if (!isAllowedToUpsertImage || !userId) return
+
+            const menuItems: MenuItem[] = [
+                {
+                    label: t("grid.showDetails"),
+                    onAction: () => {
+                        onShowDetails(content)
+                    },
+                },
+                {
+                    label: selected ? t("grid.removeFromSelection") : t("grid.addToSelection"),
+                    visible: framer.mode === "canvas",
+                    onAction: () => {
+                        toggleSelection(content)
+                    },
+                },
+                { type: "separator" },
+                {
+                    label: replaceAction ?? t("grid.replaceSelection", { count: 1 }),
+                    visible: replaceAction !== null,
+                    submenu: allRenditionChoices().map(
+                        (rendition): MenuItem => ({
+                            label: renditionLabel(rendition),
+                            secondaryLabel: renditionDetails(getRendition(content, rendition)),
+                            onAction: () => {
+                                onReplace({ content, rendition })
+                            },
+                        })
+                    ),
+                },
+                ...renditionMenuItems(
+                    content,
+                    defaultRendition,
+                    rendition => {
+                        onSelect({ content, rendition })
+                    },
+                    onChangeDefaultRendition
+                ),
+                { type: "separator" },
+                {
+                    label: t("grid.addToCollection"),
+                    submenu: collections.map(
+                        (collection): MenuItem => ({
+                            label: collectionName(collection),
+                            checked: isInCollection(collection, content),
+                            onAction: () => {
+                                toggleInCollection(collection.id, content)
+                            },
+                        })
+                    ),
+                },
+            ]
+
+            void framer.showContextMenu(menuItems, { location: { x: event.clientX, y: event.clientY } })
+        },
+        [
+            content,
+            defaultRendition,
+            onSelect,
+            replaceAction,
+            onReplace,
+            onChangeDefaultRendition,
+            onShowDetails,
+            collections,
+            selected,
+            isAllowedToUpsertImage,
+            userId,
+        ]
+    )
+    const [imageLoaded, setImageLoaded] = useState(false)
+    const thumbnailUrl = useOfflineThumbnail(getContentUrl(content, "sm", "webp"), offlineThumbnail)
+
+    const handleImageLoad = useCallback(() => {
+        setImageLoaded(true)
+    }, [])
+
+    return (
+        <div className="relative group">
+            <Draggable
+                data={{
+                    type: "image",
+                    image: getRendition(content, draggedRendition).url,
+                    previewImage: getContentUrl(content, "sm", "webp"),
+                    name: content.title || contentTypeName(content.contentType),
+                    altText: content.title || undefined,
+                }}
+                onDragComplete={result => {
+                    if (result.status !== "success") return
+
+                    recordInsert(content, draggedRendition)
+                    warnHardLimit(getRendition(content, draggedRendition))
+                    void tagLayer(result.nodeId, content, draggedRendition)
+                }}
+            >
+                <button
+                    onClick={event => {
+                        if (!isAllowedToUpsertImage || !userId) return
+
+                        // Shift or cmd click picks items for a batch insert on the canvas
+                        const isSelectClick = isSelecting || event.shiftKey || event.metaKey || event.ctrlKey
+                        if (framer.mode === "canvas" && isSelectClick) {
+                            toggleSelection(content)
+                            return
+                        }
+
+                        handleClick()
+                    }}
+                    onContextMenu={handleContextMenu}
+                    onFocus={() => {
+                        onFocus(content.id)
+                    }}
+                    tabIndex={tabbable ? 0 : -1}
+                    data-grid-item
+                    data-item-id={content.id}
+                    aria-label={label}
+                    className={cx(
+                        "cursor-pointer bg-cover relative rounded-lg overflow-hidden bg-tertiary w-full",
+                        selected && "ring-2 ring-tint"
+                    )}
+                    style={{ height }}
+                    disabled={!isAllowedToUpsertImage || !userId}
+                    title={content.title}
+                >
+                    {/* Main image - loads once and triggers onLoad */}
+                    <img
+                        src={thumbnailUrl}
+                        onLoad={handleImageLoad}
+                        className="absolute inset-0 w-full h-full object-cover rounded-lg"
+                        alt={content.title || contentTypeName(content.contentType)}
+                        loading="lazy"
+                    />
+
+                    {/* Blur preview - fades out after image loads */}
+                    <div
+                        className="absolute inset-0 bg-cover bg-center rounded-lg transition-opacity duration-150"
+                        style={{
+                            backgroundImage: `url(${content.preview})`,
+                            opacity: imageLoaded ? 0 : 1,
+                        }}
+                    />
+
+                    {/* Loading overlay */}
+                    <div
+                        className={cx(
+                            "absolute inset-0 rounded-lg flex items-center justify-center transition-all pointer-events-none",
+                            loading && "bg-black-dimmed"
+                        )}
+                    >
+                        {loading && <div className="framer-spinner bg-white" />}
+                    </div>
+                </button>
+            </Draggable>
+
+            <div className="absolute top-[4px] left-[4px] flex items-center gap-[4px] pointer-events-none">
+                {selected && (
+                    <div className="size-[18px] rounded-full flex items-center justify-center bg-tint text-white">
+                        <CheckIcon />
+                    </div>
+                )}
+
+                {/* Size badge on items whose inserted rendition is larger than the budget */}
+                {isAboveBudget && (
+                    <div className="h-[18px] px-[6px] rounded-full flex items-center bg-black-dimmed text-white text-2xs font-semibold">
+                        {formatBytes(renditionSize)}
+                    </div>
+                )}
+            </div>
+
+            {/* Favorite toggle - always visible once starred, F on the focused item from the keyboard */}
+            <button
+                className={cx(
+                    "absolute top-[4px] right-[4px] size-[22px] p-0 rounded-full flex items-center justify-center bg-black-dimmed hover:bg-black-dimmed text-white transition-opacity",
+                    isFavorite ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+                )}
+                title={isFavorite ? t("grid.removeFromFavorites") : t("grid.addToFavorites")}
+                tabIndex={-1}
+                onClick={() => {
+                    toggleFavorite(content)
+                }}
+            >
+                <StarIcon filled={isFavorite} />
+            </button>
+
+            {/* Replace the selected image layers with the default rendition */}
+            {replaceAction && (
+                <button
+                    className="absolute bottom-[4px] left-[4px] size-[22px] p-0 rounded-full flex items-center justify-center bg-black-dimmed hover:bg-black-dimmed text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                    title={replaceAction}
+                    tabIndex={-1}
+                    disabled={loading}
+                    onClick={() => {
+                        onReplace({ content, rendition })
+                    }}
+                >
+                    <ReplaceIcon />
+                </button>
+            )}
+
+            {/* Details - reachable from the keyboard with I on the focused item */}
+            <button
+                className="absolute bottom-[4px] right-[4px] size-[22px] p-0 rounded-full flex items-center justify-center bg-black-dimmed hover:bg-black-dimmed text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title={t("grid.showDetails")}
+                tabIndex={-1}
+                onClick={() => {
+                    onShowDetails(content)
+                }}
+            >
+                <InfoIcon />
+            </button>
+        </div>
+    )
+})
+
+const StarIcon = ({ filled }: { filled: boolean }) => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 12 12">
+        <path
+            d="M 6 0.75 L 7.62 4.03 L 11.25 4.56 L 8.63 7.12 L 9.24 10.73 L 6 9.03 L 2.76 10.73 L 3.37 7.12 L 0.75 4.56 L 4.38 4.03 Z"
+            fill={filled ? "currentColor" : "none"}
+            stroke="currentColor"
+            strokeWidth="1.2"
+            strokeLinejoin="round"
+        />
+    </svg>
+)
+
+const CheckIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="10" height="10" viewBox="0 0 10 10">
+        <path
+            d="M 2 5.25 L 4 7.25 L 8 2.75"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="1.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+        />
+    </svg>
+)
+
+const ReplaceIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 12 12">
+        <path
+            d="M 2 5 C 2 3.343 3.343 2 5 2 L 9 2 M 7.5 0.5 L 9 2 L 7.5 3.5 M 10 7 C 10 8.657 8.657 10 7 10 L 3 10 M 4.5 8.5 L 3 10 L 4.5 11.5"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="1.2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+        />
+    </svg>
+)
+
+const InfoIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 12 12">
+        <circle cx="6" cy="6" r="5" fill="none" stroke="currentColor" strokeWidth="1.2" />
+        <path d="M 6 5.25 L 6 8.5" stroke="currentColor" strokeWidth="1.2" strokeLinecap="round" />
+        <circle cx="6" cy="3.5" r="0.75" fill="currentColor" />
+    </svg>
+)
+
+const placeholderHeights = [
+    [120, 70, 90, 86],
+    [70, 140, 120, 70],
+    [140, 60, 70, 90],
+    [90, 130, 60, 120],
+]
+
+const Placeholders = ({ index }: { index: number }) => {
+    const heights = placeholderHeights[index % placeholderHeights.length]
+    if (!heights) return null
+
+    return heights.map((height, heightIndex) => (
+        <div key={heightIndex} className="animate-pulse bg-secondary rounded-md" style={{ height }} />
+    ))
+}
+
+function masonryOptions(containerWidth: number): MasonryOptions {
+    return { containerWidth, minColumnWidth, gap: columnGap }
+}
+
+function masonryInputForContent(content: MediaItem): MasonryInput {
+    const { width, height } = getContentDimensions(content, "md")
+    return { id: content.id, aspectRatio: width / height }
+}
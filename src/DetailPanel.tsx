@@ -0,0 +1,254 @@
+import cx from "classnames"
+import { Draggable, useIsAllowedTo } from "framer-plugin"
+import { memo, useCallback, useEffect, useState } from "react"
+import {
+    type ContentType,
+    getContentDimensions,
+    getContentUrl,
+    type MediaItem,
+    useMoreLikeThis,
+} from "./api"
+import { useSelectedImageLayers } from "./canvasSelection"
+import { dragRendition, isOverBudget, resolveRendition, useBudgetSettings, warnHardLimit } from "./budget"
+import Chip from "./Chip"
+import { type EditorMode, EditorPanel } from "./EditorPanel"
+import { isInCollection, toggleFavorite, useCollections } from "./favorites"
+import { contentTypeName, t } from "./i18n"
+import { recordInsert, useInsertContent, useReplaceSelection } from "./insert"
+import { tagLayer } from "./provenance"
+import { allRenditionChoices, getRendition, renditionDetails, renditionLabel, useDefaultRendition } from "./renditions"
+import { StillFramePanel } from "./StillFramePanel"
+
+interface Props {
+    content: MediaItem
+    userId: string
+    onClose: () => void
+    onShowDetails: (content: MediaItem) => void
+    onSearch: (query: string, contentType: ContentType) => void
+}
+
+export const DetailPanel = memo(function DetailPanel({ content, userId, onClose, onShowDetails, onSearch }: Props) {
+    const isAllowedToUpsertImage = useIsAllowedTo("addImage", "setImage")
+    const defaultRendition = useDefaultRendition()
+    const budgetSettings = useBudgetSettings()
+    const collections = useCollections()
+    const isAllowedToReplace = useIsAllowedTo("setAttributes")
+    const addContentMutation = useInsertContent(userId)
+    const replaceMutation = useReplaceSelection(userId)
+    const imageLayers = useSelectedImageLayers()
+    const { data: moreLikeThis = [] } = useMoreLikeThis(content, userId)
+    const [openTool, setOpenTool] = useState<"still" | EditorMode | null>(null)
+
+    const isFavorite = collections[0] ? isInCollection(collections[0], content) : false
+    const { width, height } = getContentDimensions(content, "md")
+    const canInsert = isAllowedToUpsertImage && !!userId
+    const draggedRendition = dragRendition(
+        content,
+        resolveRendition(content, defaultRendition, budgetSettings),
+        budgetSettings
+    )
+    const canReplace = isAllowedToReplace && !!userId && imageLayers.length > 0
+
+    useEffect(() => {
+        // A tool panel on top closes first
+        if (openTool) return
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") onClose()
+        }
+
+        window.addEventListener("keydown", handleKeyDown)
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown)
+        }
+    }, [onClose, openTool])
+
+    const closeTool = useCallback(() => {
+        setOpenTool(null)
+    }, [])
+
+    return (
+        <div
+            className="absolute inset-0 z-30 bg-primary flex flex-col overflow-auto no-scrollbar"
+            role="dialog"
+            aria-label={content.title || contentTypeName(content.contentType)}
+        >
+            <div className="flex items-center gap-[10px] px-[15px] py-[10px] shrink-0">
+                <button className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-tertiary" onClick={onClose}>
+                    {t("detail.back")}
+                </button>
+                <span className="flex-1 truncate font-semibold text-primary">
+                    {content.title || contentTypeName(content.contentType)}
+                </span>
+                <button
+                    className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-tertiary"
+                    onClick={() => {
+                        toggleFavorite(content)
+                    }}
+                >
+                    {isFavorite ? t("detail.unfavorite") : t("detail.favorite")}
+                </button>
+            </div>
+
+            <div className="px-[15px] flex flex-col gap-[15px] pb-[15px]">
+                <Draggable
+                    data={{
+                        type: "image",
+                        image: getRendition(content, draggedRendition).url,
+                        previewImage: getContentUrl(content, "sm", "webp"),
+                        name: content.title || contentTypeName(content.contentType),
+                        altText: content.title || undefined,
+                    }}
+                    onDragComplete={result => {
+                        if (result.status !== "success") return
+
+                        recordInsert(content, draggedRendition)
+                        warnHardLimit(getRendition(content, draggedRendition))
+                        void tagLayer(result.nodeId, content, draggedRendition)
+                    }}
+                >
+                    <div
+                        className="w-full rounded-lg bg-tertiary bg-cover bg-center"
+                        style={{ aspectRatio: `${width} / ${height}`, backgroundImage: `url(${content.preview})` }}
+                    >
+                        <img
+                            src={getContentUrl(content, "md", "webp")}
+                            alt={content.title}
+                            className="w-full h-full object-contain rounded-lg"
+                        />
+                    </div>
+                </Draggable>
+
+                <section className="flex flex-col gap-[4px]">
+                    <div className="flex items-center justify-between">
+                        <h2 className="text-tertiary">{t("detail.renditions")}</h2>
+                        <div className="flex items-center gap-[10px]">
+                            <button
+                                className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-secondary"
+                                disabled={!canInsert}
+                                onClick={() => {
+                                    setOpenTool("edit")
+                                }}
+                            >
+                                {t("editor.open")}
+                            </button>
+                            <button
+                                className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-secondary"
+                                disabled={!canInsert}
+                                onClick={() => {
+                                    setOpenTool("caption")
+                                }}
+                            >
+                                {t("caption.open")}
+                            </button>
+                            <button
+                                className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-secondary"
+                                disabled={!canInsert}
+                                onClick={() => {
+                                    setOpenTool("still")
+                                }}
+                            >
+                                {t("still.open")}
+                            </button>
+                        </div>
+                    </div>
+                    {allRenditionChoices().map(choice => {
+                        const isPending =
+                            addContentMutation.isPending &&
+                            addContentMutation.variables?.rendition.size === choice.size &&
+                            addContentMutation.variables.rendition.format === choice.format
+                        const isReplacing =
+                            replaceMutation.isPending &&
+                            replaceMutation.variables?.rendition.size === choice.size &&
+                            replaceMutation.variables.rendition.format === choice.format
+
+                        return (
+                            <div key={`${choice.size}-${choice.format}`} className="flex items-center gap-[10px] h-[26px]">
+                                <span className="w-[64px] text-primary font-semibold">{renditionLabel(choice)}</span>
+                                <span
+                                    className={cx(
+                                        "flex-1 truncate",
+                                        isOverBudget(getRendition(content, choice), budgetSettings)
+                                            ? "text-red-500"
+                                            : "text-secondary"
+                                    )}
+                                >
+                                    {renditionDetails(getRendition(content, choice))}
+                                </span>
+                                <button
+                                    className="w-auto h-[22px] px-[10px]"
+                                    disabled={!canInsert || isPending}
+                                    onClick={() => {
+                                        addContentMutation.mutate({ content, rendition: choice })
+                                    }}
+                                >
+                                    {isPending ? t("detail.inserting") : t("detail.insert")}
+                                </button>
+                                {canReplace && (
+                                    <button
+                                        className="w-auto h-[22px] px-[10px]"
+                                        title={t("detail.replaceTitle", { count: imageLayers.length })}
+                                        disabled={replaceMutation.isPending}
+                                        onClick={() => {
+                                            replaceMutation.mutate({ content, rendition: choice })
+                                        }}
+                                    >
+                                        {isReplacing ? t("detail.replacing") : t("detail.replace")}
+                                    </button>
+                                )}
+                            </div>
+                        )
+                    })}
+                </section>
+
+                {content.tags.length > 0 && (
+                    <section className="flex flex-col gap-[6px]">
+                        <h2 className="text-tertiary">{t("detail.tags")}</h2>
+                        <div className="flex flex-wrap gap-[6px]">
+                            {content.tags.map(tag => (
+                                <Chip
+                                    key={tag}
+                                    onClick={() => {
+                                        onSearch(tag, content.contentType)
+                                    }}
+                                >
+                                    {tag}
+                                </Chip>
+                            ))}
+                        </div>
+                    </section>
+                )}
+
+                {moreLikeThis.length > 0 && (
+                    <section className="flex flex-col gap-[6px]">
+                        <h2 className="text-tertiary">{t("detail.moreLikeThis")}</h2>
+                        <div className="flex gap-[8px] overflow-x-auto no-scrollbar">
+                            {moreLikeThis.map(item => (
+                                <button
+                                    key={item.id}
+                                    className="shrink-0 size-[72px] p-0 rounded-lg bg-tertiary bg-cover bg-center overflow-hidden"
+                                    style={{ backgroundImage: `url(${item.preview})` }}
+                                    title={item.title}
+                                    onClick={() => {
+                                        onShowDetails(item)
+                                    }}
+                                >
+                                    <img
+                                        src={getContentUrl(item, "xs", "webp")}
+                                        alt={item.title}
+                                        className="w-full h-full object-cover"
+                                        loading="lazy"
+                                    />
+                                </button>
+                            ))}
+                        </div>
+                    </section>
+                )}
+            </div>
+            {openTool === "still" && <StillFramePanel content={content} userId={userId} onClose={closeTool} />}
+            {(openTool === "edit" || openTool === "caption") && (
+                <EditorPanel content={content} userId={userId} mode={openTool} onClose={closeTool} />
+            )}
+        </div>
+    )
+})
@@ -0,0 +1,364 @@
+import { useEffect, useMemo, useRef, useState } from "react"
+import type { MediaItem } from "./api"
+import Chip from "./Chip"
+import { useEncodedEdit } from "./useEncodedEdit"
+import {
+    type Caption,
+    captionFontNames,
+    captionFonts,
+    cropAspects,
+    cropRect,
+    defaultEdits,
+    drawEditedFrame,
+    editedSequence,
+    type Edits,
+    loopModes,
+    outputFormats,
+    sequenceDuration,
+    speeds,
+} from "./edits"
+import { type DecodedAnimation, decodeErrorMessage, useDecodedAnimation } from "./frames"
+import { contentTypeName, t } from "./i18n"
+import { useInsertEdited } from "./insert"
+import { formatBytes } from "./renditions"
+
+export type EditorMode = "edit" | "caption"
+
+interface Props {
+    content: MediaItem
+    userId: string
+    mode: EditorMode // Captions only show the caption and format controls
+    initialEdits?: Edits // Edits of a layer opened again
+    target?: string // Layer whose image is replaced instead of adding a new one
+    onClose: () => void
+}
+
+// Crops, trims, retimes and captions an item, encodes the result in a worker and inserts the new file
+export function EditorPanel({ content, userId, mode, initialEdits, target, onClose }: Props) {
+    const decoded = useDecodedAnimation(content)
+    const typeName = contentTypeName(content.contentType)
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") onClose()
+        }
+
+        window.addEventListener("keydown", handleKeyDown)
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown)
+        }
+    }, [onClose])
+
+    return (
+        <div
+            className="absolute inset-0 z-40 bg-primary flex flex-col overflow-auto no-scrollbar"
+            role="dialog"
+            aria-label={mode === "caption" ? t("caption.title") : t("editor.title")}
+        >
+            <div className="flex items-center gap-[10px] px-[15px] py-[10px] shrink-0">
+                <button className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-tertiary" onClick={onClose}>
+                    {t("detail.back")}
+                </button>
+                <span className="flex-1 truncate font-semibold text-primary">
+                    {mode === "caption" ? t("caption.title") : t("editor.title")}
+                </span>
+            </div>
+
+            <div className="px-[15px] flex flex-col gap-[15px] pb-[15px]">
+                {decoded.status === "decoding" && (
+                    <div className="flex flex-col items-center gap-[10px] py-[40px] text-tertiary">
+                        <div className="framer-spinner" />
+                        {t("still.decoding")}
+                    </div>
+                )}
+
+                {decoded.status === "error" && (
+                    <div className="py-[40px] text-center text-tertiary">
+                        {decodeErrorMessage(decoded.error, typeName)}
+                    </div>
+                )}
+
+                {decoded.status === "decoded" && (
+                    <Editor
+                        content={content}
+                        userId={userId}
+                        mode={mode}
+                        initialEdits={initialEdits}
+                        target={target}
+                        animation={decoded.animation}
+                    />
+                )}
+            </div>
+        </div>
+    )
+}
+
+function Editor({
+    content,
+    userId,
+    mode,
+    initialEdits,
+    target,
+    animation,
+}: Omit<Props, "onClose"> & { animation: DecodedAnimation }) {
+    const [edits, setEdits] = useState<Edits>(() => initialEdits ?? defaultEdits(animation.frames.length))
+    const encoded = useEncodedEdit(animation, edits)
+    const insertMutation = useInsertEdited(userId)
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+
+    const frameCount = animation.frames.length
+    const crop = useMemo(() => cropRect(animation.width, animation.height, edits.aspect), [animation, edits.aspect])
+    const durations = useMemo(() => animation.frames.map(frame => frame.duration), [animation])
+    const sequence = useMemo(() => editedSequence(durations, edits), [durations, edits])
+
+    const update = (changes: Partial<Edits>) => {
+        setEdits(current => ({ ...current, ...changes }))
+    }
+
+    const updateCaption = (changes: Partial<Caption>) => {
+        setEdits(current => ({ ...current, caption: { ...current.caption, ...changes } }))
+    }
+
+    const { caption } = edits
+
+    // Plays the edited sequence, drawn the same way the worker renders it
+    useEffect(() => {
+        const canvas = canvasRef.current
+        const context = canvas?.getContext("2d")
+        if (!canvas || !context) return
+
+        canvas.width = crop.width
+        canvas.height = crop.height
+
+        let position = 0
+        let timeout: ReturnType<typeof setTimeout>
+        const drawNext = () => {
+            const step = sequence[position % sequence.length]
+            const image = step && animation.frames[step.index]?.image
+            if (!step || !image) return
+
+            drawEditedFrame(context, image, crop, caption)
+            position++
+            timeout = setTimeout(drawNext, step.duration)
+        }
+
+        drawNext()
+        return () => {
+            clearTimeout(timeout)
+        }
+    }, [animation, sequence, crop, caption])
+
+    const result =
+        encoded.status === "encoded" ? encoded.image : encoded.status === "encoding" ? encoded.previous : null
+    const details = result
+        ? t("editor.details", {
+              size: formatBytes(result.bytes.length),
+              width: crop.width,
+              height: crop.height,
+              seconds: (sequenceDuration(sequence) / 1000).toFixed(1),
+          })
+        : null
+
+    // Edits made since the last encode haven't been encoded yet, inserting now would upload the previous ones
+    const current = encoded.status === "encoded" && encoded.edits === edits ? encoded.image : null
+    const isEditing = mode === "edit"
+    const canTrim = isEditing && frameCount > 1
+
+    return (
+        <>
+            <canvas
+                ref={canvasRef}
+                className="w-full h-auto rounded-lg bg-tertiary"
+                style={{ aspectRatio: `${crop.width} / ${crop.height}` }}
+            />
+
+            {isEditing && (
+                <section className="flex flex-col gap-[6px]">
+                    <h2 className="text-tertiary">{t("editor.aspect")}</h2>
+                    <div className="flex flex-wrap gap-[6px]">
+                        {cropAspects.map(aspect => (
+                            <Chip
+                                key={aspect}
+                                active={edits.aspect === aspect}
+                                onClick={() => {
+                                    update({ aspect })
+                                }}
+                            >
+                                {aspect === "original" ? t("editor.original") : aspect}
+                            </Chip>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            {canTrim && (
+                <section className="flex flex-col gap-[6px]">
+                    <h2 className="text-tertiary">{t("editor.trim")}</h2>
+                    <label className="flex items-center gap-[10px]">
+                        <span className="w-[64px] shrink-0 text-secondary">
+                            {t("editor.start", { frame: edits.trimStart + 1 })}
+                        </span>
+                        <input
+                            type="range"
+                            className="flex-1"
+                            min={0}
+                            max={frameCount - 1}
+                            value={edits.trimStart}
+                            onChange={event => {
+                                const trimStart = Number(event.target.value)
+                                update({ trimStart, trimEnd: Math.max(trimStart, edits.trimEnd) })
+                            }}
+                        />
+                    </label>
+                    <label className="flex items-center gap-[10px]">
+                        <span className="w-[64px] shrink-0 text-secondary">
+                            {t("editor.end", { frame: edits.trimEnd + 1 })}
+                        </span>
+                        <input
+                            type="range"
+                            className="flex-1"
+                            min={0}
+                            max={frameCount - 1}
+                            value={edits.trimEnd}
+                            onChange={event => {
+                                const trimEnd = Number(event.target.value)
+                                update({ trimEnd, trimStart: Math.min(trimEnd, edits.trimStart) })
+                            }}
+                        />
+                    </label>
+                </section>
+            )}
+
+            {canTrim && (
+                <section className="flex flex-col gap-[6px]">
+                    <h2 className="text-tertiary">{t("editor.playback")}</h2>
+                    <div className="flex flex-wrap gap-[6px]">
+                        {speeds.map(speed => (
+                            <Chip
+                                key={speed}
+                                active={edits.speed === speed}
+                                onClick={() => {
+                                    update({ speed })
+                                }}
+                            >
+                                {`${speed}×`}
+                            </Chip>
+                        ))}
+                    </div>
+                    <div className="flex flex-wrap gap-[6px]">
+                        {loopModes.map(loop => (
+                            <Chip
+                                key={loop}
+                                active={edits.loop === loop}
+                                onClick={() => {
+                                    update({ loop })
+                                }}
+                            >
+                                {t(`editor.${loop}`)}
+                            </Chip>
+                        ))}
+                    </div>
+                </section>
+            )}
+
+            <section className="flex flex-col gap-[6px]">
+                <h2 className="text-tertiary">{t("caption.title")}</h2>
+                <input
+                    type="text"
+                    placeholder={t("caption.top")}
+                    aria-label={t("caption.top")}
+                    value={caption.top}
+                    onChange={event => {
+                        updateCaption({ top: event.target.value })
+                    }}
+                />
+                <input
+                    type="text"
+                    placeholder={t("caption.bottom")}
+                    aria-label={t("caption.bottom")}
+                    value={caption.bottom}
+                    onChange={event => {
+                        updateCaption({ bottom: event.target.value })
+                    }}
+                />
+                <div className="flex items-center gap-[10px]">
+                    <select
+                        className="flex-1 min-w-0"
+                        aria-label={t("caption.font")}
+                        value={caption.font}
+                        onChange={event => {
+                            const font = captionFonts.find(font => font === event.target.value)
+                            if (font) updateCaption({ font })
+                        }}
+                    >
+                        {captionFonts.map(font => (
+                            <option key={font} value={font}>
+                                {captionFontNames[font]}
+                            </option>
+                        ))}
+                    </select>
+                    <label className="flex items-center gap-[6px] text-secondary">
+                        {t("caption.color")}
+                        <input
+                            type="color"
+                            className="w-[24px] h-[24px] p-0"
+                            value={caption.color}
+                            onChange={event => {
+                                updateCaption({ color: event.target.value })
+                            }}
+                        />
+                    </label>
+                    <label className="flex items-center gap-[6px] text-secondary">
+                        {t("caption.stroke")}
+                        <input
+                            type="color"
+                            className="w-[24px] h-[24px] p-0"
+                            value={caption.strokeColor}
+                            onChange={event => {
+                                updateCaption({ strokeColor: event.target.value })
+                            }}
+                        />
+                    </label>
+                </div>
+            </section>
+
+            <section className="flex flex-col gap-[6px]">
+                <h2 className="text-tertiary">{t("editor.format")}</h2>
+                <div className="flex flex-wrap gap-[6px]">
+                    {outputFormats.map(format => (
+                        <Chip
+                            key={format}
+                            active={edits.format === format}
+                            onClick={() => {
+                                update({ format })
+                            }}
+                        >
+                            {format.toUpperCase()}
+                        </Chip>
+                    ))}
+                </div>
+            </section>
+
+            <div className="flex items-center gap-[10px]">
+                <span className="flex-1 truncate text-secondary" aria-live="polite">
+                    {encoded.status === "failed" ? t("editor.failed") : details}
+                    {encoded.status !== "failed" && !current && ` ${t("editor.encoding")}`}
+                </span>
+                <button
+                    className="framer-button-primary w-auto h-[24px] px-[10px]"
+                    disabled={!userId || !current || insertMutation.isPending}
+                    onClick={() => {
+                        if (!current) return
+                        insertMutation.mutate({ content, image: current, edits, target })
+                    }}
+                >
+                    {insertMutation.isPending
+                        ? t("detail.inserting")
+                        : target
+                          ? t("editor.update")
+                          : t("detail.insert")}
+                </button>
+            </div>
+        </>
+    )
+}
@@ -0,0 +1,35 @@
+import cx from "classnames"
+import { describeError } from "./errorMessages"
+import { useSecondsUntil } from "./hooks"
+import { t } from "./i18n"
+
+interface Props {
+    error: unknown
+    onRetry: () => void
+    compact?: boolean // Single line, for errors below content that is still shown
+}
+
+export function ErrorMessage({ error, onRetry, compact = false }: Props) {
+    const { title, detail, retryAt } = describeError(error)
+    const secondsLeft = useSecondsUntil(retryAt)
+
+    return (
+        <div
+            className={cx(
+                "flex items-center text-tertiary text-center",
+                compact ? "justify-center gap-[6px] py-[10px]" : "flex-1 justify-center flex-col max-w-[220px] m-auto"
+            )}
+            role="alert"
+        >
+            <span className={cx(!compact && "text-primary font-semibold")}>{title}</span>
+            {!compact && <span>{detail}</span>}
+            <button
+                className="w-auto bg-transparent hover:bg-transparent active:bg-transparent text-blue-600 outline-hidden"
+                disabled={secondsLeft > 0}
+                onClick={onRetry}
+            >
+                {secondsLeft > 0 ? t("error.retryIn", { seconds: secondsLeft }) : t("error.retry")}
+            </button>
+        </div>
+    )
+}
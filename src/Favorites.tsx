@@ -0,0 +1,203 @@
+import { framer } from "framer-plugin"
+import { type ChangeEvent, memo, useMemo, useRef, useState } from "react"
+import type { MediaItem } from "./api"
+import Chip from "./Chip"
+import { ContentGrid } from "./ContentGrid"
+import {
+    collectionName,
+    createCollection,
+    deleteCollection,
+    exportCollections,
+    FAVORITES_COLLECTION_ID,
+    importCollections,
+    useCollections,
+} from "./favorites"
+import { t } from "./i18n"
+import { ProjectList } from "./Project"
+import { RecentList } from "./Recent"
+
+const RECENT_VIEW_ID = "recent"
+const PROJECT_VIEW_ID = "project"
+
+interface Props {
+    query: string
+    userId: string
+    onShowDetails: (content: MediaItem) => void
+}
+
+export const FavoritesList = memo(function FavoritesList({ query, userId, onShowDetails }: Props) {
+    const collections = useCollections()
+    const [selectedId, setSelectedId] = useState(FAVORITES_COLLECTION_ID)
+    const [newName, setNewName] = useState<string | null>(null)
+    const fileInputRef = useRef<HTMLInputElement>(null)
+
+    const isRecentSelected = selectedId === RECENT_VIEW_ID
+    const isProjectSelected = selectedId === PROJECT_VIEW_ID
+    const isCollectionSelected = !isRecentSelected && !isProjectSelected
+    const selected = collections.find(collection => collection.id === selectedId) ?? collections[0]
+
+    // Saved items are searched locally by title and tags
+    const items = useMemo(() => {
+        const normalizedQuery = query.trim().toLowerCase()
+        if (!selected) return []
+        if (!normalizedQuery) return selected.items
+
+        return selected.items.filter(
+            item =>
+                item.title.toLowerCase().includes(normalizedQuery) ||
+                item.tags.some(tag => tag.toLowerCase().includes(normalizedQuery))
+        )
+    }, [selected, query])
+
+    const submitNewCollection = () => {
+        const name = newName?.trim()
+        setNewName(null)
+        if (!name) return
+
+        const collection = createCollection(name)
+        setSelectedId(collection.id)
+    }
+
+    const exportSelected = () => {
+        if (!selected) return
+
+        const blob = new Blob([exportCollections([selected.id])], { type: "application/json" })
+        const url = URL.createObjectURL(blob)
+        const link = document.createElement("a")
+        link.href = url
+        link.download = `${selected.name.replace(/[^\w-]+/g, "-").toLowerCase()}.json`
+        link.click()
+
+        // The download only starts after the click is handled, the URL has to outlive it
+        setTimeout(() => {
+            URL.revokeObjectURL(url)
+        }, 0)
+    }
+
+    const importFile = async (event: ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0]
+        event.target.value = ""
+        if (!file) return
+
+        try {
+            const count = importCollections(await file.text())
+            void framer.notify(t("favorites.imported", { count }), { variant: "success" })
+        } catch (error) {
+            console.error("Failed to import collections:", error)
+            void framer.notify(t("favorites.importFailed"), { variant: "error" })
+        }
+    }
+
+    return (
+        <div className="flex flex-col flex-1 min-h-0">
+            <div className="flex gap-[6px] px-[15px] pb-[10px] overflow-x-auto no-scrollbar shrink-0">
+                <Chip
+                    active={isRecentSelected}
+                    onClick={() => {
+                        setSelectedId(RECENT_VIEW_ID)
+                    }}
+                >
+                    {t("favorites.recent")}
+                </Chip>
+                {framer.mode === "canvas" && (
+                    <Chip
+                        active={isProjectSelected}
+                        onClick={() => {
+                            setSelectedId(PROJECT_VIEW_ID)
+                        }}
+                    >
+                        {t("favorites.project")}
+                    </Chip>
+                )}
+                {collections.map(collection => (
+                    <Chip
+                        key={collection.id}
+                        active={isCollectionSelected && collection.id === selected?.id}
+                        onClick={() => {
+                            setSelectedId(collection.id)
+                        }}
+                    >
+                        {collectionName(collection)}
+                        <span className="opacity-60 ml-[4px]">{collection.items.length}</span>
+                    </Chip>
+                ))}
+                {newName === null ? (
+                    <Chip
+                        onClick={() => {
+                            setNewName("")
+                        }}
+                    >
+                        {t("favorites.new")}
+                    </Chip>
+                ) : (
+                    <input
+                        type="text"
+                        className="shrink-0 w-[120px] h-[24px]"
+                        placeholder={t("favorites.collectionName")}
+                        autoFocus
+                        value={newName}
+                        onChange={event => {
+                            setNewName(event.target.value)
+                        }}
+                        onBlur={submitNewCollection}
+                        onKeyDown={event => {
+                            if (event.key === "Enter") submitNewCollection()
+                            if (event.key === "Escape") setNewName(null)
+                        }}
+                    />
+                )}
+            </div>
+            {isRecentSelected && <RecentList query={query} userId={userId} />}
+            {isProjectSelected && <ProjectList query={query} />}
+            {isCollectionSelected && (
+                <>
+                    <div className="flex gap-[10px] px-[15px] pb-[10px] text-tertiary shrink-0">
+                        <button
+                            className="w-auto h-auto p-0 bg-transparent hover:bg-transparent"
+                            onClick={exportSelected}
+                        >
+                            {t("favorites.export")}
+                        </button>
+                        <button
+                            className="w-auto h-auto p-0 bg-transparent hover:bg-transparent"
+                            onClick={() => {
+                                fileInputRef.current?.click()
+                            }}
+                        >
+                            {t("favorites.import")}
+                        </button>
+                        {selected && selected.id !== FAVORITES_COLLECTION_ID && (
+                            <button
+                                className="w-auto h-auto p-0 bg-transparent hover:bg-transparent ml-auto"
+                                onClick={() => {
+                                    deleteCollection(selected.id)
+                                    setSelectedId(FAVORITES_COLLECTION_ID)
+                                }}
+                            >
+                                {t("favorites.delete")}
+                            </button>
+                        )}
+                        <input
+                            ref={fileInputRef}
+                            type="file"
+                            accept="application/json,.json"
+                            className="hidden"
+                            onChange={event => {
+                                void importFile(event)
+                            }}
+                        />
+                    </div>
+                    <ContentGrid
+                        items={items}
+                        userId={userId}
+                        resetKey={`${selected?.id ?? ""}-${query}`}
+                        isLoading={false}
+                        onShowDetails={onShowDetails}
+                        emptyMessage={query ? t("favorites.noMatches") : t("favorites.empty")}
+                        offlineThumbnails
+                    />
+                </>
+            )}
+        </div>
+    )
+})
@@ -0,0 +1,114 @@
+import Chip from "./Chip"
+import { t } from "./i18n"
+import {
+    type Animation,
+    animations,
+    hasFilters,
+    type ItemFilters,
+    maxSizeOptions,
+    minWidthOptions,
+    noFilters,
+    type Orientation,
+    orientations,
+} from "./itemFilters"
+import { formatBytes } from "./renditions"
+
+interface Props {
+    value: ItemFilters
+    onChange: (value: ItemFilters) => void
+}
+
+const ANY = "any"
+
+// Chips for orientation and animation and selects for size, applied to the loaded results
+export function FilterBar({ value, onChange }: Props) {
+    const update = (changes: Partial<ItemFilters>) => {
+        onChange({ ...value, ...changes })
+    }
+
+    const toggleOrientation = (orientation: Orientation) => {
+        // A ratio typed into the search is more specific than an orientation, so picking one replaces it
+        update({ orientation: value.orientation === orientation ? null : orientation, ratio: null })
+    }
+
+    const toggleAnimation = (animation: Animation) => {
+        update({ animation: value.animation === animation ? null : animation })
+    }
+
+    return (
+        <div
+            className="flex items-center gap-[6px] px-[15px] pb-[10px] overflow-x-auto no-scrollbar shrink-0"
+            role="group"
+            aria-label={t("filter.label")}
+        >
+            <span className="shrink-0 text-tertiary w-[64px]">{t("filter.label")}</span>
+            {orientations.map(orientation => (
+                <Chip
+                    key={orientation}
+                    active={value.orientation === orientation}
+                    onClick={() => {
+                        toggleOrientation(orientation)
+                    }}
+                >
+                    {t(`filter.${orientation}`)}
+                </Chip>
+            ))}
+            {animations.map(animation => (
+                <Chip
+                    key={animation}
+                    active={value.animation === animation}
+                    onClick={() => {
+                        toggleAnimation(animation)
+                    }}
+                >
+                    {t(`filter.${animation}`)}
+                </Chip>
+            ))}
+            <select
+                className="shrink-0 w-auto h-[24px]"
+                aria-label={t("filter.minWidth")}
+                value={value.minWidth ?? ANY}
+                onChange={event => {
+                    update({ minWidth: event.target.value === ANY ? null : Number(event.target.value) })
+                }}
+            >
+                <option value={ANY}>{t("filter.anyWidth")}</option>
+                {withCurrent(minWidthOptions, value.minWidth).map(width => (
+                    <option key={width} value={width}>
+                        {t("filter.widthOption", { width })}
+                    </option>
+                ))}
+            </select>
+            <select
+                className="shrink-0 w-auto h-[24px]"
+                aria-label={t("filter.maxSize")}
+                value={value.maxSize ?? ANY}
+                onChange={event => {
+                    update({ maxSize: event.target.value === ANY ? null : Number(event.target.value) })
+                }}
+            >
+                <option value={ANY}>{t("filter.anySize")}</option>
+                {withCurrent(maxSizeOptions, value.maxSize).map(size => (
+                    <option key={size} value={size}>
+                        {t("filter.sizeOption", { size: formatBytes(size) })}
+                    </option>
+                ))}
+            </select>
+            {hasFilters(value) && (
+                <Chip
+                    onClick={() => {
+                        onChange(noFilters)
+                    }}
+                >
+                    {t("filter.clear")}
+                </Chip>
+            )}
+        </div>
+    )
+}
+
+// Values typed into the search, like `min:800`, show up in the select even when they aren't one of the presets
+function withCurrent(options: number[], current: number | null) {
+    if (current === null || options.includes(current)) return options
+    return [...options, current].sort((a, b) => a - b)
+}
@@ -0,0 +1,213 @@
+import { useQuery, useQueryClient } from "@tanstack/react-query"
+import { framer, useIsAllowedTo } from "framer-plugin"
+import { memo, useMemo, useState } from "react"
+import { getContentUrl } from "./api"
+import { contentTypeName, t } from "./i18n"
+import { useSwapRenditions } from "./insert"
+import { findTaggedLayers, type TaggedLayer } from "./provenance"
+import {
+    allRenditionChoices,
+    fallbackRendition,
+    isSameRendition,
+    type RenditionChoice,
+    renditionLabel,
+} from "./renditions"
+
+const projectLayersQueryKey = ["project-layers"]
+
+const ALL_RENDITIONS = "all"
+
+function renditionValue({ size, format }: RenditionChoice) {
+    return `${size}-${format}`
+}
+
+function renditionFromValue(value: string) {
+    return allRenditionChoices().find(choice => renditionValue(choice) === value) ?? null
+}
+
+async function selectLayer(nodeId: string) {
+    try {
+        await framer.setSelection([nodeId])
+        await framer.zoomIntoView(nodeId)
+    } catch (error) {
+        console.error("Failed to select layer:", error)
+        void framer.notify(t("project.selectFailed"), { variant: "error" })
+    }
+}
+
+/**
+ * Layers in the current project that were inserted by the plugin, found through the provenance plugin data on each
+ * layer. Layers can be selected and swapped to another rendition in bulk.
+ */
+export const ProjectList = memo(function ProjectList({ query }: { query: string }) {
+    const queryClient = useQueryClient()
+    const isAllowedToSwap = useIsAllowedTo("setAttributes")
+    const swapMutation = useSwapRenditions()
+    const [fromValue, setFromValue] = useState(ALL_RENDITIONS)
+    const [toRendition, setToRendition] = useState<RenditionChoice>(fallbackRendition)
+
+    const {
+        data: layers = [],
+        isLoading,
+        isError,
+        isFetching,
+        refetch,
+    } = useQuery({
+        queryKey: projectLayersQueryKey,
+        queryFn: findTaggedLayers,
+        staleTime: 0,
+        throwOnError: false,
+    })
+
+    const entries = useMemo(() => {
+        const normalizedQuery = query.trim().toLowerCase()
+        if (!normalizedQuery) return layers
+
+        return layers.filter(
+            ({ name, provenance }) =>
+                provenance.item.title.toLowerCase().includes(normalizedQuery) ||
+                name?.toLowerCase().includes(normalizedQuery)
+        )
+    }, [layers, query])
+
+    const fromRendition = renditionFromValue(fromValue)
+    const toSwap = entries.filter(
+        ({ provenance }) =>
+            (!fromRendition || isSameRendition(provenance.rendition, fromRendition)) &&
+            !isSameRendition(provenance.rendition, toRendition)
+    )
+
+    // Only renditions some layer uses are worth filtering by
+    const usedRenditions = allRenditionChoices().filter(choice =>
+        layers.some(({ provenance }) => isSameRendition(provenance.rendition, choice))
+    )
+
+    const swap = () => {
+        swapMutation.mutate(
+            { layers: toSwap, rendition: toRendition },
+            {
+                onSettled: () => {
+                    void queryClient.invalidateQueries({ queryKey: projectLayersQueryKey })
+                },
+            }
+        )
+    }
+
+    if (isLoading) {
+        return (
+            <div className="flex-1 flex items-center justify-center">
+                <div className="framer-spinner" />
+            </div>
+        )
+    }
+
+    if (isError) {
+        return (
+            <div className="flex-1 flex items-center justify-center flex-col text-tertiary">
+                {t("project.scanFailed")}
+                <button
+                    className="w-auto bg-transparent hover:bg-transparent text-blue-600"
+                    onClick={() => {
+                        void refetch()
+                    }}
+                >
+                    {t("error.retry")}
+                </button>
+            </div>
+        )
+    }
+
+    return (
+        <div className="flex flex-col flex-1 min-h-0">
+            <div className="flex items-center gap-[6px] px-[15px] pb-[10px] shrink-0">
+                <select
+                    className="flex-1 min-w-0"
+                    aria-label={t("project.swapFrom")}
+                    value={fromValue}
+                    onChange={event => {
+                        setFromValue(event.target.value)
+                    }}
+                >
+                    <option value={ALL_RENDITIONS}>{t("project.allRenditions")}</option>
+                    {usedRenditions.map(choice => (
+                        <option key={renditionValue(choice)} value={renditionValue(choice)}>
+                            {renditionLabel(choice)}
+                        </option>
+                    ))}
+                </select>
+                <span className="text-tertiary">{t("project.to")}</span>
+                <select
+                    className="flex-1 min-w-0"
+                    aria-label={t("project.swapTo")}
+                    value={renditionValue(toRendition)}
+                    onChange={event => {
+                        setToRendition(renditionFromValue(event.target.value) ?? fallbackRendition)
+                    }}
+                >
+                    {allRenditionChoices().map(choice => (
+                        <option key={renditionValue(choice)} value={renditionValue(choice)}>
+                            {renditionLabel(choice)}
+                        </option>
+                    ))}
+                </select>
+                <button
+                    className="w-auto px-[10px]"
+                    disabled={!isAllowedToSwap || toSwap.length === 0 || swapMutation.isPending}
+                    onClick={swap}
+                >
+                    {swapMutation.isPending ? t("project.swapping") : t("project.swap", { count: toSwap.length })}
+                </button>
+            </div>
+            <div className="flex gap-[10px] px-[15px] pb-[10px] text-tertiary shrink-0">
+                <span className="flex-1">{t("project.layers", { count: layers.length })}</span>
+                <button
+                    className="w-auto h-auto p-0 bg-transparent hover:bg-transparent"
+                    disabled={isFetching}
+                    onClick={() => {
+                        void refetch()
+                    }}
+                >
+                    {isFetching ? t("project.scanning") : t("project.refresh")}
+                </button>
+            </div>
+            {entries.length === 0 ? (
+                <div className="flex-1 flex items-center justify-center text-tertiary">
+                    {query ? t("project.noMatches") : t("project.empty")}
+                </div>
+            ) : (
+                <div className="overflow-auto flex-1 mx-[15px] flex flex-col gap-[4px] no-scrollbar">
+                    {entries.map(layer => (
+                        <ProjectRow key={layer.nodeId} layer={layer} />
+                    ))}
+                </div>
+            )}
+        </div>
+    )
+})
+
+const ProjectRow = memo(function ProjectRow({ layer }: { layer: TaggedLayer }) {
+    const { item, rendition } = layer.provenance
+    const title = item.title || contentTypeName(item.contentType)
+
+    return (
+        <button
+            className="flex items-center gap-[10px] h-auto p-[4px] rounded-lg bg-transparent text-left"
+            title={t("project.select", { name: layer.name ?? title })}
+            onClick={() => {
+                void selectLayer(layer.nodeId)
+            }}
+        >
+            <div
+                className="size-[40px] shrink-0 rounded-md bg-tertiary bg-cover bg-center"
+                style={{ backgroundImage: `url(${getContentUrl(item, "xs", "webp")}), url(${item.preview})` }}
+            />
+            <div className="flex flex-col min-w-0 flex-1">
+                <span className="truncate text-primary">{title}</span>
+                <span className="truncate text-tertiary">
+                    {renditionLabel(rendition)}
+                    {layer.name && layer.name !== item.title ? ` · ${layer.name}` : ""}
+                </span>
+            </div>
+        </button>
+    )
+})
@@ -0,0 +1,131 @@
+import cx from "classnames"
+import { Draggable, useIsAllowedTo } from "framer-plugin"
+import { memo, useMemo } from "react"
+import { getContentUrl } from "./api"
+import { dragRendition, useBudgetSettings, useSessionBytes, warnHardLimit } from "./budget"
+import { contentTypeName, getLocale, type Locale, t } from "./i18n"
+import { recordInsert, useInsertContent } from "./insert"
+import { useOfflineThumbnail } from "./offlineThumbnails"
+import { tagLayer } from "./provenance"
+import { type RecentInsert, useRecentInserts } from "./recent"
+import { formatBytes, getRendition, renditionLabel } from "./renditions"
+
+// One formatter per locale, the app remounts when the language changes
+const relativeTimeFormats = new Map<Locale, Intl.RelativeTimeFormat>()
+
+function relativeTimeFormatFor(locale: Locale) {
+    let format = relativeTimeFormats.get(locale)
+    if (!format) {
+        format = new Intl.RelativeTimeFormat(locale, { numeric: "auto" })
+        relativeTimeFormats.set(locale, format)
+    }
+
+    return format
+}
+
+function formatInsertedAt(insertedAt: number) {
+    const relativeTimeFormat = relativeTimeFormatFor(getLocale())
+    const seconds = Math.round((insertedAt - Date.now()) / 1000)
+
+    if (Math.abs(seconds) < 60) return relativeTimeFormat.format(seconds, "second")
+    if (Math.abs(seconds) < 60 * 60) return relativeTimeFormat.format(Math.round(seconds / 60), "minute")
+    if (Math.abs(seconds) < 60 * 60 * 24) return relativeTimeFormat.format(Math.round(seconds / 3600), "hour")
+    return relativeTimeFormat.format(Math.round(seconds / 86400), "day")
+}
+
+export const RecentList = memo(function RecentList({ query, userId }: { query: string; userId: string }) {
+    const recentInserts = useRecentInserts()
+    const sessionBytes = useSessionBytes()
+    const isAllowedToUpsertImage = useIsAllowedTo("addImage", "setImage")
+    const addContentMutation = useInsertContent(userId)
+
+    const entries = useMemo(() => {
+        const normalizedQuery = query.trim().toLowerCase()
+        if (!normalizedQuery) return recentInserts
+
+        return recentInserts.filter(({ item }) => item.title.toLowerCase().includes(normalizedQuery))
+    }, [recentInserts, query])
+
+    if (entries.length === 0) {
+        return (
+            <div className="flex-1 flex items-center justify-center text-tertiary">
+                {query ? t("recent.noMatches") : t("recent.empty")}
+            </div>
+        )
+    }
+
+    return (
+        <div className="overflow-auto flex-1 mx-[15px] flex flex-col gap-[4px] no-scrollbar">
+            {sessionBytes > 0 && (
+                <span className="text-tertiary px-[4px] pb-[6px]">
+                    {t("recent.session", { size: formatBytes(sessionBytes) })}
+                </span>
+            )}
+            {entries.map(entry => (
+                <RecentRow
+                    key={entry.item.id}
+                    entry={entry}
+                    loading={addContentMutation.isPending && addContentMutation.variables?.content.id === entry.item.id}
+                    disabled={!isAllowedToUpsertImage || !userId}
+                    onSelect={() => {
+                        addContentMutation.mutate({ content: entry.item, rendition: entry.rendition })
+                    }}
+                />
+            ))}
+        </div>
+    )
+})
+
+interface RecentRowProps {
+    entry: RecentInsert
+    loading: boolean
+    disabled: boolean
+    onSelect: () => void
+}
+
+const RecentRow = memo(function RecentRow({ entry, loading, disabled, onSelect }: RecentRowProps) {
+    const { item, rendition, insertedAt } = entry
+    const thumbnailUrl = useOfflineThumbnail(getContentUrl(item, "xs", "webp"))
+    const draggedRendition = dragRendition(item, rendition, useBudgetSettings())
+
+    return (
+        <Draggable
+            data={{
+                type: "image",
+                image: getRendition(item, draggedRendition).url,
+                previewImage: getContentUrl(item, "sm", "webp"),
+                name: item.title || contentTypeName(item.contentType),
+                altText: item.title || undefined,
+            }}
+            onDragComplete={result => {
+                if (result.status !== "success") return
+
+                recordInsert(item, draggedRendition)
+                warnHardLimit(getRendition(item, draggedRendition))
+                void tagLayer(result.nodeId, item, draggedRendition)
+            }}
+        >
+            <button
+                className={cx(
+                    "flex items-center gap-[10px] h-auto p-[4px] rounded-lg bg-transparent text-left",
+                    loading && "opacity-50"
+                )}
+                disabled={disabled}
+                onClick={onSelect}
+                title={item.title}
+            >
+                <div
+                    className="size-[40px] shrink-0 rounded-md bg-tertiary bg-cover bg-center"
+                    style={{ backgroundImage: `url(${thumbnailUrl}), url(${item.preview})` }}
+                />
+                <div className="flex flex-col min-w-0 flex-1">
+                    <span className="truncate text-primary">{item.title || contentTypeName(item.contentType)}</span>
+                    <span className="truncate text-tertiary">
+                        {contentTypeName(item.contentType)} · {renditionLabel(rendition)} ·{" "}
+                        {formatInsertedAt(insertedAt)}
+                    </span>
+                </div>
+            </button>
+        </Draggable>
+    )
+})
@@ -0,0 +1,164 @@
+import cx from "classnames"
+import { type KeyboardEvent, useId, useMemo, useState } from "react"
+import { type ContentType, provider, useAutocomplete } from "./api"
+import { focusResults, SEARCH_INPUT_ID } from "./focus"
+import { useDebounce } from "./hooks"
+import { t } from "./i18n"
+import { suggestFromHistory, useSearchHistory } from "./searchHistory"
+
+const maxSuggestions = 8
+
+interface Props {
+    query: string
+    onQueryChange: (query: string) => void
+    userId: string
+    contentType?: ContentType // Without a content type only local history is suggested
+}
+
+export function SearchField({ query, onQueryChange, userId, contentType }: Props) {
+    const listId = useId()
+    const [isFocused, setIsFocused] = useState(false)
+    const [isDismissed, setIsDismissed] = useState(false)
+    const [highlightedIndex, setHighlightedIndex] = useState(-1)
+
+    const history = useSearchHistory()
+    const autocompleteQuery = useDebounce(query.trim(), 150)
+    const { data: autocomplete = [] } = useAutocomplete(contentType ? autocompleteQuery : "", userId, contentType)
+
+    const suggestions = useMemo(() => {
+        const normalizedQuery = query.trim().toLowerCase()
+        const fromApi = autocomplete.filter(suggestion => suggestion.toLowerCase() !== normalizedQuery)
+
+        if (fromApi.length > 0) return fromApi.slice(0, maxSuggestions)
+        return suggestFromHistory(history, query, maxSuggestions)
+    }, [autocomplete, history, query])
+
+    const isOpen = isFocused && !isDismissed && query.trim().length > 0 && suggestions.length > 0
+
+    const changeQuery = (value: string) => {
+        onQueryChange(value)
+        setIsDismissed(false)
+        setHighlightedIndex(-1)
+    }
+
+    const selectSuggestion = (suggestion: string) => {
+        onQueryChange(suggestion)
+        setIsDismissed(true)
+        setHighlightedIndex(-1)
+    }
+
+    const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+        if (!isOpen) {
+            // Hand focus over to the results
+            if (event.key === "ArrowDown") {
+                event.preventDefault()
+                focusResults()
+            }
+            return
+        }
+
+        switch (event.key) {
+            case "ArrowDown":
+                event.preventDefault()
+                setHighlightedIndex(index => (index + 1) % suggestions.length)
+                break
+            case "ArrowUp":
+                event.preventDefault()
+                setHighlightedIndex(index => (index <= 0 ? suggestions.length - 1 : index - 1))
+                break
+            case "Enter": {
+                const suggestion = suggestions[highlightedIndex]
+                if (!suggestion) break
+
+                event.preventDefault()
+                selectSuggestion(suggestion)
+                break
+            }
+            case "Escape":
+                event.preventDefault()
+                setIsDismissed(true)
+                break
+        }
+    }
+
+    return (
+        <div className="bg-primary z-10 relative flex-1">
+            <input
+                id={SEARCH_INPUT_ID}
+                type="text"
+                placeholder={t("search.placeholder")}
+                aria-label={t("search.label")}
+                value={query}
+                className="w-full pl-[30px] pr-[116px]"
+                autoFocus
+                role="combobox"
+                aria-expanded={isOpen}
+                aria-controls={listId}
+                aria-autocomplete="list"
+                aria-activedescendant={isOpen && highlightedIndex >= 0 ? `${listId}-${highlightedIndex}` : undefined}
+                onChange={e => {
+                    changeQuery(e.target.value)
+                }}
+                onKeyDown={handleKeyDown}
+                onFocus={() => {
+                    setIsFocused(true)
+                }}
+                onBlur={() => {
+                    setIsFocused(false)
+                    setHighlightedIndex(-1)
+                }}
+            />
+            <div className="flex items-center justify-center absolute left-[10px] top-0 bottom-0 text-tertiary pointer-events-none">
+                <svg xmlns="http://www.w3.org/2000/svg" width="11.384" height="11.134" fill="none" overflow="visible">
+                    <path
+                        d="M 5 0 C 7.761 0 10 2.239 10 5 C 10 6.046 9.679 7.017 9.13 7.819 L 11.164 9.854 C 11.457 10.146 11.457 10.621 11.164 10.914 C 10.871 11.207 10.396 11.207 10.104 10.914 L 8.107 8.918 C 7.254 9.595 6.174 10 5 10 C 2.239 10 0 7.761 0 5 C 0 2.239 2.239 0 5 0 Z M 1.5 5 C 1.5 6.933 3.067 8.5 5 8.5 C 6.933 8.5 8.5 6.933 8.5 5 C 8.5 3.067 6.933 1.5 5 1.5 C 3.067 1.5 1.5 3.067 1.5 5 Z"
+                        fill="currentColor"
+                    ></path>
+                </svg>
+            </div>
+            {provider.logo ? (
+                <img
+                    src={provider.logo}
+                    alt={provider.name}
+                    className="absolute right-[8px] top-1/2 -translate-y-1/2 h-[14px] pointer-events-none dark:invert"
+                />
+            ) : (
+                <span className="absolute right-[10px] top-1/2 -translate-y-1/2 text-tertiary font-semibold pointer-events-none">
+                    {provider.name}
+                </span>
+            )}
+            {isOpen && (
+                <ul
+                    id={listId}
+                    role="listbox"
+                    className="absolute left-0 right-0 top-full mt-[4px] py-[4px] rounded-lg bg-primary shadow-lg border border-divider z-20"
+                >
+                    {suggestions.map((suggestion, index) => (
+                        <li
+                            key={suggestion}
+                            id={`${listId}-${index}`}
+                            role="option"
+                            aria-selected={index === highlightedIndex}
+                            className={cx(
+                                "px-[10px] h-[26px] flex items-center cursor-pointer truncate",
+                                index === highlightedIndex ? "bg-tertiary text-primary" : "text-secondary"
+                            )}
+                            onMouseDown={event => {
+                                // Keep focus in the input so the click lands before blur closes the list
+                                event.preventDefault()
+                            }}
+                            onMouseEnter={() => {
+                                setHighlightedIndex(index)
+                            }}
+                            onClick={() => {
+                                selectSuggestion(suggestion)
+                            }}
+                        >
+                            {suggestion}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    )
+}
@@ -0,0 +1,125 @@
+import cx from "classnames"
+import { useIsAllowedTo } from "framer-plugin"
+import { useState } from "react"
+import { getContentUrl } from "./api"
+import { type Arrangement, arrangements } from "./arrange"
+import Chip from "./Chip"
+import { resolveRendition, useBudgetSettings } from "./budget"
+import { contentTypeName, type MessageKey, t } from "./i18n"
+import { type BatchItemStatus, useBatchInsert } from "./insert"
+import { useDefaultRendition } from "./renditions"
+import { clearSelection, removeFromSelection, toggleSelection, useSelection } from "./selection"
+
+const arrangementLabels: Record<Arrangement, MessageKey> = {
+    grid: "tray.grid",
+    stack: "tray.stack",
+}
+
+const statusLabels: Record<BatchItemStatus, MessageKey> = {
+    pending: "tray.waiting",
+    inserting: "tray.insertingItem",
+    inserted: "tray.inserted",
+    failed: "tray.failed",
+}
+
+export function SelectionTray({ userId }: { userId: string }) {
+    const selection = useSelection()
+    const defaultRendition = useDefaultRendition()
+    const budgetSettings = useBudgetSettings()
+    const [arrangement, setArrangement] = useState<Arrangement>("grid")
+    const isAllowedToInsert = useIsAllowedTo("createFrameNode")
+    const batchInsert = useBatchInsert(userId)
+
+    if (selection.length === 0) return null
+
+    const insertSelection = () => {
+        batchInsert.mutate(
+            {
+                inserts: selection.map(content => ({
+                    content,
+                    rendition: resolveRendition(content, defaultRendition, budgetSettings),
+                })),
+                arrangement,
+            },
+            {
+                onSuccess: ({ inserted }) => {
+                    // Failed items stay selected so they can be retried
+                    removeFromSelection(inserted.map(item => item.id))
+                },
+            }
+        )
+    }
+
+    return (
+        <div
+            className="shrink-0 border-t border-divider px-[15px] py-[10px] flex flex-col gap-[8px]"
+            role="region"
+            aria-label={t("tray.label")}
+        >
+            <div className="flex gap-[6px] overflow-x-auto no-scrollbar">
+                {selection.map(item => {
+                    const status = batchInsert.isPending ? batchInsert.statuses[item.id] : undefined
+                    const hasFailed = !batchInsert.isPending && batchInsert.statuses[item.id] === "failed"
+                    const label = item.title || contentTypeName(item.contentType)
+
+                    return (
+                        <button
+                            key={item.id}
+                            className={cx(
+                                "relative shrink-0 size-[40px] p-0 rounded-md overflow-hidden bg-tertiary bg-cover bg-center",
+                                hasFailed && "ring-2 ring-red-500"
+                            )}
+                            style={{ backgroundImage: `url(${item.preview})` }}
+                            title={t(hasFailed ? "tray.removeFailedTitle" : "tray.removeTitle", { name: label })}
+                            aria-label={
+                                status
+                                    ? t("tray.itemStatus", { name: label, status: t(statusLabels[status]) })
+                                    : t("tray.remove", { name: label })
+                            }
+                            disabled={batchInsert.isPending}
+                            onClick={() => {
+                                toggleSelection(item)
+                            }}
+                        >
+                            <img
+                                src={getContentUrl(item, "xs", "webp")}
+                                alt=""
+                                className="w-full h-full object-cover"
+                                loading="lazy"
+                            />
+                            {status && status !== "inserted" && (
+                                <div className="absolute inset-0 flex items-center justify-center bg-black-dimmed">
+                                    {status === "inserting" && <div className="framer-spinner bg-white" />}
+                                </div>
+                            )}
+                        </button>
+                    )
+                })}
+            </div>
+            <div className="flex items-center gap-[6px]">
+                <span className="flex-1 truncate text-secondary">{t("tray.selected", { count: selection.length })}</span>
+                {arrangements.map(option => (
+                    <Chip
+                        key={option}
+                        active={arrangement === option}
+                        onClick={() => {
+                            setArrangement(option)
+                        }}
+                    >
+                        {t(arrangementLabels[option])}
+                    </Chip>
+                ))}
+                <button className="w-auto h-[24px] px-[10px]" disabled={batchInsert.isPending} onClick={clearSelection}>
+                    {t("tray.clear")}
+                </button>
+                <button
+                    className="framer-button-primary w-auto h-[24px] px-[10px]"
+                    disabled={!isAllowedToInsert || !userId || batchInsert.isPending}
+                    onClick={insertSelection}
+                >
+                    {batchInsert.isPending ? t("tray.inserting") : t("tray.insert", { count: selection.length })}
+                </button>
+            </div>
+        </div>
+    )
+}
@@ -0,0 +1,144 @@
+import { framer } from "framer-plugin"
+import { useEffect, useRef, useState } from "react"
+import type { MediaItem } from "./api"
+import { resolveRendition, useBudgetSettings } from "./budget"
+import Chip from "./Chip"
+import { decodeErrorMessage, drawFrame, frameToPng, useDecodedAnimation } from "./frames"
+import { contentTypeName, t } from "./i18n"
+import { useInsertStillFrame } from "./insert"
+import { renditionLabel, useDefaultRendition } from "./renditions"
+
+interface Props {
+    content: MediaItem
+    userId: string
+    onClose: () => void
+}
+
+// Scrubs through the decoded frames of an item and inserts the chosen one as a PNG
+export function StillFramePanel({ content, userId, onClose }: Props) {
+    const decoded = useDecodedAnimation(content)
+    const defaultRendition = useDefaultRendition()
+    const budgetSettings = useBudgetSettings()
+    const insertMutation = useInsertStillFrame(userId)
+    const [frameIndex, setFrameIndex] = useState(0)
+    const [withAnimated, setWithAnimated] = useState(false)
+    const canvasRef = useRef<HTMLCanvasElement>(null)
+
+    const animation = decoded.status === "decoded" ? decoded.animation : null
+    const frame = animation?.frames[frameIndex]
+    const animatedRendition = resolveRendition(content, defaultRendition, budgetSettings)
+    const typeName = contentTypeName(content.contentType)
+
+    useEffect(() => {
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === "Escape") onClose()
+        }
+
+        window.addEventListener("keydown", handleKeyDown)
+        return () => {
+            window.removeEventListener("keydown", handleKeyDown)
+        }
+    }, [onClose])
+
+    useEffect(() => {
+        if (canvasRef.current && frame) drawFrame(canvasRef.current, frame)
+    }, [frame])
+
+    const insertFrame = async () => {
+        if (!frame) return
+
+        try {
+            const png = await frameToPng(frame)
+            insertMutation.mutate({ content, png, animated: withAnimated ? animatedRendition : null })
+        } catch (error) {
+            console.error("Failed to encode frame:", error)
+            void framer.notify(t("insert.failed", { type: typeName }), { variant: "error" })
+        }
+    }
+
+    // Position of the frame in the animation, frames can have different durations
+    const frameTime = (animation?.frames.slice(0, frameIndex) ?? []).reduce((sum, { duration }) => sum + duration, 0)
+
+    return (
+        <div
+            className="absolute inset-0 z-40 bg-primary flex flex-col overflow-auto no-scrollbar"
+            role="dialog"
+            aria-label={t("still.title")}
+        >
+            <div className="flex items-center gap-[10px] px-[15px] py-[10px] shrink-0">
+                <button className="w-auto h-auto p-0 bg-transparent hover:bg-transparent text-tertiary" onClick={onClose}>
+                    {t("detail.back")}
+                </button>
+                <span className="flex-1 truncate font-semibold text-primary">{t("still.title")}</span>
+            </div>
+
+            <div className="px-[15px] flex flex-col gap-[15px] pb-[15px]">
+                {decoded.status === "decoding" && (
+                    <div className="flex flex-col items-center gap-[10px] py-[40px] text-tertiary">
+                        <div className="framer-spinner" />
+                        {t("still.decoding")}
+                    </div>
+                )}
+
+                {decoded.status === "error" && (
+                    <div className="py-[40px] text-center text-tertiary">
+                        {decodeErrorMessage(decoded.error, typeName)}
+                    </div>
+                )}
+
+                {animation && (
+                    <>
+                        <canvas
+                            ref={canvasRef}
+                            className="w-full h-auto rounded-lg bg-tertiary"
+                            style={{ aspectRatio: `${animation.width} / ${animation.height}` }}
+                        />
+
+                        <label className="flex flex-col gap-[6px]">
+                            <span className="flex justify-between text-tertiary">
+                                <span>
+                                    {t("still.frame", { index: frameIndex + 1, count: animation.frames.length })}
+                                </span>
+                                <span>{(frameTime / 1000).toFixed(2)}s</span>
+                            </span>
+                            <input
+                                type="range"
+                                min={0}
+                                max={animation.frames.length - 1}
+                                step={1}
+                                value={frameIndex}
+                                disabled={animation.frames.length < 2}
+                                onChange={event => {
+                                    setFrameIndex(Number(event.target.value))
+                                }}
+                            />
+                        </label>
+
+                        <div className="flex items-center gap-[10px]">
+                            {framer.mode === "canvas" && (
+                                <Chip
+                                    active={withAnimated}
+                                    title={renditionLabel(animatedRendition)}
+                                    onClick={() => {
+                                        setWithAnimated(!withAnimated)
+                                    }}
+                                >
+                                    {t("still.withAnimated")}
+                                </Chip>
+                            )}
+                            <button
+                                className="flex-1 framer-button-primary"
+                                disabled={!userId || insertMutation.isPending}
+                                onClick={() => {
+                                    void insertFrame()
+                                }}
+                            >
+                                {insertMutation.isPending ? t("detail.inserting") : t("still.insert")}
+                            </button>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    )
+}
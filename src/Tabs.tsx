@@ -1,4 +1,5 @@
 import cx from "classnames"
+import { type KeyboardEvent, useLayoutEffect, useRef, useState } from "react"
 
 interface TabItem {
     label: string
@@ -9,27 +10,70 @@ interface TabItem {
 interface Props {
     items: TabItem[]
     className?: string
+    label?: string // Accessible name of the tab list
 }
 
-export default function Tabs({ items, className }: Props) {
+export default function Tabs({ items, className, label }: Props) {
     const activeIndex = items.findIndex(item => item.active)
+    const containerRef = useRef<HTMLDivElement>(null)
+    const tabRefs = useRef<(HTMLButtonElement | null)[]>([])
+    const [background, setBackground] = useState<{ left: number; width: number } | null>(null)
+
+    // Tabs size to their labels, so the background follows the active tab's measured position
+    useLayoutEffect(() => {
+        const updateBackground = () => {
+            const tab = tabRefs.current[activeIndex]
+            const container = containerRef.current
+            if (!tab || !container) {
+                setBackground(null)
+                return
+            }
+
+            setBackground({ left: tab.offsetLeft - container.offsetLeft, width: tab.offsetWidth })
+        }
+
+        updateBackground()
+
+        const observer = new ResizeObserver(updateBackground)
+        for (const tab of tabRefs.current) {
+            if (tab) observer.observe(tab)
+        }
+
+        return () => {
+            observer.disconnect()
+        }
+    }, [activeIndex, items.length])
+
+    // Arrow keys move between tabs, only the active tab is in the tab order
+    const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+        const offsets: Partial<Record<string, number>> = { ArrowLeft: -1, ArrowRight: 1 }
+        const offset = offsets[event.key]
+        if (offset === undefined) return
+
+        event.preventDefault()
+        const nextIndex = (Math.max(activeIndex, 0) + offset + items.length) % items.length
+        items[nextIndex]?.select()
+        tabRefs.current[nextIndex]?.focus()
+    }
 
     return (
-        <div className={cx("tabs", className)}>
-            <div className="tab-bg-container">
-                {activeIndex !== -1 && (
-                    <div
-                        className="tab-bg"
-                        style={{
-                            width: `${100 / items.length}%`,
-                            left: `${(100 / items.length) * activeIndex}%`,
-                        }}
-                    />
-                )}
+        <div className={cx("tabs no-scrollbar", className)} role="tablist" aria-label={label} onKeyDown={handleKeyDown}>
+            <div className="tab-bg-container" ref={containerRef}>
+                {background && <div className="tab-bg" style={{ width: background.width, left: background.left }} />}
             </div>
 
             {items.map((item, index) => (
-                <button key={index} className={cx("tab", item.active && "active")} onClick={item.select}>
+                <button
+                    key={index}
+                    ref={element => {
+                        tabRefs.current[index] = element
+                    }}
+                    className={cx("tab", item.active && "active")}
+                    role="tab"
+                    aria-selected={item.active}
+                    tabIndex={item.active || (activeIndex === -1 && index === 0) ? 0 : -1}
+                    onClick={item.select}
+                >
                     {item.label}
                 </button>
             ))}
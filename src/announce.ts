@@ -0,0 +1,20 @@
+let liveRegion: HTMLElement | null = null
+
+// Reads a message out to screen readers through a shared, visually hidden live region
+export function announce(message: string) {
+    if (!liveRegion) {
+        liveRegion = document.createElement("div")
+        liveRegion.setAttribute("role", "status")
+        liveRegion.setAttribute("aria-live", "polite")
+        liveRegion.className = "sr-only"
+        document.body.append(liveRegion)
+    }
+
+    const region = liveRegion
+
+    // Clearing first makes repeated messages get announced again
+    region.textContent = ""
+    setTimeout(() => {
+        region.textContent = message
+    }, 50)
+}
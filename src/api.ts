@@ -1,71 +1,40 @@
-import { useInfiniteQuery } from "@tanstack/react-query"
+import { type InfiniteData, useInfiniteQuery, useQuery, useQueryClient } from "@tanstack/react-query"
+import { useCallback, useEffect, useMemo } from "react"
 import * as v from "valibot"
-
-const klipyFileVariantSchema = v.object({
-    gif: v.object({
-        url: v.string(),
-        width: v.number(),
-        height: v.number(),
-        size: v.number(),
-    }),
-    webp: v.object({
-        url: v.string(),
-        width: v.number(),
-        height: v.number(),
-        size: v.number(),
-    }),
-})
-
-const klipyContentSchema = v.object({
-    id: v.number(),
-    slug: v.string(),
-    title: v.string(),
-    blur_preview: v.string(), // Base64 blur preview
-    file: v.object({
-        hd: klipyFileVariantSchema,
-        md: klipyFileVariantSchema,
-        sm: klipyFileVariantSchema,
-        xs: klipyFileVariantSchema,
-    }),
-    tags: v.array(v.string()),
-    type: v.string(),
-})
-
-// Legacy alias for backward compatibility
-const klipyGifSchema = klipyContentSchema
-
-const klipyDataSchema = v.object({
-    data: v.array(klipyContentSchema),
-    current_page: v.number(),
-    per_page: v.number(),
-    has_next: v.boolean(),
-})
-
-const klipyResponseSchema = v.object({
-    result: v.boolean(),
-    data: klipyDataSchema,
-})
-
-export type KlipyContent = v.InferInput<typeof klipyContentSchema>
-export type KlipyGif = v.InferInput<typeof klipyGifSchema> // Legacy alias
-export type KlipyResponse = v.InferInput<typeof klipyResponseSchema>
-export type KlipyFileVariant = v.InferInput<typeof klipyFileVariantSchema>
-
-// Content types supported by Klipy API
-export type KlipyContentType = "gifs" | "stickers"
-
-// Helper types for file sizes
-export type GifSize = "xs" | "sm" | "md" | "hd"
-export type GifFormat = "gif" | "webp"
+import { blockedTerm, useContentFilter } from "./contentFilter"
+import { contentLocale, useLocale } from "./i18n"
+import { readCachedQuery, writeCachedQuery } from "./offlineCache"
+import { providers, selectProvider } from "./providers"
+import { isApiError } from "./providers/errors"
+import { mediaPageSchema } from "./providers/schema"
+import type { ContentType, GifFormat, GifSize, MediaItem, MediaPage } from "./providers/types"
+
+export type {
+    Category,
+    ContentProvider,
+    ContentType,
+    GifFormat,
+    GifSize,
+    MediaItem,
+    MediaPage,
+    ProviderId,
+    Rendition,
+    SafeSearch,
+} from "./providers/types"
+export { gifFormats, gifSizes, providerIds, safeSearchLevels } from "./providers/types"
+export { contentTypes, type ContentTypeInfo, isContentType } from "./contentTypes"
+
+// Provider selected by config, the UI only ever sees normalized items
+export const { provider, warnings: providerWarnings } = selectProvider()
 
 // Helper function to get the best content URL for a given size and format preference
-export function getContentUrl(content: KlipyContent, size: GifSize = "md", format: GifFormat = "gif"): string {
-    return content.file[size][format].url
+export function getContentUrl(content: MediaItem, size: GifSize = "md", format: GifFormat = "gif"): string {
+    return content.renditions[size][format].url
 }
 
 // Helper function to get content dimensions for a given size
-export function getContentDimensions(content: KlipyContent, size: GifSize = "md"): { width: number; height: number } {
-    const variant = content.file[size].gif // Both gif and webp have same dimensions
+export function getContentDimensions(content: MediaItem, size: GifSize = "md"): { width: number; height: number } {
+    const variant = content.renditions[size].gif // Both gif and webp have same dimensions
     return { width: variant.width, height: variant.height }
 }
 
@@ -75,102 +44,183 @@ export const getGifDimensions = getContentDimensions
 
 const pageItemCount = 20
 
-interface FetchOptions extends Omit<RequestInit, "body"> {
-    body?: unknown
+// Loaded pages of a list as react-query keeps them, saved to the offline cache
+const cachedPagesSchema = v.object({
+    pages: v.array(mediaPageSchema),
+    pageParams: v.array(v.number()),
+})
+
+// Page with the items hidden by the blocklist taken out
+export interface FilteredPage extends MediaPage {
+    hiddenCount: number
 }
 
-export async function fetchKlipy<TSchema extends v.GenericSchema>(
-    path: string,
-    schema: TSchema,
-    customerId: string,
-    { body, ...options }: FetchOptions = {}
-): Promise<v.InferInput<TSchema>> {
-    const appKey = import.meta.env.VITE_KLIPY_APP_KEY
-
-    if (!appKey) {
-        throw new Error("VITE_KLIPY_APP_KEY environment variable is not set")
-    }
-
-    if (!customerId) {
-        throw new Error("Customer ID is required for Klipy API calls")
-    }
-
-    const url = new URL(`https://api.klipy.com/api/v1/${appKey}${path}`)
-    url.searchParams.set("customer_id", customerId)
-
-    const response = await fetch(url.toString(), {
-        body: body ? JSON.stringify(body) : undefined,
-        headers: {
-            "Content-Type": "application/json",
-            ...((options.headers as Record<string, string>) || {}),
-        },
-        ...options,
+export function useListContentInfinite(query: string, customerId: string, contentType: ContentType = "gifs") {
+    const queryClient = useQueryClient()
+    const { safeSearch, blocklist } = useContentFilter()
+    const locale = contentLocale(useLocale())
+    const queryKey = useMemo(
+        () => [provider.id, contentType, query, customerId, safeSearch, locale],
+        [contentType, query, customerId, safeSearch, locale]
+    )
+
+    // Blocked items are hidden client-side so editing the blocklist doesn't refetch anything
+    const hideBlocked = useCallback(
+        (data: InfiniteData<MediaPage, number>): InfiniteData<FilteredPage, number> => ({
+            ...data,
+            pages: data.pages.map(page => {
+                const items = page.items.filter(item => blockedTerm(item, blocklist) === null)
+                return { ...page, items, hiddenCount: page.items.length - items.length }
+            }),
+        }),
+        [blocklist]
+    )
+
+    // Pages saved in an earlier session are shown right away while fresh ones load
+    const { data: cachedPages } = useQuery({
+        queryKey: ["offline", ...queryKey],
+        queryFn: () => readCachedQuery(queryKey, cachedPagesSchema),
+        staleTime: Infinity,
+        enabled: !!customerId,
+        throwOnError: false,
     })
 
-    if (!response.ok) {
-        throw new Error(`Failed to fetch Klipy API: ${response.status} ${response.statusText}`)
-    }
-
-    const json = (await response.json()) as unknown
-
-    const result = v.safeParse(schema, json)
-
-    if (result.issues) {
-        throw new Error(`Failed to parse Klipy API response: ${JSON.stringify(result.issues)}`)
-    }
-
-    return result.output
-}
-
-export function useListContentInfinite(query: string, customerId: string, contentType: KlipyContentType = "gifs") {
-    return useInfiniteQuery({
-        queryKey: [contentType, query, customerId],
+    const result = useInfiniteQuery({
+        queryKey,
         initialPageParam: 1,
         queryFn: async ({ pageParam, signal }) => {
-            if (query.length === 0) {
+            const request = {
+                contentType,
+                page: pageParam,
+                perPage: pageItemCount,
+                customerId,
+                signal,
+                safeSearch,
+                locale,
+            }
+
+            try {
                 // Get trending content when no search query
-                const response = await fetchKlipy(
-                    `/${contentType}/trending?page=${pageParam}&per_page=${pageItemCount}`,
-                    klipyResponseSchema,
-                    customerId,
-                    {
-                        signal,
-                        method: "GET",
-                    }
-                )
-
-                return {
-                    results: response.data.data,
-                    current_page: response.data.current_page,
-                    per_page: response.data.per_page,
-                    has_next: response.data.has_next,
+                if (query.length === 0) {
+                    return await provider.trending(request)
                 }
-            }
 
-            // Search for content
-            const response = await fetchKlipy(
-                `/${contentType}/search?q=${encodeURIComponent(query)}&page=${pageParam}&per_page=${pageItemCount}`,
-                klipyResponseSchema,
-                customerId,
-                { signal, method: "GET" }
-            )
-
-            return {
-                results: response.data.data,
-                current_page: response.data.current_page,
-                per_page: response.data.per_page,
-                has_next: response.data.has_next,
+                return await provider.search(query, request)
+            } catch (error) {
+                // Offline, fall back to the same page from the cache. Other errors are shown and retried as usual.
+                if (!isApiError(error) || error.kind !== "network") throw error
+
+                const cached = signal.aborted ? null : await readCachedQuery(queryKey, cachedPagesSchema)
+                const cachedPage = cached?.pages[cached.pageParams.indexOf(pageParam)]
+                if (cachedPage) return cachedPage
+
+                throw error
             }
         },
         getNextPageParam: data => {
-            if (!data.has_next) {
+            if (!data.hasNext) {
                 return undefined
             }
 
-            return data.current_page + 1
+            return data.page + 1
         },
+        placeholderData: cachedPages ?? undefined,
+        select: hideBlocked,
+        // Once some pages are loaded they stay visible, a failing next page is shown below them instead
+        throwOnError: (_error, query) => query.state.data === undefined,
         enabled: !!customerId, // Only run query if we have a customer ID
     })
+
+    const { data, isPlaceholderData } = result
+
+    // The cache keeps pages as the provider returned them, the blocklist may have changed by the next session
+    useEffect(() => {
+        const unfilteredData = queryClient.getQueryData<InfiniteData<MediaPage, number>>(queryKey)
+        if (data && unfilteredData && !isPlaceholderData) void writeCachedQuery(queryKey, unfilteredData)
+    }, [queryClient, queryKey, data, isPlaceholderData])
+
+    return result
+}
+
+// Browse lists change rarely, keep them around for the whole session
+const browseStaleTime = 1000 * 60 * 60
+
+export function useCategories(customerId: string, contentType: ContentType = "gifs") {
+    const locale = contentLocale(useLocale())
+
+    return useQuery({
+        queryKey: [provider.id, contentType, "categories", customerId, locale],
+        queryFn: ({ signal }) => provider.categories?.({ contentType, customerId, signal, locale }) ?? [],
+        staleTime: browseStaleTime,
+        throwOnError: false, // Browsing is optional, search still works without it
+        enabled: !!customerId && !!provider.categories,
+    })
+}
+
+export function useTrendingSearches(customerId: string, contentType: ContentType = "gifs") {
+    const locale = contentLocale(useLocale())
+
+    return useQuery({
+        queryKey: [provider.id, "trending-searches", customerId, locale],
+        queryFn: ({ signal }) => provider.trendingSearches?.({ contentType, customerId, signal, locale }) ?? [],
+        staleTime: browseStaleTime,
+        throwOnError: false,
+        enabled: !!customerId && !!provider.trendingSearches,
+    })
+}
+
+export function useAutocomplete(query: string, customerId: string, contentType: ContentType = "gifs") {
+    const locale = contentLocale(useLocale())
+
+    return useQuery({
+        queryKey: [provider.id, "autocomplete", query, customerId, locale],
+        queryFn: ({ signal }) => provider.autocomplete?.(query, { contentType, customerId, signal, locale }) ?? [],
+        staleTime: browseStaleTime,
+        throwOnError: false,
+        retry: false,
+        enabled: !!customerId && !!provider.autocomplete && query.length > 1,
+    })
+}
+
+export function useRelatedSearches(query: string, customerId: string, contentType: ContentType = "gifs") {
+    const locale = contentLocale(useLocale())
+
+    return useQuery({
+        queryKey: [provider.id, "related-searches", query, customerId, locale],
+        queryFn: ({ signal }) => provider.relatedSearches?.(query, { contentType, customerId, signal, locale }) ?? [],
+        staleTime: browseStaleTime,
+        throwOnError: false,
+        enabled: !!customerId && !!provider.relatedSearches && query.length > 0,
+    })
+}
+
+// Items similar to the given one, searched by its first tag (or title) with the provider it came from
+export function useMoreLikeThis(content: MediaItem, customerId: string) {
+    const query = content.tags[0] ?? content.title
+    const itemProvider = providers[content.provider]
+    const { safeSearch, blocklist } = useContentFilter()
+    const locale = contentLocale(useLocale())
+
+    return useQuery({
+        queryKey: [itemProvider.id, content.contentType, "more-like-this", content.id, customerId, safeSearch, locale],
+        queryFn: async ({ signal }) => {
+            const page = await itemProvider.search(query, {
+                contentType: content.contentType,
+                page: 1,
+                perPage: 12,
+                customerId,
+                signal,
+                safeSearch,
+                locale,
+            })
+
+            return page.items.filter(item => item.id !== content.id)
+        },
+        select: items => items.filter(item => blockedTerm(item, blocklist) === null),
+        staleTime: browseStaleTime,
+        throwOnError: false,
+        enabled: !!customerId && query.length > 0,
+    })
 }
 
 // Legacy alias for backward compatibility
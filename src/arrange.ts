@@ -0,0 +1,49 @@
+/**
+ * Lays out a batch of inserted items on the canvas. Every item keeps its native aspect ratio and gets the width of the
+ * narrowest item, so nothing is scaled up past its rendition size.
+ */
+
+export type Arrangement = "grid" | "stack"
+
+export const arrangements: Arrangement[] = ["grid", "stack"]
+
+export interface ArrangeSize {
+    width: number
+    height: number
+}
+
+export interface ArrangedFrame {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+export const arrangeGap = 20
+
+export function arrangeItems(sizes: ArrangeSize[], arrangement: Arrangement, gap = arrangeGap): ArrangedFrame[] {
+    if (sizes.length === 0) return []
+
+    const width = Math.max(1, Math.min(...sizes.map(size => size.width)))
+    const scaled = sizes.map(size => ({
+        width,
+        height: Math.round(size.width > 0 ? (size.height * width) / size.width : width),
+    }))
+
+    // A stack is a grid with a single column
+    const columnCount = arrangement === "grid" ? Math.ceil(Math.sqrt(sizes.length)) : 1
+    const frames: ArrangedFrame[] = []
+    let y = 0
+
+    for (let rowStart = 0; rowStart < scaled.length; rowStart += columnCount) {
+        const row = scaled.slice(rowStart, rowStart + columnCount)
+
+        row.forEach((size, column) => {
+            frames.push({ x: column * (width + gap), y, width: size.width, height: size.height })
+        })
+
+        y += Math.max(...row.map(size => size.height)) + gap
+    }
+
+    return frames
+}
@@ -0,0 +1,224 @@
+import { framer, type MenuItem } from "framer-plugin"
+import * as v from "valibot"
+import { type GifFormat, gifSizes, type MediaItem, type Rendition } from "./api"
+import { t } from "./i18n"
+import { formatBytes, getRendition, type RenditionChoice } from "./renditions"
+import { createPersistedStore, createStore } from "./storage"
+
+const KB = 1024
+const MB = 1024 * KB
+
+const budgetSettingsSchema = v.object({
+    budget: v.nullable(v.number()), // Bytes per item, null turns the budget off
+    hardLimit: v.nullable(v.number()), // Bytes per item above which inserting asks for confirmation
+    autoSelect: v.boolean(), // Pick the largest rendition under the budget instead of the default rendition
+})
+
+export type BudgetSettings = v.InferOutput<typeof budgetSettingsSchema>
+
+const BUDGET_SETTINGS_KEY = "framestack-gifs-budget"
+
+const defaultBudgetSettings: BudgetSettings = { budget: 1 * MB, hardLimit: 5 * MB, autoSelect: true }
+
+export const budgetOptions = [250 * KB, 500 * KB, 1 * MB, 2 * MB, 5 * MB]
+export const hardLimitOptions = [2 * MB, 5 * MB, 10 * MB, 20 * MB]
+
+const settingsStore = createPersistedStore(BUDGET_SETTINGS_KEY, budgetSettingsSchema, defaultBudgetSettings)
+
+export const useBudgetSettings = settingsStore.useStore
+export const getBudgetSettings = settingsStore.get
+export const subscribeToBudgetSettings = settingsStore.subscribe
+
+export function changeBudgetSettings(changes: Partial<BudgetSettings>) {
+    settingsStore.set({ ...settingsStore.get(), ...changes })
+}
+
+// Bytes inserted since the plugin was opened, not persisted
+const sessionStore = createStore(0)
+
+export const useSessionBytes = sessionStore.useStore
+export const subscribeToSessionBytes = sessionStore.subscribe
+
+export function getSessionBytes() {
+    return sessionStore.get()
+}
+
+export function addSessionBytes(bytes: number) {
+    sessionStore.set(sessionStore.get() + Math.max(0, bytes))
+}
+
+const formatsByPreference: GifFormat[] = ["webp", "gif"]
+
+// Providers report 0 when they don't know the size, those renditions can't be checked against a budget
+function hasKnownSize(rendition: Rendition) {
+    return rendition.size > 0
+}
+
+/**
+ * Largest rendition by pixel area whose byte size fits in the budget, WebP first when both formats of a size fit.
+ * Returns null when no rendition with a known size fits.
+ */
+export function renditionUnderBudget(content: MediaItem, budget: number): RenditionChoice | null {
+    for (const size of [...gifSizes].reverse()) {
+        for (const format of formatsByPreference) {
+            const rendition = getRendition(content, { size, format })
+            if (hasKnownSize(rendition) && rendition.size <= budget) return { size, format }
+        }
+    }
+
+    return null
+}
+
+/**
+ * Rendition used for clicks and drags. With auto select on, the largest one under the budget replaces the default, and
+ * when nothing fits the smallest one is used.
+ */
+export function resolveRendition(
+    content: MediaItem,
+    defaultRendition: RenditionChoice,
+    settings: BudgetSettings
+): RenditionChoice {
+    if (!settings.autoSelect || settings.budget === null) return defaultRendition
+
+    const underBudget = renditionUnderBudget(content, settings.budget)
+    if (underBudget) return underBudget
+
+    const smallest = getRendition(content, { size: "xs", format: "webp" })
+    return hasKnownSize(smallest) ? { size: "xs", format: "webp" } : defaultRendition
+}
+
+export function isOverBudget(rendition: Rendition, settings: BudgetSettings) {
+    return settings.budget !== null && rendition.size > settings.budget
+}
+
+export function isOverHardLimit(rendition: Pick<Rendition, "size">, settings: BudgetSettings) {
+    return settings.hardLimit !== null && rendition.size > settings.hardLimit
+}
+
+/**
+ * Rendition put in drag data. A drop can't wait for the hard limit warning, so a rendition above the limit is replaced
+ * by the largest one under it. Items without one keep their rendition and are warned about after the drop.
+ */
+export function dragRendition(
+    content: MediaItem,
+    rendition: RenditionChoice,
+    settings: BudgetSettings
+): RenditionChoice {
+    if (settings.hardLimit === null || !isOverHardLimit(getRendition(content, rendition), settings)) return rendition
+    return renditionUnderBudget(content, settings.hardLimit) ?? rendition
+}
+
+function overLimitMessage(overLimit: Pick<Rendition, "size">[], hardLimit: number) {
+    const largest = Math.max(...overLimit.map(rendition => rendition.size))
+    return overLimit.length === 1
+        ? t("budget.overLimit", { size: formatBytes(largest), limit: formatBytes(hardLimit) })
+        : t("budget.overLimitMany", { count: overLimit.length, limit: formatBytes(hardLimit) })
+}
+
+/** Warns after a drop that inserted a rendition above the hard limit, drops can't be confirmed up front. */
+export function warnHardLimit(rendition: Pick<Rendition, "size">) {
+    const settings = settingsStore.get()
+    if (settings.hardLimit === null || !isOverHardLimit(rendition, settings)) return
+
+    framer.notify(overLimitMessage([rendition], settings.hardLimit), { variant: "warning" })
+}
+
+const CONFIRM_DURATION_MS = 8000
+const CONFIRM_GRACE_MS = 2000
+
+/**
+ * Items at or below the hard limit insert right away. Anything above it shows a warning and only goes ahead when
+ * its insert button is clicked before the notification disappears. Files made in the plugin, like edits and still
+ * frames, are checked by their byte size the same way.
+ */
+export function confirmHardLimit(renditions: Pick<Rendition, "size">[]): Promise<boolean> {
+    const settings = settingsStore.get()
+    const overLimit = renditions.filter(rendition => isOverHardLimit(rendition, settings))
+    if (overLimit.length === 0 || settings.hardLimit === null) return Promise.resolve(true)
+
+    const message = overLimitMessage(overLimit, settings.hardLimit)
+
+    return new Promise(resolve => {
+        let isSettled = false
+        const settle = (isConfirmed: boolean) => {
+            if (isSettled) return
+            isSettled = true
+            clearTimeout(fallback)
+            resolve(isConfirmed)
+        }
+
+        // Declines when neither callback fires, e.g. when the notification is replaced or the plugin loses the host
+        const fallback = setTimeout(() => settle(false), CONFIRM_DURATION_MS + CONFIRM_GRACE_MS)
+
+        framer.notify(message, {
+            variant: "warning",
+            durationMs: CONFIRM_DURATION_MS,
+            button: {
+                text: t("budget.insertAnyway"),
+                onClick: () => settle(true),
+            },
+            onDisappear: () => settle(false),
+        })
+    })
+}
+
+export function budgetMenuItems(settings: BudgetSettings, sessionBytes: number): MenuItem[] {
+    return [
+        {
+            label: t("budget.sizeBudget"),
+            submenu: [
+                {
+                    label: t("budget.off"),
+                    checked: settings.budget === null,
+                    onAction: () => {
+                        changeBudgetSettings({ budget: null })
+                    },
+                },
+                ...budgetOptions.map(
+                    (budget): MenuItem => ({
+                        label: formatBytes(budget),
+                        checked: settings.budget === budget,
+                        onAction: () => {
+                            changeBudgetSettings({ budget })
+                        },
+                    })
+                ),
+                { type: "separator" },
+                {
+                    label: t("budget.pickLargest"),
+                    checked: settings.autoSelect,
+                    enabled: settings.budget !== null,
+                    onAction: () => {
+                        changeBudgetSettings({ autoSelect: !settings.autoSelect })
+                    },
+                },
+            ],
+        },
+        {
+            label: t("budget.warnAbove"),
+            submenu: [
+                {
+                    label: t("budget.never"),
+                    checked: settings.hardLimit === null,
+                    onAction: () => {
+                        changeBudgetSettings({ hardLimit: null })
+                    },
+                },
+                ...hardLimitOptions.map(
+                    (hardLimit): MenuItem => ({
+                        label: formatBytes(hardLimit),
+                        checked: settings.hardLimit === hardLimit,
+                        onAction: () => {
+                            changeBudgetSettings({ hardLimit })
+                        },
+                    })
+                ),
+            ],
+        },
+        {
+            label: t("budget.session"),
+            secondaryLabel: sessionBytes > 0 ? formatBytes(sessionBytes) : t("budget.nothingYet"),
+            enabled: false,
+        },
+    ]
+}
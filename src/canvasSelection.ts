@@ -0,0 +1,92 @@
+import {
+    type CanvasNode,
+    framer,
+    isColorStyle,
+    supportsBackgroundColor,
+    supportsBackgroundImage,
+    supportsName,
+} from "framer-plugin"
+import { extractPalette, type Rgb, samplePixels } from "./colors"
+import { t } from "./i18n"
+import { createStore } from "./storage"
+
+export interface ImageLayer {
+    id: string
+    name: string | null
+}
+
+// Layers in the Framer selection that have an image fill, kept up to date in canvas mode only
+const store = createStore<ImageLayer[]>([])
+
+function imageLayers(nodes: CanvasNode[]): ImageLayer[] {
+    return nodes.flatMap(node =>
+        supportsBackgroundImage(node) && node.backgroundImage
+            ? [{ id: node.id, name: supportsName(node) ? node.name : null }]
+            : []
+    )
+}
+
+if (framer.mode === "canvas") {
+    framer.subscribeToSelection(nodes => {
+        store.set(imageLayers(nodes))
+    })
+}
+
+export const useSelectedImageLayers = store.useStore
+
+export function selectedImageLayers() {
+    return store.get()
+}
+
+export function replaceLabel(layers: ImageLayer[]) {
+    return t("grid.replaceSelection", { count: layers.length })
+}
+
+const minPaletteWeight = 0.1 // Colors covering less of an image than this are left out of its palette
+
+// CSS color string as RGB, read back through a canvas so any syntax the browser understands works
+function parseColor(color: string): Rgb | null {
+    const context = document.createElement("canvas").getContext("2d")
+    if (!context) return null
+
+    // Opaque colors come back as "#rrggbb", translucent ones as "rgba(r, g, b, a)"
+    context.fillStyle = color
+    const normalized = context.fillStyle
+    const hex = /^#([0-9a-f]{2})([0-9a-f]{2})([0-9a-f]{2})$/i.exec(normalized)
+    if (hex) return [parseInt(hex[1] ?? "0", 16), parseInt(hex[2] ?? "0", 16), parseInt(hex[3] ?? "0", 16)]
+
+    const rgba = /^rgba\((\d+), (\d+), (\d+)/.exec(normalized)
+    return rgba ? [Number(rgba[1]), Number(rgba[2]), Number(rgba[3])] : null
+}
+
+async function nodePalette(node: CanvasNode): Promise<Rgb[]> {
+    if (supportsBackgroundImage(node) && node.backgroundImage) {
+        const colors = extractPalette(samplePixels(await node.backgroundImage.loadBitmap()))
+        return colors?.dominant.filter(({ weight }) => weight >= minPaletteWeight).map(({ color }) => color) ?? []
+    }
+
+    if (supportsBackgroundColor(node) && node.backgroundColor) {
+        const color = parseColor(isColorStyle(node.backgroundColor) ? node.backgroundColor.light : node.backgroundColor)
+        return color ? [color] : []
+    }
+
+    return []
+}
+
+/**
+ * Colors of the selected layers, for matching results to them: the dominant colors of image fills and solid fill
+ * colors. Empty when nothing selected has either.
+ */
+export async function selectedLayerPalette(): Promise<Rgb[]> {
+    const nodes = await framer.getSelection()
+    const palettes = await Promise.all(
+        nodes.map(node =>
+            nodePalette(node).catch((error: unknown) => {
+                console.warn(`Failed to read the colors of ${node.id}:`, error)
+                return []
+            })
+        )
+    )
+
+    return palettes.flat()
+}
@@ -0,0 +1,268 @@
+/**
+ * Dominant colors of results, read from their blur previews. Previews are tiny, so decoding them to a 16×16 bitmap and
+ * clustering the pixels in CIELAB is cheap enough to do for every result on screen. Distances are CIE76 ΔE, where
+ * about 2.3 is a just noticeable difference.
+ */
+
+import { decode, isBlurhashValid } from "blurhash"
+import { useEffect } from "react"
+import type { MediaItem } from "./api"
+import { createStore } from "./storage"
+
+export type Rgb = [number, number, number]
+type Lab = [number, number, number]
+
+export interface PaletteColor {
+    color: Rgb
+    weight: number // Share of the preview's pixels, from 0 to 1
+}
+
+export interface ItemColors {
+    average: Rgb
+    dominant: PaletteColor[] // Most common first
+}
+
+export type ColorSwatchId =
+    | "red"
+    | "orange"
+    | "yellow"
+    | "green"
+    | "teal"
+    | "blue"
+    | "purple"
+    | "pink"
+    | "brown"
+    | "black"
+    | "gray"
+    | "white"
+
+// Swatches offered in the color filter, labels are in the locales as `color.<id>`
+export const colorSwatches: readonly { id: ColorSwatchId; color: Rgb }[] = [
+    { id: "red", color: [229, 57, 53] },
+    { id: "orange", color: [251, 140, 0] },
+    { id: "yellow", color: [253, 216, 53] },
+    { id: "green", color: [67, 160, 71] },
+    { id: "teal", color: [0, 150, 136] },
+    { id: "blue", color: [30, 136, 229] },
+    { id: "purple", color: [142, 36, 170] },
+    { id: "pink", color: [236, 64, 122] },
+    { id: "brown", color: [121, 85, 72] },
+    { id: "black", color: [20, 20, 20] },
+    { id: "gray", color: [158, 158, 158] },
+    { id: "white", color: [250, 250, 250] },
+]
+
+// Colors results are matched against, either a swatch or the palette of the selected layers
+export interface ColorFilter {
+    id: ColorSwatchId | "selection"
+    palette: Rgb[]
+}
+
+const sampleSize = 16
+const maxPaletteColors = 4
+const clusterDistance = 12 // Pixels closer than this to a cluster are merged into it
+const maxMatchDistance = 30 // Results further than this from the target palette are filtered out
+
+function toLinear(channel: number) {
+    const value = channel / 255
+    return value <= 0.04045 ? value / 12.92 : ((value + 0.055) / 1.055) ** 2.4
+}
+
+function rgbToLab([r, g, b]: Rgb): Lab {
+    const [lr, lg, lb] = [toLinear(r), toLinear(g), toLinear(b)]
+
+    // sRGB to XYZ relative to the D65 white point
+    const x = (lr * 0.4124 + lg * 0.3576 + lb * 0.1805) / 0.95047
+    const y = lr * 0.2126 + lg * 0.7152 + lb * 0.0722
+    const z = (lr * 0.0193 + lg * 0.1192 + lb * 0.9505) / 1.08883
+
+    const f = (value: number) => (value > 0.008856 ? Math.cbrt(value) : 7.787 * value + 16 / 116)
+    const [fx, fy, fz] = [f(x), f(y), f(z)]
+
+    return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)]
+}
+
+function labDistance(a: Lab, b: Lab) {
+    return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2])
+}
+
+export function rgbToHex([r, g, b]: Rgb) {
+    return `#${[r, g, b].map(channel => Math.round(channel).toString(16).padStart(2, "0")).join("")}`
+}
+
+/**
+ * Average color and the most common colors of RGBA pixels. Pixels are clustered greedily in CIELAB, so shades a
+ * viewer wouldn't tell apart count as one color. Mostly transparent pixels, like the background of a sticker, are
+ * skipped.
+ */
+export function extractPalette(pixels: Uint8ClampedArray): ItemColors | null {
+    const clusters: { lab: Lab; sum: Rgb; count: number }[] = []
+    const total: Rgb = [0, 0, 0]
+    let count = 0
+
+    for (let index = 0; index + 3 < pixels.length; index += 4) {
+        if ((pixels[index + 3] ?? 0) < 128) continue
+
+        const color: Rgb = [pixels[index] ?? 0, pixels[index + 1] ?? 0, pixels[index + 2] ?? 0]
+        const lab = rgbToLab(color)
+        total[0] += color[0]
+        total[1] += color[1]
+        total[2] += color[2]
+        count++
+
+        const cluster = clusters.find(existing => labDistance(existing.lab, lab) < clusterDistance)
+        if (!cluster) {
+            clusters.push({ lab, sum: [...color], count: 1 })
+            continue
+        }
+
+        cluster.sum[0] += color[0]
+        cluster.sum[1] += color[1]
+        cluster.sum[2] += color[2]
+        cluster.count++
+        cluster.lab = rgbToLab(mean(cluster.sum, cluster.count))
+    }
+
+    if (count === 0) return null
+
+    return {
+        average: mean(total, count),
+        dominant: clusters
+            .sort((a, b) => b.count - a.count)
+            .slice(0, maxPaletteColors)
+            .map(cluster => ({ color: mean(cluster.sum, cluster.count), weight: cluster.count / count })),
+    }
+}
+
+function mean([r, g, b]: Rgb, count: number): Rgb {
+    return [r / count, g / count, b / count]
+}
+
+// Pixels of any drawable scaled down to the sample size
+export function samplePixels(source: CanvasImageSource) {
+    const canvas = document.createElement("canvas")
+    canvas.width = sampleSize
+    canvas.height = sampleSize
+
+    const context = canvas.getContext("2d", { willReadFrequently: true })
+    if (!context) throw new Error("Canvas is not supported")
+
+    context.drawImage(source, 0, 0, sampleSize, sampleSize)
+    return context.getImageData(0, 0, sampleSize, sampleSize).data
+}
+
+// Previews are either a blurhash or an image URL, usually a base64 data URI
+async function previewPixels(preview: string) {
+    if (isBlurhashValid(preview).result) return decode(preview, sampleSize, sampleSize)
+
+    const image = new Image()
+    image.crossOrigin = "anonymous" // Remote stills have to allow CORS to be read back from a canvas
+    image.src = preview
+    await image.decode()
+
+    return samplePixels(image)
+}
+
+// Colors by item id, null when the preview couldn't be read. Replaced with a new map whenever colors are added, so
+// ranked lists update as previews get analyzed.
+export type ColorCache = ReadonlyMap<string, ItemColors | null>
+
+const cacheStore = createStore<ColorCache>(new Map())
+const pending = new Set<string>()
+const maxCachedItems = 2000
+
+async function analyzeItem(item: MediaItem) {
+    try {
+        return extractPalette(await previewPixels(item.preview))
+    } catch (error) {
+        console.warn(`Failed to read the colors of ${item.id}:`, error)
+        return null
+    }
+}
+
+async function analyzeItems(items: readonly MediaItem[]) {
+    const missing = items.filter(item => !cacheStore.get().has(item.id) && !pending.has(item.id))
+    if (missing.length === 0) return
+
+    for (const item of missing) pending.add(item.id)
+    const results = await Promise.all(missing.map(analyzeItem))
+
+    const cache = new Map(cacheStore.get())
+    missing.forEach((item, index) => {
+        pending.delete(item.id)
+        cache.set(item.id, results[index] ?? null)
+    })
+
+    cacheStore.set(evictColors(cache, items))
+}
+
+/**
+ * Drops the least recently requested colors once the cache is full. Maps keep insertion order, so the requested items
+ * are moved to the end first and are never dropped, the list showing them wouldn't analyze them again.
+ */
+function evictColors(cache: Map<string, ItemColors | null>, requested: readonly MediaItem[]) {
+    if (cache.size <= maxCachedItems) return cache
+
+    const requestedIds = new Set(requested.map(item => item.id))
+    for (const id of requestedIds) {
+        const colors = cache.get(id)
+        if (colors === undefined) continue
+
+        cache.delete(id)
+        cache.set(id, colors)
+    }
+
+    for (const id of cache.keys()) {
+        if (cache.size <= maxCachedItems) break
+        if (!requestedIds.has(id)) cache.delete(id)
+    }
+
+    return cache
+}
+
+// Analyzes the previews of `items` while `enabled`, returns every color known so far
+export function useItemColors(items: readonly MediaItem[], enabled: boolean) {
+    const cache = cacheStore.useStore()
+
+    useEffect(() => {
+        if (enabled) void analyzeItems(items)
+    }, [items, enabled])
+
+    return cache
+}
+
+/**
+ * How far an item's colors are from a palette. Each palette color is matched to the closest dominant color, and
+ * colors that cover little of the preview count as a bit further away.
+ */
+function paletteDistance(colors: ItemColors, palette: readonly Rgb[]) {
+    if (palette.length === 0 || colors.dominant.length === 0) return Infinity
+
+    const targets = palette.map(rgbToLab)
+    const distances = targets.map(target =>
+        Math.min(
+            ...colors.dominant.map(({ color, weight }) => labDistance(target, rgbToLab(color)) + (1 - weight) * 10)
+        )
+    )
+
+    return distances.reduce((sum, distance) => sum + distance, 0) / distances.length
+}
+
+/**
+ * Items close to the palette, closest first. Items whose colors aren't known yet are left out until their preview has
+ * been analyzed.
+ */
+export function rankByPalette(items: readonly MediaItem[], palette: readonly Rgb[], cache: ColorCache) {
+    return items
+        .flatMap(item => {
+            const colors = cache.get(item.id)
+            const distance = colors ? paletteDistance(colors, palette) : Infinity
+            return distance <= maxMatchDistance ? [{ item, distance }] : []
+        })
+        .sort((a, b) => a.distance - b.distance)
+        .map(({ item }) => item)
+}
+
+export function hasUnknownColors(items: readonly MediaItem[], cache: ColorCache) {
+    return items.some(item => !cache.has(item.id))
+}
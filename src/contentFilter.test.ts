@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from "vitest"
+import {
+    addBlockedTerm,
+    blockedTerm,
+    changeSafeSearch,
+    exportContentFilter,
+    getContentFilter,
+    importContentFilter,
+    normalizeTerm,
+    removeBlockedTerm,
+} from "./contentFilter"
+import type { MediaItem } from "./providers/types"
+
+// Persisted stores load when their module is imported, so localStorage has to exist before that
+vi.hoisted(() => {
+    const values = new Map<string, string>()
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => values.set(key, value),
+    })
+})
+
+function itemOf(title: string, tags: string[] = []) {
+    return { title, tags } as MediaItem
+}
+
+function resetContentFilter() {
+    changeSafeSearch("medium")
+    for (const term of getContentFilter().blocklist) removeBlockedTerm(term)
+}
+
+afterEach(() => {
+    resetContentFilter()
+})
+
+describe("normalizeTerm", () => {
+    it("lowercases and separates words with single spaces", () => {
+        expect(normalizeTerm("  Grumpy   CAT ")).toBe("grumpy cat")
+    })
+
+    it("treats punctuation as a word separator", () => {
+        expect(normalizeTerm("grumpy-cat!")).toBe("grumpy cat")
+        expect(normalizeTerm("#cats")).toBe("cats")
+    })
+
+    it("keeps letters and numbers of any script", () => {
+        expect(normalizeTerm("Café 2000")).toBe("café 2000")
+        expect(normalizeTerm("ねこ")).toBe("ねこ")
+    })
+
+    it("returns an empty term for punctuation only", () => {
+        expect(normalizeTerm(" !? ")).toBe("")
+    })
+})
+
+describe("blockedTerm", () => {
+    it("shows every item when nothing is blocked", () => {
+        expect(blockedTerm(itemOf("Grumpy Cat"), [])).toBeNull()
+    })
+
+    it("finds blocked words in the title", () => {
+        expect(blockedTerm(itemOf("Grumpy Cat"), ["dog", "cat"])).toBe("cat")
+    })
+
+    it("finds blocked words in the tags", () => {
+        expect(blockedTerm(itemOf("Monday", ["Sleepy-Cat"]), ["cat"])).toBe("cat")
+    })
+
+    it("only matches whole words", () => {
+        expect(blockedTerm(itemOf("Concatenate", ["cats"]), ["cat"])).toBeNull()
+    })
+
+    it("matches phrases of several words", () => {
+        expect(blockedTerm(itemOf("A very grumpy cat"), ["grumpy cat"])).toBe("grumpy cat")
+    })
+
+    it("doesn't match phrases across the title and a tag", () => {
+        expect(blockedTerm(itemOf("Grumpy", ["cat"]), ["grumpy cat"])).toBeNull()
+    })
+})
+
+describe("blocked terms", () => {
+    it("stores added terms normalized, sorted and once", () => {
+        addBlockedTerm("Zebra")
+        addBlockedTerm("  grumpy-CAT ")
+        addBlockedTerm("zebra")
+        addBlockedTerm("?!")
+
+        expect(getContentFilter().blocklist).toEqual(["grumpy cat", "zebra"])
+    })
+
+    it("merges imported terms with the local ones", () => {
+        addBlockedTerm("zebra")
+        const file = JSON.stringify({
+            format: "framer-gifs-content-filter",
+            version: 1,
+            safeSearch: "high",
+            blocklist: ["Zebra", "Grumpy Cat"],
+        })
+
+        expect(importContentFilter(file)).toBe(1)
+        expect(getContentFilter()).toMatchObject({ safeSearch: "high", blocklist: ["grumpy cat", "zebra"] })
+        expect(JSON.parse(exportContentFilter())).toMatchObject({ blocklist: ["grumpy cat", "zebra"] })
+    })
+
+    it("rejects files that aren't content filters", () => {
+        expect(() => importContentFilter(JSON.stringify({ blocklist: [] }))).toThrow("Invalid content filter file")
+    })
+})
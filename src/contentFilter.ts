@@ -0,0 +1,135 @@
+import type { MenuItem } from "framer-plugin"
+import * as v from "valibot"
+import { type MessageKey, t } from "./i18n"
+import { type MediaItem, type SafeSearch, safeSearchLevels } from "./providers/types"
+import { createPersistedStore, createStore } from "./storage"
+
+const contentFilterSchema = v.object({
+    safeSearch: v.picklist(safeSearchLevels),
+    blocklist: v.array(v.string()), // Normalized terms hidden from results
+})
+
+// Shareable file format, a team can pass these around so everyone hides the same results
+const contentFilterFileSchema = v.object({
+    format: v.literal("framer-gifs-content-filter"),
+    version: v.literal(1),
+    safeSearch: v.picklist(safeSearchLevels),
+    blocklist: v.array(v.string()),
+})
+
+export type ContentFilter = v.InferOutput<typeof contentFilterSchema>
+
+const CONTENT_FILTER_KEY = "framestack-gifs-content-filter"
+
+const defaultContentFilter: ContentFilter = { safeSearch: "medium", blocklist: [] }
+
+export const safeSearchLabels: Record<SafeSearch, MessageKey> = {
+    off: "safeSearch.off",
+    low: "safeSearch.low",
+    medium: "safeSearch.medium",
+    high: "safeSearch.high",
+}
+
+const store = createPersistedStore(CONTENT_FILTER_KEY, contentFilterSchema, defaultContentFilter)
+
+export const useContentFilter = store.useStore
+export const getContentFilter = store.get
+export const subscribeToContentFilter = store.subscribe
+
+export function changeSafeSearch(safeSearch: SafeSearch) {
+    store.set({ ...store.get(), safeSearch })
+}
+
+// Lowercase words separated by single spaces, so terms match whole words regardless of punctuation
+export function normalizeTerm(term: string) {
+    return term
+        .toLowerCase()
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter(Boolean)
+        .join(" ")
+}
+
+export function addBlockedTerm(term: string) {
+    const normalizedTerm = normalizeTerm(term)
+    const { blocklist } = store.get()
+    if (!normalizedTerm || blocklist.includes(normalizedTerm)) return
+
+    store.set({ ...store.get(), blocklist: [...blocklist, normalizedTerm].sort() })
+}
+
+export function removeBlockedTerm(term: string) {
+    store.set({ ...store.get(), blocklist: store.get().blocklist.filter(existing => existing !== term) })
+}
+
+/**
+ * Blocked term found in the item's title or tags, or null when the item can be shown. Terms match whole words, so
+ * "cat" hides "Grumpy Cat" but not "Concatenate".
+ */
+export function blockedTerm(item: MediaItem, blocklist: readonly string[]): string | null {
+    if (blocklist.length === 0) return null
+
+    const text = ` ${[item.title, ...item.tags].map(normalizeTerm).join(" | ")} `
+    return blocklist.find(term => text.includes(` ${term} `)) ?? null
+}
+
+export function exportContentFilter() {
+    const { safeSearch, blocklist } = store.get()
+    const file: v.InferOutput<typeof contentFilterFileSchema> = {
+        format: "framer-gifs-content-filter",
+        version: 1,
+        safeSearch,
+        blocklist,
+    }
+
+    return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Applies an exported config. The safe search level is replaced and blocked terms are merged with the local ones, so
+ * importing a team config never unblocks anything. Returns the number of newly blocked terms.
+ */
+export function importContentFilter(json: string): number {
+    const result = v.safeParse(contentFilterFileSchema, JSON.parse(json))
+
+    if (result.issues) {
+        throw new Error(`Invalid content filter file: ${v.summarize(result.issues)}`)
+    }
+
+    const { blocklist } = store.get()
+    const newTerms = [...new Set(result.output.blocklist.map(normalizeTerm))].filter(
+        term => term && !blocklist.includes(term)
+    )
+
+    store.set({ safeSearch: result.output.safeSearch, blocklist: [...blocklist, ...newTerms].sort() })
+    return newTerms.length
+}
+
+// Whether the blocklist editor is open, it can be opened from the plugin menu
+const panelStore = createStore(false)
+
+export const useContentFilterPanelOpen = panelStore.useStore
+export const setContentFilterPanelOpen = panelStore.set
+
+export function contentFilterMenuItems(filter: ContentFilter): MenuItem[] {
+    return [
+        {
+            label: t("menu.safeSearch"),
+            submenu: safeSearchLevels.map(
+                (safeSearch): MenuItem => ({
+                    label: t(safeSearchLabels[safeSearch]),
+                    checked: filter.safeSearch === safeSearch,
+                    onAction: () => {
+                        changeSafeSearch(safeSearch)
+                    },
+                })
+            ),
+        },
+        {
+            label: t("menu.blockedTerms"),
+            secondaryLabel: filter.blocklist.length > 0 ? String(filter.blocklist.length) : undefined,
+            onAction: () => {
+                setContentFilterPanelOpen(true)
+            },
+        },
+    ]
+}
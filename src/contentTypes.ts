@@ -0,0 +1,24 @@
+/**
+ * Every kind of content the plugin can browse. Tabs, tab persistence, endpoint paths and insert messaging all derive
+ * from this list, so adding a type here is all it takes to support it. Labels live with the other UI strings in
+ * `locales`, keyed by the type.
+ */
+export const contentTypes = {
+    gifs: { path: "gifs" },
+    stickers: { path: "stickers" },
+    clips: { path: "clips" },
+    memes: { path: "static-memes" },
+    emoji: { path: "ai-emojis" },
+} satisfies Record<string, ContentTypeInfo>
+
+export interface ContentTypeInfo {
+    path: string // Endpoint path segment
+}
+
+export type ContentType = keyof typeof contentTypes
+
+export const contentTypeIds = Object.keys(contentTypes) as ContentType[]
+
+export function isContentType(value: unknown): value is ContentType {
+    return typeof value === "string" && value in contentTypes
+}
@@ -0,0 +1,109 @@
+import { type CanvasNode, framer } from "framer-plugin"
+import * as v from "valibot"
+import { type MediaItem, providerIds } from "./api"
+import { captionFonts, cropAspects, type Edits, loopModes, outputFormats } from "./edits"
+import { mediaItemSchema } from "./providers/schema"
+import { createStore } from "./storage"
+
+// Plugin data key on layers inserted from the editor
+const EDIT_KEY = "edit"
+
+const editsSchema: v.GenericSchema<unknown, Edits> = v.object({
+    aspect: v.picklist(cropAspects),
+    trimStart: v.number(),
+    trimEnd: v.number(),
+    speed: v.number(),
+    loop: v.picklist(loopModes),
+    format: v.picklist(outputFormats),
+    caption: v.object({
+        top: v.string(),
+        bottom: v.string(),
+        font: v.picklist(captionFonts),
+        color: v.string(),
+        strokeColor: v.string(),
+    }),
+})
+
+const editRecordSchema = v.object({
+    contentId: v.string(),
+    provider: v.picklist(providerIds),
+    editedAt: v.number(),
+    edits: editsSchema,
+    // Snapshot of the source item, so the edit can be opened again from its original frames
+    item: mediaItemSchema,
+})
+
+export type EditRecord = v.InferOutput<typeof editRecordSchema>
+
+export interface EditedLayer {
+    nodeId: string
+    record: EditRecord
+}
+
+// The single selected layer when it was inserted from the editor, kept up to date in canvas mode only
+const store = createStore<EditedLayer | null>(null)
+let latestRead = 0
+
+async function readEditRecord(nodeId: string): Promise<EditRecord | null> {
+    try {
+        const node = await framer.getNode(nodeId)
+        const data = await node?.getPluginData(EDIT_KEY)
+        if (!data) return null
+
+        const result = v.safeParse(editRecordSchema, JSON.parse(data))
+        return result.success ? result.output : null
+    } catch (error) {
+        console.warn(`Failed to read the edit of ${nodeId}:`, error)
+        return null
+    }
+}
+
+async function updateSelection(nodes: CanvasNode[]) {
+    const read = ++latestRead
+    const [node, ...others] = nodes
+    const record = node && others.length === 0 ? await readEditRecord(node.id) : null
+
+    // Selection changes while reading make this result outdated
+    if (read !== latestRead) return
+    store.set(node && record ? { nodeId: node.id, record } : null)
+}
+
+if (framer.mode === "canvas") {
+    framer.subscribeToSelection(nodes => {
+        void updateSelection(nodes)
+    })
+}
+
+export const useSelectedEditedLayer = store.useStore
+
+/**
+ * Records the source item and the edits on a layer made in the editor, so the caption and other edits can be changed
+ * later. Failures are logged, a missing record never fails the insert itself.
+ */
+export async function tagEditedLayer(nodeId: string, item: MediaItem, edits: Edits) {
+    const record: EditRecord = { contentId: item.id, provider: item.provider, editedAt: Date.now(), edits, item }
+
+    try {
+        const node = await framer.getNode(nodeId)
+        await node?.setPluginData(EDIT_KEY, JSON.stringify(record))
+        if (store.get()?.nodeId === nodeId) store.set({ nodeId, record })
+    } catch (error) {
+        console.warn(`Failed to record the edit of ${nodeId}:`, error)
+    }
+}
+
+/**
+ * Removes the edit record once the layer's image is replaced with an unedited rendition, so the layer no longer offers
+ * to change an edit it doesn't show.
+ */
+export async function clearEditRecord(nodeId: string) {
+    try {
+        const node = await framer.getNode(nodeId)
+        if (!(await node?.getPluginData(EDIT_KEY))) return
+
+        await node?.setPluginData(EDIT_KEY, null)
+        if (store.get()?.nodeId === nodeId) store.set(null)
+    } catch (error) {
+        console.warn(`Failed to clear the edit of ${nodeId}:`, error)
+    }
+}
@@ -0,0 +1,83 @@
+import type { EditorRequest, EditorResponse } from "./useEncodedEdit"
+import { cropRect, drawEditedFrame, editedSequence, type Edits, outputMimeTypes } from "./edits"
+import { encodeGif, muxAnimatedWebp } from "./encode"
+
+// Quality of each WebP frame, the browser's encoder picks lossy or lossless from the source
+const webpQuality = 0.8
+
+let source: { frames: ImageBitmap[]; durations: number[] } | null = null
+
+function reply(response: EditorResponse) {
+    if (response.type === "encoded") {
+        self.postMessage(response, { transfer: [response.bytes.buffer] })
+    } else {
+        self.postMessage(response)
+    }
+}
+
+async function encode({ frames, durations }: NonNullable<typeof source>, edits: Edits) {
+    const [first] = frames
+    if (!first) throw new Error("No frames loaded")
+
+    const crop = cropRect(first.width, first.height, edits.aspect)
+    const sequence = editedSequence(durations, edits)
+    const canvas = new OffscreenCanvas(crop.width, crop.height)
+    const context = canvas.getContext("2d", { willReadFrequently: true })
+    if (!context) throw new Error("Canvas is not supported")
+
+    const draw = (index: number) => {
+        const image = frames[index]
+        if (!image) throw new Error(`Frame ${index} is missing`)
+        drawEditedFrame(context, image, crop, edits.caption)
+    }
+
+    if (edits.format === "gif") {
+        const render = renderOnce(index => {
+            draw(index)
+            return Promise.resolve(context.getImageData(0, 0, crop.width, crop.height).data)
+        })
+
+        const pixelFrames = []
+        for (const { index, duration } of sequence) pixelFrames.push({ pixels: await render(index), duration })
+        return encodeGif(crop.width, crop.height, pixelFrames)
+    }
+
+    const render = renderOnce(async index => {
+        draw(index)
+        const blob = await canvas.convertToBlob({ type: "image/webp", quality: webpQuality })
+        return new Uint8Array(await blob.arrayBuffer())
+    })
+
+    const webpFrames = []
+    for (const { index, duration } of sequence) webpFrames.push({ webp: await render(index), duration })
+    return muxAnimatedWebp(crop.width, crop.height, webpFrames)
+}
+
+// Reversed and boomerang sequences repeat frames, each one is only rendered once
+function renderOnce<T>(render: (index: number) => Promise<T>) {
+    const results = new Map<number, T>()
+
+    return async (index: number) => {
+        if (!results.has(index)) results.set(index, await render(index))
+        return results.get(index) as T
+    }
+}
+
+self.onmessage = async (event: MessageEvent<EditorRequest>) => {
+    const request = event.data
+
+    if (request.type === "load") {
+        for (const frame of source?.frames ?? []) frame.close()
+        source = { frames: request.frames, durations: request.durations }
+        return
+    }
+
+    try {
+        if (!source) throw new Error("No frames loaded")
+
+        const bytes = await encode(source, request.edits)
+        reply({ type: "encoded", id: request.id, bytes, mimeType: outputMimeTypes[request.edits.format] })
+    } catch (error) {
+        reply({ type: "failed", id: request.id, message: error instanceof Error ? error.message : String(error) })
+    }
+}
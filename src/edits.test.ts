@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest"
+import { cropRect, defaultEdits, editedSequence, type Edits, sequenceDuration } from "./edits"
+
+const durations = [100, 100, 100, 100, 100]
+
+function editsOf(changes: Partial<Edits>): Edits {
+    return { ...defaultEdits(durations.length), ...changes }
+}
+
+function indices(frames: readonly { index: number }[]) {
+    return frames.map(frame => frame.index)
+}
+
+describe("editedSequence", () => {
+    it("plays every frame in order by default", () => {
+        const sequence = editedSequence(durations, editsOf({}))
+
+        expect(indices(sequence)).toEqual([0, 1, 2, 3, 4])
+        expect(sequenceDuration(sequence)).toBe(500)
+    })
+
+    it("keeps only the frames between the trim points", () => {
+        expect(indices(editedSequence(durations, editsOf({ trimStart: 1, trimEnd: 3 })))).toEqual([1, 2, 3])
+    })
+
+    it("clamps trim points outside the frames", () => {
+        expect(indices(editedSequence(durations, editsOf({ trimStart: -2, trimEnd: 10 })))).toEqual([0, 1, 2, 3, 4])
+    })
+
+    it("keeps one frame when the trim end is before the start", () => {
+        expect(indices(editedSequence(durations, editsOf({ trimStart: 3, trimEnd: 1 })))).toEqual([3])
+    })
+
+    it("plays the trimmed frames backwards in reverse", () => {
+        const edits = editsOf({ trimStart: 1, trimEnd: 3, loop: "reverse" })
+
+        expect(indices(editedSequence(durations, edits))).toEqual([3, 2, 1])
+    })
+
+    it("plays back and forth without repeating the end frames in a boomerang", () => {
+        const edits = editsOf({ trimStart: 1, trimEnd: 4, loop: "boomerang" })
+
+        expect(indices(editedSequence(durations, edits))).toEqual([1, 2, 3, 4, 3, 2])
+    })
+
+    it("doesn't repeat a single trimmed frame in a boomerang", () => {
+        const edits = editsOf({ trimStart: 2, trimEnd: 2, loop: "boomerang" })
+
+        expect(indices(editedSequence(durations, edits))).toEqual([2])
+    })
+
+    it("scales durations by the speed", () => {
+        const faster = editedSequence([100, 30], editsOf({ trimEnd: 1, speed: 2 }))
+        const slower = editedSequence([100, 30], editsOf({ trimEnd: 1, speed: 0.5 }))
+
+        expect(faster.map(frame => frame.duration)).toEqual([50, 20])
+        expect(slower.map(frame => frame.duration)).toEqual([200, 60])
+    })
+
+    it("doesn't speed frames up below the shortest delay browsers play", () => {
+        const sequence = editedSequence([30, 10], editsOf({ trimEnd: 1, speed: 2 }))
+
+        expect(sequence.map(frame => frame.duration)).toEqual([20, 20])
+    })
+})
+
+describe("cropRect", () => {
+    it("keeps the whole frame for the original aspect", () => {
+        expect(cropRect(300, 200, "original")).toEqual({ x: 0, y: 0, width: 300, height: 200 })
+    })
+
+    it("centers a square crop of a landscape frame", () => {
+        expect(cropRect(300, 200, "1:1")).toEqual({ x: 50, y: 0, width: 200, height: 200 })
+    })
+
+    it("centers a square crop of a portrait frame", () => {
+        expect(cropRect(200, 300, "1:1")).toEqual({ x: 0, y: 50, width: 200, height: 200 })
+    })
+
+    it("uses the full width when the frame is taller than the aspect", () => {
+        expect(cropRect(400, 400, "16:9")).toEqual({ x: 0, y: 87, width: 400, height: 225 })
+    })
+
+    it("uses the full height when the frame is wider than the aspect", () => {
+        expect(cropRect(400, 400, "9:16")).toEqual({ x: 87, y: 0, width: 225, height: 400 })
+    })
+
+    it("never crops outside the frame", () => {
+        for (const aspect of ["1:1", "4:3", "16:9", "9:16"] as const) {
+            for (const [width, height] of [
+                [1, 1],
+                [3, 7],
+                [499, 281],
+            ] as const) {
+                const crop = cropRect(width, height, aspect)
+
+                expect(crop.x).toBeGreaterThanOrEqual(0)
+                expect(crop.y).toBeGreaterThanOrEqual(0)
+                expect(crop.x + crop.width).toBeLessThanOrEqual(width)
+                expect(crop.y + crop.height).toBeLessThanOrEqual(height)
+            }
+        }
+    })
+})
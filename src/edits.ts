@@ -0,0 +1,197 @@
+/**
+ * Edits applied to decoded frames before they're encoded again. The same functions build the preview on the main
+ * thread and the output in the encoder worker, so what's previewed is what gets inserted.
+ */
+
+export type CropAspect = "original" | "1:1" | "4:3" | "16:9" | "9:16"
+export type LoopMode = "forward" | "reverse" | "boomerang"
+export type OutputFormat = "gif" | "webp"
+export type CaptionFont = "impact" | "arialBlack" | "georgia" | "comic" | "courier"
+
+export const cropAspects: readonly CropAspect[] = ["original", "1:1", "4:3", "16:9", "9:16"]
+export const loopModes: readonly LoopMode[] = ["forward", "reverse", "boomerang"]
+export const outputFormats: readonly OutputFormat[] = ["gif", "webp"]
+export const speeds = [0.5, 0.75, 1, 1.5, 2]
+export const captionFonts: readonly CaptionFont[] = ["impact", "arialBlack", "georgia", "comic", "courier"]
+
+// Font names and the CSS stacks drawn with. Canvases in workers can use installed fonts too.
+export const captionFontNames: Record<CaptionFont, string> = {
+    impact: "Impact",
+    arialBlack: "Arial Black",
+    georgia: "Georgia",
+    comic: "Comic Sans",
+    courier: "Courier",
+}
+
+const captionFontStacks: Record<CaptionFont, string> = {
+    impact: 'Impact, "Anton", "Arial Narrow Bold", sans-serif',
+    arialBlack: '"Arial Black", "Helvetica Neue", Arial, sans-serif',
+    georgia: 'Georgia, "Times New Roman", serif',
+    comic: '"Comic Sans MS", "Comic Neue", cursive',
+    courier: '"Courier New", Courier, monospace',
+}
+
+export const outputMimeTypes: Record<OutputFormat, string> = { gif: "image/gif", webp: "image/webp" }
+
+export interface Caption {
+    top: string
+    bottom: string
+    font: CaptionFont
+    color: string // Fill as a hex color
+    strokeColor: string // Outline as a hex color
+}
+
+export const emptyCaption: Caption = { top: "", bottom: "", font: "impact", color: "#ffffff", strokeColor: "#000000" }
+
+export interface Edits {
+    aspect: CropAspect
+    trimStart: number // Index of the first frame kept
+    trimEnd: number // Index of the last frame kept
+    speed: number // Playback rate, 2 plays twice as fast
+    loop: LoopMode
+    format: OutputFormat
+    caption: Caption // Drawn on every frame
+}
+
+export function defaultEdits(frameCount: number): Edits {
+    return {
+        aspect: "original",
+        trimStart: 0,
+        trimEnd: frameCount - 1,
+        speed: 1,
+        loop: "forward",
+        format: "gif",
+        caption: emptyCaption,
+    }
+}
+
+export interface CropRect {
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+// The largest centered rectangle with the aspect ratio
+export function cropRect(width: number, height: number, aspect: CropAspect): CropRect {
+    if (aspect === "original") return { x: 0, y: 0, width, height }
+
+    const [aspectWidth = 1, aspectHeight = 1] = aspect.split(":").map(Number)
+    const ratio = aspectWidth / aspectHeight
+    const cropWidth = Math.min(width, Math.round(height * ratio))
+    const cropHeight = Math.min(height, Math.round(cropWidth / ratio))
+
+    return {
+        x: Math.floor((width - cropWidth) / 2),
+        y: Math.floor((height - cropHeight) / 2),
+        width: cropWidth,
+        height: cropHeight,
+    }
+}
+
+export interface SequenceFrame {
+    index: number // Index into the decoded frames
+    duration: number // Milliseconds, after the speed change
+}
+
+// Browsers clamp GIF delays under 20ms to 100ms, so faster frames would play slower instead
+const minFrameDuration = 20
+
+/**
+ * Frames in the order they're played after trimming, with durations scaled by the speed. A boomerang plays forward
+ * then back, without repeating the frames at either end.
+ */
+export function editedSequence(durations: readonly number[], edits: Edits): SequenceFrame[] {
+    const start = Math.max(0, Math.min(edits.trimStart, durations.length - 1))
+    const end = Math.max(start, Math.min(edits.trimEnd, durations.length - 1))
+    const forward = Array.from({ length: end - start + 1 }, (_, offset) => start + offset)
+
+    const order =
+        edits.loop === "reverse"
+            ? [...forward].reverse()
+            : edits.loop === "boomerang"
+              ? [...forward, ...forward.slice(1, -1).reverse()]
+              : forward
+
+    return order.map(index => ({
+        index,
+        duration: Math.max(minFrameDuration, Math.round((durations[index] ?? 0) / edits.speed)),
+    }))
+}
+
+export function sequenceDuration(sequence: readonly SequenceFrame[]) {
+    return sequence.reduce((sum, frame) => sum + frame.duration, 0)
+}
+
+type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+const captionLineHeight = 1.1
+const minCaptionSize = 8
+
+// Greedy word wrap, a single word wider than the line stays on its own line
+function wrapCaption(context: Context2D, text: string, maxWidth: number) {
+    const lines: string[] = []
+
+    for (const word of text.trim().split(/\s+/)) {
+        const last = lines[lines.length - 1]
+        if (last !== undefined && context.measureText(`${last} ${word}`).width <= maxWidth) {
+            lines[lines.length - 1] = `${last} ${word}`
+        } else {
+            lines.push(word)
+        }
+    }
+
+    return lines
+}
+
+// The largest font size, starting at half the box height, at which the wrapped text fits within the box
+function fitCaption(context: Context2D, text: string, font: CaptionFont, maxWidth: number, maxHeight: number) {
+    let size = Math.max(minCaptionSize, Math.round(maxHeight / 2))
+
+    while (true) {
+        context.font = `${size}px ${captionFontStacks[font]}`
+        const lines = wrapCaption(context, text, maxWidth)
+        const fits =
+            lines.length * size * captionLineHeight <= maxHeight &&
+            lines.every(line => context.measureText(line).width <= maxWidth)
+
+        if (fits || size <= minCaptionSize) return { lines, size }
+        size = Math.max(minCaptionSize, Math.floor(size * 0.9))
+    }
+}
+
+// Classic meme text: centered, outlined, at the top and bottom of the frame
+function drawCaption(context: Context2D, caption: Caption, width: number, height: number) {
+    const margin = Math.round(height * 0.04)
+    const maxWidth = width * 0.92
+    const maxHeight = height * 0.3
+
+    for (const position of ["top", "bottom"] as const) {
+        const text = caption[position]
+        if (!text.trim()) continue
+
+        const { lines, size } = fitCaption(context, text, caption.font, maxWidth, maxHeight)
+        const lineHeight = size * captionLineHeight
+        const firstLine = position === "top" ? margin : height - margin - lineHeight * (lines.length - 1)
+
+        context.textAlign = "center"
+        context.textBaseline = position === "top" ? "top" : "bottom"
+        context.lineJoin = "round"
+        context.lineWidth = Math.max(2, size / 7)
+        context.strokeStyle = caption.strokeColor
+        context.fillStyle = caption.color
+
+        lines.forEach((line, index) => {
+            const y = firstLine + index * lineHeight
+            context.strokeText(line, width / 2, y)
+            context.fillText(line, width / 2, y)
+        })
+    }
+}
+
+// Draws the cropped part of a frame to fill the context's canvas, with the caption on top
+export function drawEditedFrame(context: Context2D, image: ImageBitmap, crop: CropRect, caption: Caption) {
+    context.clearRect(0, 0, crop.width, crop.height)
+    context.drawImage(image, crop.x, crop.y, crop.width, crop.height, 0, 0, crop.width, crop.height)
+    drawCaption(context, caption, crop.width, crop.height)
+}
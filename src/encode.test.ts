@@ -0,0 +1,302 @@
+import { describe, expect, it } from "vitest"
+import { encodeGif, muxAnimatedWebp, type PixelFrame } from "./encode"
+
+type Color = [number, number, number, number]
+
+const red: Color = [255, 0, 0, 255]
+const green: Color = [0, 255, 0, 255]
+const blue: Color = [0, 0, 255, 255]
+const white: Color = [255, 255, 255, 255]
+const clear: Color = [0, 0, 0, 0]
+
+function frameOf(colors: readonly Color[], duration = 100): PixelFrame {
+    return { pixels: new Uint8ClampedArray(colors.flat()), duration }
+}
+
+// Deterministic noise, so the LZW table grows past a few code sizes
+function noise(count: number, palette: readonly Color[]) {
+    let seed = 1
+    return Array.from({ length: count }, () => {
+        seed = (seed * 1103515245 + 12345) & 0x7fffffff
+        return palette[seed % palette.length] as Color
+    })
+}
+
+interface GifImage {
+    delay: number // Hundredths of a second
+    transparentIndex: number | null
+    indices: number[]
+}
+
+function readSubBlocks(bytes: Uint8Array, offset: number) {
+    const data: number[] = []
+    while (bytes[offset] !== 0) {
+        const length = bytes[offset] ?? 0
+        data.push(...bytes.subarray(offset + 1, offset + 1 + length))
+        offset += length + 1
+    }
+
+    return { data, end: offset + 1 }
+}
+
+function decodeLzw(data: readonly number[], minCodeSize: number) {
+    const clearCode = 1 << minCodeSize
+    const endCode = clearCode + 1
+    const output: number[] = []
+    let table: number[][] = []
+    let codeSize = minCodeSize + 1
+    let previous: number[] | null = null
+
+    const reset = () => {
+        table = Array.from({ length: clearCode + 2 }, (_, code) => [code])
+        codeSize = minCodeSize + 1
+        previous = null
+    }
+    reset()
+
+    for (let bit = 0; bit + codeSize <= data.length * 8; ) {
+        let code = 0
+        for (let offset = 0; offset < codeSize; offset++, bit++) {
+            code |= (((data[bit >> 3] ?? 0) >> (bit & 7)) & 1) << offset
+        }
+
+        if (code === clearCode) {
+            reset()
+            continue
+        }
+        if (code === endCode) break
+
+        const last: number[] | null = previous
+        const entry: number[] = table[code] ?? (last ? [...last, last[0] ?? 0] : [])
+        output.push(...entry)
+        if (last) table.push([...last, entry[0] ?? 0])
+        if (table.length === 1 << codeSize && codeSize < 12) codeSize++
+        previous = entry
+    }
+
+    return output
+}
+
+// Reads what a browser would need: the header, the global palette and every image with its delay
+function readGif(bytes: Uint8Array) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const signature = String.fromCharCode(...bytes.subarray(0, 6))
+    const width = view.getUint16(6, true)
+    const height = view.getUint16(8, true)
+    const paletteSize = 2 << ((bytes[10] ?? 0) & 0x07)
+    const palette = Array.from({ length: paletteSize }, (_, index) => [
+        ...bytes.subarray(13 + index * 3, 16 + index * 3),
+    ])
+
+    const images: GifImage[] = []
+    let loops = false
+    let control = { delay: 0, transparentIndex: null as number | null }
+    let offset = 13 + paletteSize * 3
+
+    while (bytes[offset] !== 0x3b) {
+        if (offset >= bytes.length) throw new Error("GIF has no trailer")
+
+        if (bytes[offset] === 0x21) {
+            const label = bytes[offset + 1]
+            if (label === 0xf9) {
+                const flags = bytes[offset + 3] ?? 0
+                control = {
+                    delay: view.getUint16(offset + 4, true),
+                    transparentIndex: flags & 1 ? (bytes[offset + 6] ?? 0) : null,
+                }
+            }
+            if (label === 0xff) {
+                loops = String.fromCharCode(...bytes.subarray(offset + 3, offset + 14)) === "NETSCAPE2.0"
+            }
+            offset = readSubBlocks(bytes, offset + 2).end
+        } else if (bytes[offset] === 0x2c) {
+            const minCodeSize = bytes[offset + 10] ?? 0
+            const { data, end } = readSubBlocks(bytes, offset + 11)
+            images.push({ ...control, indices: decodeLzw(data, minCodeSize) })
+            offset = end
+        } else {
+            throw new Error(`Unexpected block ${bytes[offset]} at ${offset}`)
+        }
+    }
+
+    return { signature, width, height, palette, loops, images }
+}
+
+function colorsOf(gif: ReturnType<typeof readGif>, image: GifImage) {
+    return image.indices.map(index =>
+        index === image.transparentIndex ? clear : ([...(gif.palette[index] ?? []), 255] as Color)
+    )
+}
+
+describe("encodeGif", () => {
+    it("writes a looping GIF89a with the canvas size", () => {
+        const gif = readGif(encodeGif(3, 2, [frameOf([red, green, blue, red, green, blue])]))
+
+        expect(gif.signature).toBe("GIF89a")
+        expect(gif.width).toBe(3)
+        expect(gif.height).toBe(2)
+        expect(gif.palette).toHaveLength(256)
+        expect(gif.loops).toBe(true)
+    })
+
+    it("writes every frame with its delay in hundredths of a second", () => {
+        const frames = [frameOf([red, green], 100), frameOf([green, red], 250), frameOf([blue, blue], 40)]
+        const gif = readGif(encodeGif(2, 1, frames))
+
+        expect(gif.images).toHaveLength(3)
+        expect(gif.images.map(image => image.delay)).toEqual([10, 25, 4])
+    })
+
+    it("doesn't write delays under 20ms, browsers would slow those down", () => {
+        const gif = readGif(encodeGif(1, 1, [frameOf([red], 5)]))
+
+        expect(gif.images[0]?.delay).toBe(2)
+    })
+
+    it("keeps the exact colors of frames with few colors", () => {
+        const frames = [frameOf([red, green, blue, white]), frameOf([white, blue, green, red])]
+        const gif = readGif(encodeGif(2, 2, frames))
+
+        expect(gif.images.map(image => colorsOf(gif, image))).toEqual([
+            [red, green, blue, white],
+            [white, blue, green, red],
+        ])
+    })
+
+    it("round-trips pixels whose codes outgrow the initial code size", () => {
+        const colors = noise(64 * 64, [red, green, blue, white])
+        const gif = readGif(encodeGif(64, 64, [frameOf(colors)]))
+
+        expect(colorsOf(gif, gif.images[0] as GifImage)).toEqual(colors)
+    })
+
+    it("marks transparent pixels with a reserved palette index", () => {
+        const gif = readGif(encodeGif(2, 1, [frameOf([red, clear])]))
+        const [image] = gif.images
+
+        expect(image?.transparentIndex).not.toBeNull()
+        expect(colorsOf(gif, image as GifImage)).toEqual([red, clear])
+    })
+
+    it("doesn't mark a transparent index for opaque frames", () => {
+        const gif = readGif(encodeGif(1, 1, [frameOf([red])]))
+
+        expect(gif.images[0]?.transparentIndex).toBeNull()
+    })
+})
+
+function chunk(type: string, data: Uint8Array) {
+    const bytes = new Uint8Array(8 + data.length + (data.length % 2))
+    bytes.set([...type].map(char => char.charCodeAt(0)))
+    new DataView(bytes.buffer).setUint32(4, data.length, true)
+    bytes.set(data, 8)
+    return bytes
+}
+
+function riff(chunks: readonly Uint8Array[]) {
+    const body = chunks.reduce((sum, part) => sum + part.length, 0)
+    const bytes = new Uint8Array(12 + body)
+    bytes.set([..."RIFF"].map(char => char.charCodeAt(0)))
+    new DataView(bytes.buffer).setUint32(4, 4 + body, true)
+    bytes.set([..."WEBP"].map(char => char.charCodeAt(0)), 8)
+
+    let offset = 12
+    for (const part of chunks) {
+        bytes.set(part, offset)
+        offset += part.length
+    }
+
+    return bytes
+}
+
+// Still WebPs as the browser writes them, the bitstreams are opaque to the muxer
+const lossy = riff([chunk("VP8 ", new Uint8Array([1, 2, 3, 4, 5]))])
+const lossless = riff([chunk("VP8L", new Uint8Array([6, 7, 8, 9]))])
+
+function readChunks(bytes: Uint8Array, start: number, end: number) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const chunks: { type: string; offset: number; size: number }[] = []
+
+    for (let offset = start; offset < end; ) {
+        const size = view.getUint32(offset + 4, true)
+        chunks.push({ type: String.fromCharCode(...bytes.subarray(offset, offset + 4)), offset: offset + 8, size })
+        offset += 8 + size + (size % 2)
+    }
+
+    return chunks
+}
+
+function readWebp(bytes: Uint8Array) {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+    const uint24 = (offset: number) => view.getUint16(offset, true) | ((bytes[offset + 2] ?? 0) << 16)
+    const chunks = readChunks(bytes, 12, bytes.length)
+    const vp8x = chunks.find(part => part.type === "VP8X")
+
+    return {
+        riff: String.fromCharCode(...bytes.subarray(0, 4)),
+        riffSize: view.getUint32(4, true),
+        flags: vp8x ? (bytes[vp8x.offset] ?? 0) : 0,
+        width: vp8x ? uint24(vp8x.offset + 4) + 1 : 0,
+        height: vp8x ? uint24(vp8x.offset + 7) + 1 : 0,
+        types: chunks.map(part => part.type),
+        frames: chunks
+            .filter(part => part.type === "ANMF")
+            .map(part => ({
+                width: uint24(part.offset + 6) + 1,
+                height: uint24(part.offset + 9) + 1,
+                duration: uint24(part.offset + 12),
+                chunks: readChunks(bytes, part.offset + 16, part.offset + part.size).map(inner => inner.type),
+            })),
+    }
+}
+
+describe("muxAnimatedWebp", () => {
+    it("writes a RIFF container whose size covers the whole file", () => {
+        const bytes = muxAnimatedWebp(4, 3, [{ webp: lossy, duration: 100 }])
+        const webp = readWebp(bytes)
+
+        expect(webp.riff).toBe("RIFF")
+        expect(webp.riffSize).toBe(bytes.length - 8)
+        expect(webp.types).toEqual(["VP8X", "ANIM", "ANMF"])
+    })
+
+    it("writes the canvas size and one frame per still with its duration", () => {
+        const webp = readWebp(
+            muxAnimatedWebp(4, 3, [
+                { webp: lossy, duration: 100 },
+                { webp: lossy, duration: 40 },
+            ])
+        )
+
+        expect(webp.width).toBe(4)
+        expect(webp.height).toBe(3)
+        expect(webp.frames).toEqual([
+            { width: 4, height: 3, duration: 100, chunks: ["VP8 "] },
+            { width: 4, height: 3, duration: 40, chunks: ["VP8 "] },
+        ])
+    })
+
+    it("sets the alpha flag only when a frame can have alpha", () => {
+        const opaque = readWebp(muxAnimatedWebp(1, 1, [{ webp: lossy, duration: 100 }]))
+        const withAlpha = readWebp(
+            muxAnimatedWebp(1, 1, [
+                { webp: lossy, duration: 100 },
+                { webp: lossless, duration: 100 },
+            ])
+        )
+
+        expect(opaque.flags).toBe(0x02)
+        expect(withAlpha.flags).toBe(0x12)
+    })
+
+    it("keeps padded chunks of odd length intact", () => {
+        const bytes = muxAnimatedWebp(1, 1, [{ webp: lossy, duration: 100 }])
+        const frameData = bytes.subarray(bytes.length - lossy.length + 12)
+
+        expect([...frameData]).toEqual([...lossy.subarray(12)])
+    })
+
+    it("rejects files that aren't WebPs", () => {
+        expect(() => muxAnimatedWebp(1, 1, [{ webp: new Uint8Array(16), duration: 100 }])).toThrow("Not a WebP file")
+    })
+})
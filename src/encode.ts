@@ -0,0 +1,361 @@
+/**
+ * Animated GIF and WebP encoders, small enough to run in the editor worker without a dependency. GIFs share one
+ * palette built by median cut over pixels sampled from every frame. WebP frames are encoded by the browser one at a
+ * time and muxed into an animated WebP container.
+ */
+
+class ByteWriter {
+    private buffer = new Uint8Array(1 << 16)
+    length = 0
+
+    private ensure(count: number) {
+        if (this.length + count <= this.buffer.length) return
+
+        const grown = new Uint8Array(Math.max(this.buffer.length * 2, this.length + count))
+        grown.set(this.buffer.subarray(0, this.length))
+        this.buffer = grown
+    }
+
+    byte(value: number) {
+        this.ensure(1)
+        this.buffer[this.length++] = value & 0xff
+    }
+
+    bytes(values: Uint8Array) {
+        this.ensure(values.length)
+        this.buffer.set(values, this.length)
+        this.length += values.length
+    }
+
+    uint16(value: number) {
+        this.byte(value)
+        this.byte(value >> 8)
+    }
+
+    uint24(value: number) {
+        this.uint16(value)
+        this.byte(value >> 16)
+    }
+
+    uint32(value: number) {
+        this.uint16(value)
+        this.uint16(value >>> 16)
+    }
+
+    ascii(text: string) {
+        for (let index = 0; index < text.length; index++) this.byte(text.charCodeAt(index))
+    }
+
+    // Overwrites a little endian uint32 written earlier, for sizes only known at the end
+    setUint32(offset: number, value: number) {
+        new DataView(this.buffer.buffer).setUint32(offset, value, true)
+    }
+
+    result() {
+        return this.buffer.slice(0, this.length)
+    }
+}
+
+export interface PixelFrame {
+    pixels: Uint8ClampedArray // RGBA
+    duration: number // Milliseconds
+}
+
+const maxPaletteSamples = 65536
+const alphaThreshold = 128 // Pixels more transparent than this are transparent in the GIF
+
+// Colors are packed as 0xRRGGBB
+const channel = (color: number, shift: number) => (color >> shift) & 0xff
+const channelShifts = [16, 8, 0]
+
+interface ColorBox {
+    colors: number[]
+    shift: number // Channel with the widest range
+    range: number
+}
+
+function colorBox(colors: number[]): ColorBox {
+    let best = { shift: 16, range: -1 }
+
+    for (const shift of channelShifts) {
+        let min = 255
+        let max = 0
+        for (const color of colors) {
+            const value = channel(color, shift)
+            if (value < min) min = value
+            if (value > max) max = value
+        }
+
+        if (max - min > best.range) best = { shift, range: max - min }
+    }
+
+    return { colors, ...best }
+}
+
+function averageColor(colors: number[]) {
+    const sums = [0, 0, 0]
+    for (const color of colors) {
+        sums[0] += channel(color, 16)
+        sums[1] += channel(color, 8)
+        sums[2] += channel(color, 0)
+    }
+
+    const [r = 0, g = 0, b = 0] = sums.map(sum => Math.round(sum / colors.length))
+    return (r << 16) | (g << 8) | b
+}
+
+// Splits the box with the widest channel range at its median until there are enough boxes
+function medianCut(colors: number[], maxColors: number) {
+    if (colors.length === 0) return [0]
+
+    const boxes = [colorBox(colors)]
+    while (boxes.length < maxColors) {
+        let widest: ColorBox | null = null
+        for (const box of boxes) {
+            if (box.colors.length > 1 && box.range > 0 && (!widest || box.range > widest.range)) widest = box
+        }
+        if (!widest) break
+
+        const { shift } = widest
+        const sorted = [...widest.colors].sort((a, b) => channel(a, shift) - channel(b, shift))
+        const middle = sorted.length >> 1
+        boxes.splice(boxes.indexOf(widest), 1, colorBox(sorted.slice(0, middle)), colorBox(sorted.slice(middle)))
+    }
+
+    return boxes.map(box => averageColor(box.colors))
+}
+
+function buildPalette(frames: readonly PixelFrame[]) {
+    const pixelCount = frames.reduce((sum, frame) => sum + frame.pixels.length / 4, 0)
+    const step = Math.max(1, Math.floor(pixelCount / maxPaletteSamples))
+    const samples: number[] = []
+    let hasTransparency = false
+    let counter = 0
+
+    for (const { pixels } of frames) {
+        for (let offset = 0; offset < pixels.length; offset += 4) {
+            if ((pixels[offset + 3] ?? 0) < alphaThreshold) {
+                hasTransparency = true
+                continue
+            }
+
+            if (counter++ % step !== 0) continue
+            samples.push(((pixels[offset] ?? 0) << 16) | ((pixels[offset + 1] ?? 0) << 8) | (pixels[offset + 2] ?? 0))
+        }
+    }
+
+    // One slot is kept free for the transparent color
+    return { palette: medianCut(samples, hasTransparency ? 255 : 256), hasTransparency }
+}
+
+// Nearest palette color, cached by color reduced to 5 bits per channel
+function paletteIndexer(palette: readonly number[]) {
+    const cache = new Int16Array(1 << 15).fill(-1)
+
+    return (r: number, g: number, b: number) => {
+        const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3)
+        const cached = cache[key] ?? -1
+        if (cached >= 0) return cached
+
+        let nearest = 0
+        let nearestDistance = Infinity
+        palette.forEach((color, index) => {
+            const distance = (channel(color, 16) - r) ** 2 + (channel(color, 8) - g) ** 2 + (channel(color, 0) - b) ** 2
+            if (distance < nearestDistance) {
+                nearest = index
+                nearestDistance = distance
+            }
+        })
+
+        cache[key] = nearest
+        return nearest
+    }
+}
+
+// Variable length LZW as used by GIF, written in sub-blocks of up to 255 bytes
+function writeLzw(writer: ByteWriter, indices: Uint8Array, minCodeSize: number) {
+    const clearCode = 1 << minCodeSize
+    const endCode = clearCode + 1
+    const codes = new ByteWriter()
+    const table = new Map<number, number>()
+    let codeSize = minCodeSize + 1
+    let nextCode = endCode + 1
+    let bits = 0
+    let bitCount = 0
+
+    const emit = (code: number) => {
+        bits |= code << bitCount
+        bitCount += codeSize
+        while (bitCount >= 8) {
+            codes.byte(bits)
+            bits >>>= 8
+            bitCount -= 8
+        }
+    }
+
+    emit(clearCode)
+
+    let prefix = indices[0] ?? 0
+    for (let index = 1; index < indices.length; index++) {
+        const value = indices[index] ?? 0
+        const key = (prefix << 8) | value
+        const code = table.get(key)
+
+        if (code !== undefined) {
+            prefix = code
+            continue
+        }
+
+        emit(prefix)
+        if (nextCode === 4096) {
+            emit(clearCode)
+            table.clear()
+            codeSize = minCodeSize + 1
+            nextCode = endCode + 1
+        } else {
+            if (nextCode >= 1 << codeSize) codeSize++
+            table.set(key, nextCode++)
+        }
+        prefix = value
+    }
+
+    emit(prefix)
+    emit(endCode)
+    if (bitCount > 0) codes.byte(bits)
+
+    const data = codes.result()
+    writer.byte(minCodeSize)
+    for (let offset = 0; offset < data.length; offset += 255) {
+        const block = data.subarray(offset, offset + 255)
+        writer.byte(block.length)
+        writer.bytes(block)
+    }
+    writer.byte(0)
+}
+
+export function encodeGif(width: number, height: number, frames: readonly PixelFrame[]): Uint8Array {
+    const { palette, hasTransparency } = buildPalette(frames)
+    const transparentIndex = palette.length
+    const indexOf = paletteIndexer(palette)
+    const writer = new ByteWriter()
+
+    writer.ascii("GIF89a")
+    writer.uint16(width)
+    writer.uint16(height)
+    writer.byte(0xf7) // Global color table of 256 entries, 8 bits per channel
+    writer.byte(0) // Background color index
+    writer.byte(0) // Pixel aspect ratio
+
+    for (let index = 0; index < 256; index++) {
+        const color = palette[index] ?? 0
+        writer.byte(channel(color, 16))
+        writer.byte(channel(color, 8))
+        writer.byte(channel(color, 0))
+    }
+
+    // Loops forever
+    writer.bytes(new Uint8Array([0x21, 0xff, 0x0b]))
+    writer.ascii("NETSCAPE2.0")
+    writer.bytes(new Uint8Array([0x03, 0x01, 0x00, 0x00, 0x00]))
+
+    const indices = new Uint8Array(width * height)
+    for (const { pixels, duration } of frames) {
+        for (let pixel = 0; pixel < indices.length; pixel++) {
+            const offset = pixel * 4
+            indices[pixel] =
+                hasTransparency && (pixels[offset + 3] ?? 0) < alphaThreshold
+                    ? transparentIndex
+                    : indexOf(pixels[offset] ?? 0, pixels[offset + 1] ?? 0, pixels[offset + 2] ?? 0)
+        }
+
+        // Graphic control extension. Frames with transparency clear to the background so earlier frames don't show
+        writer.bytes(new Uint8Array([0x21, 0xf9, 0x04]))
+        writer.byte(hasTransparency ? (2 << 2) | 1 : 1 << 2)
+        writer.uint16(Math.max(2, Math.round(duration / 10)))
+        writer.byte(hasTransparency ? transparentIndex : 0)
+        writer.byte(0)
+
+        // Image descriptor covering the whole canvas
+        writer.byte(0x2c)
+        writer.uint16(0)
+        writer.uint16(0)
+        writer.uint16(width)
+        writer.uint16(height)
+        writer.byte(0)
+
+        writeLzw(writer, indices, 8)
+    }
+
+    writer.byte(0x3b)
+    return writer.result()
+}
+
+export interface WebpFrame {
+    webp: Uint8Array // A still WebP file, as encoded by the browser
+    duration: number // Milliseconds
+}
+
+const frameChunks = new Set(["ALPH", "VP8 ", "VP8L"])
+
+// Bitstream chunks of a still WebP, with their headers and padding
+function webpFrameChunks(file: Uint8Array) {
+    const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+    const fourCC = (offset: number) => String.fromCharCode(...file.subarray(offset, offset + 4))
+
+    if (fourCC(0) !== "RIFF" || fourCC(8) !== "WEBP") throw new Error("Not a WebP file")
+
+    const chunks: Uint8Array[] = []
+    let hasAlpha = false
+
+    for (let offset = 12; offset + 8 <= file.length; ) {
+        const type = fourCC(offset)
+        const size = view.getUint32(offset + 4, true)
+        const end = offset + 8 + size + (size % 2)
+
+        if (frameChunks.has(type)) chunks.push(file.subarray(offset, end))
+        if (type === "ALPH" || type === "VP8L") hasAlpha = true
+        offset = end
+    }
+
+    if (chunks.length === 0) throw new Error("WebP has no image data")
+    return { chunks, hasAlpha }
+}
+
+export function muxAnimatedWebp(width: number, height: number, frames: readonly WebpFrame[]): Uint8Array {
+    const parsed = frames.map(frame => ({ ...webpFrameChunks(frame.webp), duration: frame.duration }))
+    const hasAlpha = parsed.some(frame => frame.hasAlpha)
+    const writer = new ByteWriter()
+
+    writer.ascii("RIFF")
+    writer.uint32(0) // File size, set at the end
+    writer.ascii("WEBP")
+
+    writer.ascii("VP8X")
+    writer.uint32(10)
+    writer.byte(0x02 | (hasAlpha ? 0x10 : 0)) // Animation and alpha flags
+    writer.uint24(0)
+    writer.uint24(width - 1)
+    writer.uint24(height - 1)
+
+    writer.ascii("ANIM")
+    writer.uint32(6)
+    writer.uint32(0) // Background color
+    writer.uint16(0) // Loops forever
+
+    for (const { chunks, duration } of parsed) {
+        const dataSize = chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+
+        writer.ascii("ANMF")
+        writer.uint32(16 + dataSize)
+        writer.uint24(0) // X offset
+        writer.uint24(0) // Y offset
+        writer.uint24(width - 1)
+        writer.uint24(height - 1)
+        writer.uint24(Math.min(duration, 0xffffff))
+        writer.byte(0x02) // Replaces the previous frame instead of blending with it
+        for (const chunk of chunks) writer.bytes(chunk)
+    }
+
+    writer.setUint32(4, writer.length - 8)
+    return writer.result()
+}
@@ -0,0 +1,36 @@
+import { t } from "./i18n"
+import { isApiError, RateLimitError } from "./providers/errors"
+
+export interface ErrorDescription {
+    title: string
+    detail: string
+    retryAt: number | null // Set for rate limits, retrying before then fails again
+}
+
+// User facing explanation for an error thrown while loading content
+export function describeError(error: unknown): ErrorDescription {
+    if (!isApiError(error)) {
+        return { title: t("error.generic"), detail: t("error.genericDetail"), retryAt: null }
+    }
+
+    const { provider } = error
+
+    switch (error.kind) {
+        case "network":
+            return { title: t("error.network"), detail: t("error.networkDetail", { provider }), retryAt: null }
+        case "auth":
+            return { title: t("error.auth"), detail: t("error.authDetail", { provider }), retryAt: null }
+        case "rate-limited":
+            return {
+                title: t("error.rateLimited"),
+                detail: t("error.rateLimitedDetail", { provider }),
+                retryAt: error instanceof RateLimitError ? error.retryAt : null,
+            }
+        case "server":
+            return { title: t("error.server", { provider }), detail: t("error.serverDetail"), retryAt: null }
+        case "schema":
+            return { title: t("error.schema"), detail: t("error.schemaDetail", { provider }), retryAt: null }
+        case "request":
+            return { title: t("error.request"), detail: error.message, retryAt: null }
+    }
+}
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import type { MediaItem } from "./providers/types"
+
+const storage = vi.hoisted(() => {
+    const values = new Map<string, string>()
+    const localStorage = {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            values.set(key, value)
+        },
+    }
+
+    // Persisted stores load when their module is imported, so localStorage has to exist before that
+    vi.stubGlobal("localStorage", localStorage)
+    vi.stubGlobal("navigator", { languages: ["en-US"] })
+    return { values, localStorage }
+})
+
+const notify = vi.hoisted(() => vi.fn())
+vi.mock("framer-plugin", () => ({ framer: { notify } }))
+
+const COLLECTIONS_KEY = "framestack-gifs-collections"
+
+function itemOf(id: string): MediaItem {
+    const rendition = (size: string, format: string) => ({
+        url: `https://example.com/${id}/${size}.${format}`,
+        width: 200,
+        height: 100,
+        size: 1000,
+    })
+    const formats = (size: string) => ({ gif: rendition(size, "gif"), webp: rendition(size, "webp") })
+
+    return {
+        id: `klipy:${id}`,
+        sourceId: id,
+        provider: "klipy",
+        contentType: "gifs",
+        slug: `item-${id}`,
+        title: `Item ${id}`,
+        type: "gif",
+        preview: `data:image/png;base64,${"A".repeat(2000)}`,
+        tags: ["funny"],
+        renditions: { xs: formats("xs"), sm: formats("sm"), md: formats("md"), hd: formats("hd") },
+    }
+}
+
+// The collections as the next plugin session loads them
+async function reload() {
+    vi.resetModules()
+    return import("./favorites")
+}
+
+beforeEach(() => {
+    storage.values.clear()
+    notify.mockClear()
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+})
+
+describe("saved collections", () => {
+    it("leave out the blur preview and the repeated dimensions", async () => {
+        const favorites = await reload()
+        favorites.toggleFavorite(itemOf("1"))
+
+        const saved = storage.values.get(COLLECTIONS_KEY) ?? ""
+
+        expect(saved).not.toContain("base64")
+        expect(JSON.parse(saved)[0].items[0].renditions.md).toEqual({
+            width: 200,
+            height: 100,
+            gif: { url: "https://example.com/1/md.gif", size: 1000 },
+            webp: { url: "https://example.com/1/md.webp", size: 1000 },
+        })
+    })
+
+    it("load with every rendition and the smallest WebP as the preview", async () => {
+        const item = itemOf("1")
+        const previousSession = await reload()
+        previousSession.toggleFavorite(item)
+
+        const { FAVORITES_COLLECTION_ID, exportCollections } = await reload()
+        const [favorites] = JSON.parse(exportCollections([FAVORITES_COLLECTION_ID])).collections
+
+        expect(favorites.items).toEqual([{ ...item, preview: "https://example.com/1/xs.webp" }])
+    })
+
+    it("load when saved with full items by an earlier version", async () => {
+        const item = itemOf("1")
+        const saved = [{ id: "favorites", name: "Favorites", items: [item], createdAt: 0 }]
+        storage.values.set(COLLECTIONS_KEY, JSON.stringify(saved))
+
+        const { FAVORITES_COLLECTION_ID, exportCollections } = await reload()
+        const [favorites] = JSON.parse(exportCollections([FAVORITES_COLLECTION_ID])).collections
+
+        expect(favorites.items).toEqual([item])
+    })
+
+    it("tell the user when saving fails", async () => {
+        const favorites = await reload()
+        const setItem = vi.spyOn(storage.localStorage, "setItem").mockImplementation(() => {
+            throw new DOMException("Quota exceeded", "QuotaExceededError")
+        })
+        vi.spyOn(console, "warn").mockImplementation(() => {})
+
+        favorites.toggleFavorite(itemOf("1"))
+
+        expect(setItem).toHaveBeenCalled()
+        expect(notify).toHaveBeenCalledWith("Couldn't save collections, the browser's storage may be full", {
+            variant: "error",
+        })
+    })
+})
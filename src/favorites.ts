@@ -0,0 +1,221 @@
+import { framer } from "framer-plugin"
+import { useMemo } from "react"
+import * as v from "valibot"
+import { type MediaItem, providerIds } from "./api"
+import { contentTypeIds } from "./contentTypes"
+import { t } from "./i18n"
+import { mediaItemSchema } from "./providers/schema"
+import { createStore, loadFromStorage, saveToStorage } from "./storage"
+
+const collectionSchema = v.object({
+    id: v.string(),
+    name: v.string(),
+    items: v.array(mediaItemSchema),
+    createdAt: v.number(),
+})
+
+const storedFileSchema = v.object({ url: v.string(), size: v.number() })
+
+const storedSizeSchema = v.object({
+    width: v.number(),
+    height: v.number(), // Both formats of a size have the same dimensions
+    gif: storedFileSchema,
+    webp: storedFileSchema,
+})
+
+// Saved items keep what the grid and inserting need. The blur preview is left out, the smallest WebP stands in for it.
+const storedItemSchema = v.pipe(
+    v.object({
+        id: v.string(),
+        sourceId: v.string(),
+        provider: v.picklist(providerIds),
+        contentType: v.picklist(contentTypeIds),
+        slug: v.string(),
+        title: v.string(),
+        type: v.string(),
+        tags: v.array(v.string()),
+        renditions: v.object({
+            xs: storedSizeSchema,
+            sm: storedSizeSchema,
+            md: storedSizeSchema,
+            hd: storedSizeSchema,
+        }),
+    }),
+    v.transform(({ renditions, ...item }): MediaItem => {
+        const expand = ({ width, height, gif, webp }: v.InferOutput<typeof storedSizeSchema>) => ({
+            gif: { ...gif, width, height },
+            webp: { ...webp, width, height },
+        })
+
+        return {
+            ...item,
+            preview: renditions.xs.webp.url,
+            renditions: {
+                xs: expand(renditions.xs),
+                sm: expand(renditions.sm),
+                md: expand(renditions.md),
+                hd: expand(renditions.hd),
+            },
+        }
+    })
+)
+
+type StoredItem = v.InferInput<typeof storedItemSchema>
+
+function toStoredItem(item: MediaItem): StoredItem {
+    const { id, sourceId, provider, contentType, slug, title, type, tags, renditions } = item
+    const compact = ({ gif, webp }: MediaItem["renditions"]["xs"]) => ({
+        width: gif.width,
+        height: gif.height,
+        gif: { url: gif.url, size: gif.size },
+        webp: { url: webp.url, size: webp.size },
+    })
+
+    return {
+        id,
+        sourceId,
+        provider,
+        contentType,
+        slug,
+        title,
+        type,
+        tags,
+        renditions: {
+            xs: compact(renditions.xs),
+            sm: compact(renditions.sm),
+            md: compact(renditions.md),
+            hd: compact(renditions.hd),
+        },
+    }
+}
+
+// Collections saved before items were stored compactly still load, they're compacted on the next save
+const storedCollectionsSchema = v.array(
+    v.object({ ...collectionSchema.entries, items: v.array(v.union([storedItemSchema, mediaItemSchema])) })
+)
+
+// Shareable file format, a team can pass these around to sync collections
+const collectionsFileSchema = v.object({
+    format: v.literal("framer-gifs-collections"),
+    version: v.literal(1),
+    collections: v.array(collectionSchema),
+})
+
+export type Collection = v.InferOutput<typeof collectionSchema>
+
+export const FAVORITES_COLLECTION_ID = "favorites"
+
+const COLLECTIONS_KEY = "framestack-gifs-collections"
+
+const defaultCollections: Collection[] = [{ id: FAVORITES_COLLECTION_ID, name: "Favorites", items: [], createdAt: 0 }]
+
+const savedCollections = loadFromStorage(COLLECTIONS_KEY, storedCollectionsSchema, defaultCollections)
+
+const store = createStore(savedCollections, collections => {
+    const stored = collections.map(collection => ({ ...collection, items: collection.items.map(toStoredItem) }))
+
+    // Usually the storage quota, the change still applies until the plugin is closed
+    if (!saveToStorage(COLLECTIONS_KEY, stored)) {
+        framer.notify(t("favorites.saveFailed"), { variant: "error" })
+    }
+})
+
+// The default Favorites collection always exists and always comes first
+function withFavorites(list: Collection[]): Collection[] {
+    const favorites = list.find(collection => collection.id === FAVORITES_COLLECTION_ID) ?? defaultCollections[0]
+    if (!favorites) throw new Error("Logic error")
+
+    return [favorites, ...list.filter(collection => collection.id !== FAVORITES_COLLECTION_ID)]
+}
+
+function getCollections() {
+    return withFavorites(store.get())
+}
+
+function setCollections(next: Collection[]) {
+    store.set(withFavorites(next))
+}
+
+export function useCollections() {
+    const collections = store.useStore()
+    return useMemo(() => withFavorites(collections), [collections])
+}
+
+// The default collection is stored with an English name, it's shown in the current language instead
+export function collectionName(collection: Collection) {
+    return collection.id === FAVORITES_COLLECTION_ID ? t("app.favorites") : collection.name
+}
+
+export function isInCollection(collection: Collection, item: MediaItem) {
+    return collection.items.some(existing => existing.id === item.id)
+}
+
+export function toggleInCollection(collectionId: string, item: MediaItem) {
+    setCollections(
+        getCollections().map(collection => {
+            if (collection.id !== collectionId) return collection
+
+            const items = isInCollection(collection, item)
+                ? collection.items.filter(existing => existing.id !== item.id)
+                : [item, ...collection.items]
+
+            return { ...collection, items }
+        })
+    )
+}
+
+export function toggleFavorite(item: MediaItem) {
+    toggleInCollection(FAVORITES_COLLECTION_ID, item)
+}
+
+export function createCollection(name: string): Collection {
+    const collection: Collection = { id: crypto.randomUUID(), name, items: [], createdAt: Date.now() }
+    setCollections([...getCollections(), collection])
+    return collection
+}
+
+export function deleteCollection(collectionId: string) {
+    if (collectionId === FAVORITES_COLLECTION_ID) return
+    setCollections(getCollections().filter(collection => collection.id !== collectionId))
+}
+
+export function exportCollections(collectionIds: string[]) {
+    const file: v.InferOutput<typeof collectionsFileSchema> = {
+        format: "framer-gifs-collections",
+        version: 1,
+        collections: getCollections().filter(collection => collectionIds.includes(collection.id)),
+    }
+
+    return JSON.stringify(file, null, 2)
+}
+
+/**
+ * Merges collections from an exported file. Collections with a known id get the new items added, unknown ones are
+ * added as they are. Returns the number of imported collections.
+ */
+export function importCollections(json: string): number {
+    const result = v.safeParse(collectionsFileSchema, JSON.parse(json))
+
+    if (result.issues) {
+        throw new Error(`Invalid collections file: ${v.summarize(result.issues)}`)
+    }
+
+    const imported = result.output.collections
+    const next = getCollections()
+
+    for (const collection of imported) {
+        const index = next.findIndex(existing => existing.id === collection.id)
+        const existing = next[index]
+
+        if (!existing) {
+            next.push(collection)
+            continue
+        }
+
+        const newItems = collection.items.filter(item => !isInCollection(existing, item))
+        next[index] = { ...existing, items: [...existing.items, ...newItems] }
+    }
+
+    setCollections(next)
+    return imported.length
+}
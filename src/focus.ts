@@ -0,0 +1,10 @@
+export const SEARCH_INPUT_ID = "search"
+
+export function focusSearch() {
+    document.getElementById(SEARCH_INPUT_ID)?.focus()
+}
+
+// Moves focus from the search field into the results grid, onto its tabbable item
+export function focusResults() {
+    document.querySelector<HTMLElement>("[data-grid-item][tabindex='0']")?.focus()
+}
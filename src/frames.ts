@@ -0,0 +1,190 @@
+/**
+ * Frames of animated GIFs and WebPs, decoded in the browser with the WebCodecs `ImageDecoder`. Every frame is kept as
+ * an `ImageBitmap`, so scrubbing doesn't decode again and frames can be transferred to a worker.
+ */
+
+import { useEffect, useState } from "react"
+import type { MediaItem } from "./api"
+import { t } from "./i18n"
+import { getRendition, type RenditionChoice } from "./renditions"
+
+export interface DecodedFrame {
+    image: ImageBitmap
+    duration: number // Milliseconds
+}
+
+export interface DecodedAnimation {
+    width: number
+    height: number
+    frames: DecodedFrame[]
+}
+
+export class FrameDecodeError extends Error {
+    constructor(
+        message: string,
+        readonly reason: "unsupported" | "too-large" | "failed"
+    ) {
+        super(message)
+        this.name = "FrameDecodeError"
+    }
+}
+
+// Browsers report a missing or zero duration for frames meant to be shown as fast as possible, they play at 10 fps
+const fallbackFrameDuration = 100
+
+// Every decoded frame is kept as RGBA, long animations would otherwise take gigabytes
+const maxFrames = 600
+const maxDecodedPixels = 48_000_000 // About 190 MB across all frames
+
+/** Frame size that keeps all frames of an animation within the decoded pixel budget, scaled down evenly if needed. */
+export function decodedFrameSize(width: number, height: number, frameCount: number) {
+    const scale = Math.min(1, Math.sqrt(maxDecodedPixels / (width * height * frameCount)))
+    if (scale === 1) return { width, height }
+
+    return { width: Math.max(1, Math.floor(width * scale)), height: Math.max(1, Math.floor(height * scale)) }
+}
+
+const mimeTypes: Record<string, string> = { gif: "image/gif", webp: "image/webp", png: "image/png" }
+
+function mimeTypeOf(response: Response, url: string) {
+    const header = response.headers.get("Content-Type")?.split(";")[0]?.trim()
+    if (header?.startsWith("image/")) return header
+
+    const extension = new URL(url).pathname.split(".").pop()?.toLowerCase() ?? ""
+    return mimeTypes[extension] ?? "image/gif"
+}
+
+// The largest GIF decodes the most detail, WebP is only used when there's no GIF
+export function decodableRendition(content: MediaItem): RenditionChoice {
+    const gif: RenditionChoice = { size: "hd", format: "gif" }
+    return getRendition(content, gif).url ? gif : { size: "hd", format: "webp" }
+}
+
+export function closeAnimation(animation: DecodedAnimation) {
+    for (const frame of animation.frames) frame.image.close()
+}
+
+export async function decodeAnimation(url: string, signal?: AbortSignal): Promise<DecodedAnimation> {
+    if (typeof ImageDecoder === "undefined") {
+        throw new FrameDecodeError("ImageDecoder is not supported", "unsupported")
+    }
+
+    const response = await fetch(url, { signal })
+    if (!response.ok) throw new FrameDecodeError(`Failed to fetch ${url}: ${response.status}`, "failed")
+
+    const type = mimeTypeOf(response, url)
+    if (!(await ImageDecoder.isTypeSupported(type))) {
+        throw new FrameDecodeError(`Decoding ${type} is not supported`, "unsupported")
+    }
+
+    const decoder = new ImageDecoder({ data: await response.arrayBuffer(), type })
+    const frames: DecodedFrame[] = []
+
+    try {
+        await decoder.tracks.ready
+        const frameCount = decoder.tracks.selectedTrack?.frameCount ?? 1
+        if (frameCount > maxFrames) {
+            throw new FrameDecodeError(`${url} has ${frameCount} frames, at most ${maxFrames} are decoded`, "too-large")
+        }
+
+        let size: { width: number; height: number } | null = null
+
+        for (let frameIndex = 0; frameIndex < frameCount; frameIndex++) {
+            signal?.throwIfAborted()
+
+            const { image } = await decoder.decode({ frameIndex })
+            try {
+                size ??= decodedFrameSize(image.displayWidth, image.displayHeight, frameCount)
+                const isScaled = size.width !== image.displayWidth || size.height !== image.displayHeight
+
+                frames.push({
+                    image: await createImageBitmap(
+                        image,
+                        isScaled
+                            ? { resizeWidth: size.width, resizeHeight: size.height, resizeQuality: "high" }
+                            : undefined
+                    ),
+                    duration: (image.duration ?? 0) / 1000 || fallbackFrameDuration,
+                })
+            } finally {
+                image.close()
+            }
+        }
+    } catch (error) {
+        for (const frame of frames) frame.image.close()
+        if (error instanceof FrameDecodeError) throw error
+        if (error instanceof DOMException && error.name === "AbortError") throw error
+        throw new FrameDecodeError(`Failed to decode ${url}: ${String(error)}`, "failed")
+    } finally {
+        decoder.close()
+    }
+
+    const [first] = frames
+    if (!first) throw new FrameDecodeError(`${url} has no frames`, "failed")
+
+    return { width: first.image.width, height: first.image.height, frames }
+}
+
+export function decodeErrorMessage(error: unknown, type: string) {
+    if (!(error instanceof FrameDecodeError) || error.reason === "failed") return t("still.failed", { type })
+    return error.reason === "unsupported" ? t("still.unsupported") : t("still.tooLarge", { type })
+}
+
+export type DecodeState =
+    | { status: "decoding" }
+    | { status: "decoded"; animation: DecodedAnimation }
+    | { status: "error"; error: unknown }
+
+// Decodes the item's largest rendition while mounted, scaled down when its frames don't fit the pixel budget. The
+// frames are released on unmount
+export function useDecodedAnimation(content: MediaItem): DecodeState {
+    const url = getRendition(content, decodableRendition(content)).url
+    const [state, setState] = useState<DecodeState>({ status: "decoding" })
+
+    useEffect(() => {
+        const controller = new AbortController()
+        let decoded: DecodedAnimation | null = null
+
+        setState({ status: "decoding" })
+        decodeAnimation(url, controller.signal).then(
+            animation => {
+                if (controller.signal.aborted) {
+                    closeAnimation(animation)
+                    return
+                }
+
+                decoded = animation
+                setState({ status: "decoded", animation })
+            },
+            (error: unknown) => {
+                if (controller.signal.aborted) return
+                console.error("Failed to decode frames:", error)
+                setState({ status: "error", error })
+            }
+        )
+
+        return () => {
+            controller.abort()
+            if (decoded) closeAnimation(decoded)
+        }
+    }, [url])
+
+    return state
+}
+
+export function drawFrame(canvas: HTMLCanvasElement, frame: DecodedFrame) {
+    canvas.width = frame.image.width
+    canvas.height = frame.image.height
+    canvas.getContext("2d")?.drawImage(frame.image, 0, 0)
+}
+
+// A frame as PNG bytes, ready to upload
+export async function frameToPng(frame: DecodedFrame): Promise<Uint8Array> {
+    const canvas = new OffscreenCanvas(frame.image.width, frame.image.height)
+    const context = canvas.getContext("2d")
+    if (!context) throw new Error("Canvas is not supported")
+
+    context.drawImage(frame.image, 0, 0)
+    const blob = await canvas.convertToBlob({ type: "image/png" })
+    return new Uint8Array(await blob.arrayBuffer())
+}
@@ -0,0 +1,43 @@
+import { useEffect, useState } from "react"
+
+export function useDebounce<T>(value: T, delay: number) {
+    const [debouncedValue, setDebouncedValue] = useState<T>(value)
+
+    useEffect(() => {
+        const debounce = setTimeout(() => {
+            setDebouncedValue(value)
+        }, delay)
+
+        return () => {
+            clearTimeout(debounce)
+        }
+    }, [value, delay])
+
+    return debouncedValue
+}
+
+function secondsUntil(timestamp: number | null) {
+    return timestamp === null ? 0 : Math.max(0, Math.ceil((timestamp - Date.now()) / 1000))
+}
+
+// Whole seconds left until a timestamp, ticking every second and stopping at 0
+export function useSecondsUntil(timestamp: number | null) {
+    const [seconds, setSeconds] = useState(() => secondsUntil(timestamp))
+
+    useEffect(() => {
+        setSeconds(secondsUntil(timestamp))
+        if (timestamp === null) return
+
+        const interval = setInterval(() => {
+            const next = secondsUntil(timestamp)
+            setSeconds(next)
+            if (next === 0) clearInterval(interval)
+        }, 1000)
+
+        return () => {
+            clearInterval(interval)
+        }
+    }, [timestamp])
+
+    return seconds
+}
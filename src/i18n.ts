@@ -0,0 +1,136 @@
+import type { MenuItem } from "framer-plugin"
+import * as v from "valibot"
+import type { ContentType } from "./contentTypes"
+import { de } from "./locales/de"
+import { en, type MessageKey, type Messages } from "./locales/en"
+import { es } from "./locales/es"
+import { fr } from "./locales/fr"
+import { ja } from "./locales/ja"
+import { createPersistedStore } from "./storage"
+
+export type { MessageKey } from "./locales/en"
+
+export type Locale = "en" | "de" | "es" | "fr" | "ja"
+
+export const locales: readonly Locale[] = ["en", "de", "es", "fr", "ja"]
+
+const messages: Record<Locale, Messages> = { en, de, es, fr, ja }
+
+// Each language in its own language, so it can be found whatever language the UI is in
+const localeNames: Record<Locale, string> = {
+    en: "English",
+    de: "Deutsch",
+    es: "Español",
+    fr: "Français",
+    ja: "日本語",
+}
+
+const LOCALE_KEY = "framestack-gifs-locale"
+
+// Locale picked from the menu, null follows the browser
+const overrideStore = createPersistedStore(LOCALE_KEY, v.nullable(v.picklist(locales)), null)
+
+export const useLocaleOverride = overrideStore.useStore
+export const getLocaleOverride = overrideStore.get
+export const subscribeToLocale = overrideStore.subscribe
+
+export function setLocaleOverride(locale: Locale | null) {
+    overrideStore.set(locale)
+}
+
+function isLocale(value: string): value is Locale {
+    return (locales as readonly string[]).includes(value)
+}
+
+// First browser language the plugin has a translation for
+function detectLocale(): Locale {
+    for (const tag of navigator.languages) {
+        const language = tag.split("-")[0]?.toLowerCase() ?? ""
+        if (isLocale(language)) return language
+    }
+
+    return "en"
+}
+
+export function getLocale(): Locale {
+    return overrideStore.get() ?? detectLocale()
+}
+
+export function useLocale(): Locale {
+    return useLocaleOverride() ?? detectLocale()
+}
+
+const defaultRegions: Record<Locale, string> = { en: "US", de: "DE", es: "ES", fr: "FR", ja: "JP" }
+
+/**
+ * Locale sent to the content provider, like "de_DE". The region comes from the browser when it prefers the same
+ * language, so a Swiss browser searching in German gets "de_CH".
+ */
+export function contentLocale(locale: Locale = getLocale()) {
+    const browserTag = navigator.languages.find(tag => tag.toLowerCase().startsWith(`${locale}-`))
+    const region = browserTag?.split("-")[1]?.toUpperCase() ?? defaultRegions[locale]
+
+    return `${locale}_${region}`
+}
+
+type Params = Record<string, string | number>
+
+/**
+ * Message in the current locale with `{name}` placeholders filled in. Messages with plural forms pick one by the
+ * `count` parameter.
+ */
+export function t(key: MessageKey, params: Params = {}): string {
+    const locale = getLocale()
+    const message = messages[locale][key]
+
+    let text: string
+    if (typeof message === "string") {
+        text = message
+    } else {
+        const category = new Intl.PluralRules(locale).select(Number(params.count ?? 0))
+        text = (category === "one" ? message.one : undefined) ?? message.other
+    }
+
+    return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => String(params[name] ?? placeholder))
+}
+
+export function contentTypeLabel(contentType: ContentType) {
+    return t(`${contentType}.label`)
+}
+
+// Used for layer names and insert notifications
+export function contentTypeName(contentType: ContentType) {
+    return t(`${contentType}.name`)
+}
+
+export function contentTypeEmptyMessage(contentType: ContentType) {
+    return t(`${contentType}.empty`)
+}
+
+export function localeMenuItems(override: Locale | null): MenuItem[] {
+    return [
+        {
+            label: t("menu.language"),
+            submenu: [
+                {
+                    label: t("menu.automatic"),
+                    secondaryLabel: localeNames[detectLocale()],
+                    checked: override === null,
+                    onAction: () => {
+                        setLocaleOverride(null)
+                    },
+                },
+                { type: "separator" },
+                ...locales.map(
+                    (locale): MenuItem => ({
+                        label: localeNames[locale],
+                        checked: override === locale,
+                        onAction: () => {
+                            setLocaleOverride(locale)
+                        },
+                    })
+                ),
+            ],
+        },
+    ]
+}
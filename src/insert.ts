@@ -0,0 +1,477 @@
+import { useMutation } from "@tanstack/react-query"
+import { framer, type ImageAsset } from "framer-plugin"
+import { useState } from "react"
+import { getContentDimensions, type MediaItem } from "./api"
+import { announce } from "./announce"
+import { type Arrangement, arrangeGap, arrangeItems } from "./arrange"
+import { addSessionBytes, confirmHardLimit } from "./budget"
+import { selectedImageLayers } from "./canvasSelection"
+import type { EncodedImage } from "./useEncodedEdit"
+import { tagEditedLayer } from "./editRecords"
+import type { Edits } from "./edits"
+import { contentTypeName, t } from "./i18n"
+import {
+    addedLayerId,
+    selectedLayerIds,
+    type TaggedLayer,
+    tagAddedLayer,
+    tagLayer,
+    untagLayer,
+} from "./provenance"
+import { addRecentInsert } from "./recent"
+import { getRendition, isSameRendition, type RenditionChoice, renditionLabel } from "./renditions"
+
+export interface InsertRequest {
+    content: MediaItem
+    rendition: RenditionChoice
+}
+
+// Every finished insert shows up in recent inserts and counts towards the bytes inserted this session
+export function recordInsert(item: MediaItem, rendition: RenditionChoice) {
+    addRecentInsert(item, rendition)
+    addSessionBytes(getRendition(item, rendition).size)
+}
+
+export function useInsertContent(userId: string) {
+    return useMutation({
+        mutationFn: async ({ content, rendition }: InsertRequest) => {
+            if (!userId) {
+                throw new Error("User ID not available")
+            }
+
+            if (!(await confirmHardLimit([getRendition(content, rendition)]))) return
+
+            const mode = framer.mode
+            const typeName = contentTypeName(content.contentType)
+
+            const imageData = {
+                image: getRendition(content, rendition).url,
+                name: content.title || typeName,
+                altText: content.title || undefined,
+            }
+
+            try {
+                if (mode === "canvas") {
+                    const previousSelection = await selectedLayerIds()
+                    await framer.addImage(imageData)
+                    await tagAddedLayer(previousSelection, content, rendition)
+                    recordInsert(content, rendition)
+                    void framer.notify(t("insert.inserted", { type: typeName, rendition: renditionLabel(rendition) }), {
+                        variant: "success",
+                    })
+                    announce(t("insert.insertedShort", { type: typeName }))
+                    return
+                }
+
+                const [target, ...others] = await selectedLayerIds()
+                await framer.setImage(imageData)
+                if (target && others.length === 0) await tagLayer(target, content, rendition)
+                recordInsert(content, rendition)
+                void framer.closePlugin()
+            } catch (error) {
+                console.error("Failed to add image:", error)
+                void framer.notify(t("insert.failed", { type: typeName }), { variant: "error" })
+                announce(t("insert.failed", { type: typeName }))
+            }
+        },
+    })
+}
+
+/**
+ * Swaps the image fill of every selected image layer in canvas mode. Only the fill changes, the layers keep their
+ * size, position and name. The image is uploaded once and shared by all layers.
+ */
+export function useReplaceSelection(userId: string) {
+    return useMutation({
+        mutationFn: async ({ content, rendition }: InsertRequest) => {
+            if (!userId) {
+                throw new Error("User ID not available")
+            }
+
+            const layers = selectedImageLayers()
+            const typeName = contentTypeName(content.contentType)
+            if (layers.length === 0) return
+            if (!(await confirmHardLimit([getRendition(content, rendition)]))) return
+
+            let failedCount = 0
+
+            try {
+                const image = await framer.uploadImage({
+                    image: getRendition(content, rendition).url,
+                    name: content.title || typeName,
+                    altText: content.title || undefined,
+                })
+
+                for (const layer of layers) {
+                    try {
+                        await framer.setAttributes(layer.id, { backgroundImage: image })
+                        await tagLayer(layer.id, content, rendition)
+                    } catch (error) {
+                        console.error(`Failed to replace image of ${layer.id}:`, error)
+                        failedCount++
+                    }
+                }
+            } catch (error) {
+                console.error("Failed to upload image:", error)
+                failedCount = layers.length
+            }
+
+            const replacedCount = layers.length - failedCount
+            const label = renditionLabel(rendition)
+
+            if (replacedCount > 0) recordInsert(content, rendition)
+
+            const message =
+                failedCount === 0
+                    ? t("insert.replaced", { count: replacedCount, type: typeName, rendition: label })
+                    : t("insert.replacedPartially", {
+                          replaced: replacedCount,
+                          count: layers.length,
+                          failed: failedCount,
+                      })
+
+            void framer.notify(message, { variant: failedCount === 0 ? "success" : "error" })
+            announce(message)
+        },
+    })
+}
+
+export type BatchItemStatus = "pending" | "inserting" | "inserted" | "failed"
+
+export interface BatchInsertRequest {
+    inserts: InsertRequest[] // Each item with the rendition picked for it
+    arrangement: Arrangement
+}
+
+export interface BatchInsertResult {
+    inserted: MediaItem[]
+    failed: MediaItem[]
+}
+
+// New items go to the right of the selected layer, or at the origin of the canvas when nothing is selected
+async function batchOrigin() {
+    try {
+        const [node] = await framer.getSelection()
+        const rect = node ? await framer.getRect(node.id) : null
+        if (rect) return { x: rect.x + rect.width + arrangeGap * 2, y: rect.y }
+    } catch (error) {
+        console.warn("Failed to get selection position:", error)
+    }
+
+    return { x: 0, y: 0 }
+}
+
+/**
+ * Inserts several items at once as image frames arranged on the canvas. Items are uploaded one by one with their
+ * status tracked per item, a failing item does not stop the rest of the batch.
+ */
+export function useBatchInsert(userId: string) {
+    const [statuses, setStatuses] = useState<Record<string, BatchItemStatus>>({})
+
+    const mutation = useMutation({
+        mutationFn: async ({ inserts, arrangement }: BatchInsertRequest): Promise<BatchInsertResult> => {
+            if (!userId) {
+                throw new Error("User ID not available")
+            }
+
+            const result: BatchInsertResult = { inserted: [], failed: [] }
+            if (!(await confirmHardLimit(inserts.map(({ content, rendition }) => getRendition(content, rendition))))) {
+                return result
+            }
+
+            const setStatus = (id: string, status: BatchItemStatus) => {
+                setStatuses(current => ({ ...current, [id]: status }))
+            }
+
+            setStatuses(Object.fromEntries(inserts.map(({ content }) => [content.id, "pending"])))
+
+            const frames = arrangeItems(
+                inserts.map(({ content, rendition }) => getContentDimensions(content, rendition.size)),
+                arrangement
+            )
+            const origin = await batchOrigin()
+            const nodeIds: string[] = []
+
+            for (const [index, { content: item, rendition }] of inserts.entries()) {
+                const frame = frames[index]
+                if (!frame) continue
+
+                const name = item.title || contentTypeName(item.contentType)
+                setStatus(item.id, "inserting")
+
+                try {
+                    const image = await framer.uploadImage({
+                        image: getRendition(item, rendition).url,
+                        name,
+                        altText: item.title || undefined,
+                    })
+
+                    const node = await framer.createFrameNode({
+                        name,
+                        position: "absolute",
+                        left: `${origin.x + frame.x}px`,
+                        top: `${origin.y + frame.y}px`,
+                        width: `${frame.width}px`,
+                        height: `${frame.height}px`,
+                        backgroundImage: image,
+                    })
+
+                    if (!node) throw new Error("Frame was not created")
+
+                    await tagLayer(node.id, item, rendition)
+                    nodeIds.push(node.id)
+                    recordInsert(item, rendition)
+                    setStatus(item.id, "inserted")
+                    result.inserted.push(item)
+                } catch (error) {
+                    console.error(`Failed to insert ${item.id}:`, error)
+                    setStatus(item.id, "failed")
+                    result.failed.push(item)
+                }
+            }
+
+            if (nodeIds.length > 0) {
+                try {
+                    await framer.setSelection(nodeIds)
+                    await framer.zoomIntoView(nodeIds)
+                } catch (error) {
+                    console.warn("Failed to select inserted items:", error)
+                }
+            }
+
+            const message =
+                result.failed.length === 0
+                    ? t("insert.batchInserted", { count: inserts.length })
+                    : t("insert.batchInsertedPartially", {
+                          inserted: result.inserted.length,
+                          count: inserts.length,
+                          failed: result.failed.length,
+                      })
+
+            void framer.notify(message, { variant: result.failed.length === 0 ? "success" : "error" })
+            announce(message)
+
+            return result
+        },
+    })
+
+    return { ...mutation, statuses }
+}
+
+export interface SwapRenditionRequest {
+    layers: TaggedLayer[]
+    rendition: RenditionChoice
+}
+
+/**
+ * Swaps layers inserted by the plugin to another rendition of the same item, keeping each layer's size, position and
+ * insert time. Layers already on that rendition are skipped and each item is uploaded once.
+ */
+export function useSwapRenditions() {
+    return useMutation({
+        mutationFn: async ({ layers, rendition }: SwapRenditionRequest) => {
+            const uploads = new Map<string, Promise<ImageAsset>>()
+            const toSwap = layers.filter(layer => !isSameRendition(layer.provenance.rendition, rendition))
+
+            // Each item is uploaded once however many of its layers are swapped
+            const items = new Map(toSwap.map(layer => [layer.provenance.item.id, layer.provenance.item]))
+            if (!(await confirmHardLimit([...items.values()].map(item => getRendition(item, rendition))))) return
+
+            let failedCount = 0
+
+            for (const layer of toSwap) {
+                const { item, insertedAt } = layer.provenance
+
+                try {
+                    let upload = uploads.get(item.id)
+                    if (!upload) {
+                        upload = framer.uploadImage({
+                            image: getRendition(item, rendition).url,
+                            name: item.title || contentTypeName(item.contentType),
+                            altText: item.title || undefined,
+                        })
+                        uploads.set(item.id, upload)
+                    }
+
+                    await framer.setAttributes(layer.nodeId, { backgroundImage: await upload })
+                    await tagLayer(layer.nodeId, item, rendition, insertedAt)
+                    addSessionBytes(getRendition(item, rendition).size)
+                } catch (error) {
+                    console.error(`Failed to swap rendition of ${layer.nodeId}:`, error)
+                    failedCount++
+                }
+            }
+
+            const swappedCount = toSwap.length - failedCount
+            const message =
+                failedCount === 0
+                    ? t("insert.swapped", { count: swappedCount, rendition: renditionLabel(rendition) })
+                    : t("insert.swappedPartially", {
+                          swapped: swappedCount,
+                          count: toSwap.length,
+                          failed: failedCount,
+                      })
+
+            void framer.notify(message, { variant: failedCount === 0 ? "success" : "error" })
+            announce(message)
+        },
+    })
+}
+
+export interface StillFrameRequest {
+    content: MediaItem
+    png: Uint8Array
+    animated: RenditionChoice | null // Also inserts this rendition next to the still, in canvas mode
+}
+
+/**
+ * Uploads a decoded frame as a PNG. On its own it's added like any other image, together with the animated version
+ * both are placed side by side as image frames. Stills aren't tagged, so swapping renditions leaves them alone.
+ */
+export function useInsertStillFrame(userId: string) {
+    return useMutation({
+        mutationFn: async ({ content, png, animated }: StillFrameRequest) => {
+            if (!userId) {
+                throw new Error("User ID not available")
+            }
+
+            const uploads = [{ size: png.byteLength }, ...(animated ? [getRendition(content, animated)] : [])]
+            if (!(await confirmHardLimit(uploads))) return
+
+            const typeName = contentTypeName(content.contentType)
+            const name = content.title || typeName
+            const still = {
+                image: { bytes: png, mimeType: "image/png" },
+                name: t("still.layerName", { name }),
+                altText: content.title || undefined,
+            }
+
+            try {
+                if (framer.mode !== "canvas") {
+                    await framer.setImage(still)
+                    addSessionBytes(png.byteLength)
+                    void framer.closePlugin()
+                    return
+                }
+
+                if (!animated) {
+                    await framer.addImage(still)
+                } else {
+                    // Both frames take the animated rendition's size, the PNG is decoded from the largest one
+                    const { width, height } = getContentDimensions(content, animated.size)
+                    const origin = await batchOrigin()
+                    const stillNode = await framer.createFrameNode({
+                        name: still.name,
+                        position: "absolute",
+                        left: `${origin.x}px`,
+                        top: `${origin.y}px`,
+                        width: `${width}px`,
+                        height: `${height}px`,
+                        backgroundImage: await framer.uploadImage(still),
+                    })
+                    const animatedNode = await framer.createFrameNode({
+                        name,
+                        position: "absolute",
+                        left: `${origin.x + width + arrangeGap}px`,
+                        top: `${origin.y}px`,
+                        width: `${width}px`,
+                        height: `${height}px`,
+                        backgroundImage: await framer.uploadImage({
+                            image: getRendition(content, animated).url,
+                            name,
+                            altText: content.title || undefined,
+                        }),
+                    })
+
+                    if (!stillNode || !animatedNode) throw new Error("Frame was not created")
+
+                    await tagLayer(animatedNode.id, content, animated)
+                    recordInsert(content, animated)
+                    await framer.setSelection([stillNode.id, animatedNode.id])
+                }
+
+                addSessionBytes(png.byteLength)
+                const message = t("still.inserted", { type: typeName })
+                void framer.notify(message, { variant: "success" })
+                announce(message)
+            } catch (error) {
+                console.error("Failed to insert still frame:", error)
+                void framer.notify(t("insert.failed", { type: typeName }), { variant: "error" })
+                announce(t("insert.failed", { type: typeName }))
+            }
+        },
+    })
+}
+
+export interface EditedInsertRequest {
+    content: MediaItem
+    image: EncodedImage
+    edits: Edits
+    target?: string // Layer whose edit is being changed, its image is replaced instead of adding a new layer
+}
+
+// Edited files no longer match any rendition, so the layer swaps its provenance for the edit record
+async function tagEdited(nodeId: string, content: MediaItem, edits: Edits) {
+    await untagLayer(nodeId)
+    await tagEditedLayer(nodeId, content, edits)
+}
+
+/**
+ * Uploads the bytes made in the editor, added like any other image. Edited files aren't tagged with a rendition, they
+ * no longer match any of them, but the layer keeps the source item and the edits so they can be changed later.
+ */
+export function useInsertEdited(userId: string) {
+    return useMutation({
+        mutationFn: async ({ content, image, edits, target }: EditedInsertRequest) => {
+            if (!userId) {
+                throw new Error("User ID not available")
+            }
+
+            if (!(await confirmHardLimit([{ size: image.bytes.length }]))) return
+
+            const typeName = contentTypeName(content.contentType)
+            const imageData = {
+                image: { bytes: image.bytes, mimeType: image.mimeType },
+                name: t("editor.layerName", { name: content.title || typeName }),
+                // Captions are part of the image, so screen readers need them in the alt text
+                altText:
+                    [content.title, edits.caption.top, edits.caption.bottom]
+                        .map(text => text.trim())
+                        .filter(Boolean)
+                        .join(" — ") || undefined,
+            }
+
+            try {
+                if (framer.mode !== "canvas") {
+                    const [layer, ...others] = await selectedLayerIds()
+                    await framer.setImage(imageData)
+                    if (layer && others.length === 0) await tagEdited(layer, content, edits)
+                    addSessionBytes(image.bytes.length)
+                    void framer.closePlugin()
+                    return
+                }
+
+                if (target) {
+                    // setImage replaces the image of the selection, which may have changed since the editor opened
+                    await framer.setSelection(target)
+                    await framer.setImage(imageData)
+                    await tagEdited(target, content, edits)
+                } else {
+                    const previousSelection = await selectedLayerIds()
+                    await framer.addImage(imageData)
+                    const added = await addedLayerId(previousSelection)
+                    if (added) await tagEdited(added, content, edits)
+                }
+
+                addSessionBytes(image.bytes.length)
+                const message = t(target ? "editor.updated" : "editor.inserted", { type: typeName })
+                void framer.notify(message, { variant: "success" })
+                announce(message)
+            } catch (error) {
+                console.error("Failed to insert edited image:", error)
+                void framer.notify(t("insert.failed", { type: typeName }), { variant: "error" })
+                announce(t("insert.failed", { type: typeName }))
+            }
+        },
+    })
+}
@@ -0,0 +1,130 @@
+import { describe, expect, it, vi } from "vitest"
+import type { BudgetSettings } from "./budget"
+import { hasFilters, type ItemFilters, matchesFilters, mergeFilters, noFilters, parseQuery } from "./itemFilters"
+import { gifSizes, type MediaItem } from "./providers/types"
+import type { RenditionChoice } from "./renditions"
+
+// Persisted stores load when their module is imported, so localStorage has to exist before that
+vi.hoisted(() => {
+    const values = new Map<string, string>()
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => values.set(key, value),
+    })
+})
+
+const KB = 1024
+
+const clickRendition: RenditionChoice = { size: "md", format: "gif" }
+const noBudget: BudgetSettings = { budget: null, hardLimit: null, autoSelect: false }
+
+function itemOf(width: number, height: number, { size = 100 * KB, type = "gif", contentType = "gifs" } = {}) {
+    const rendition = { url: "https://example.com/item.gif", width, height, size }
+    const renditions = Object.fromEntries(gifSizes.map(gifSize => [gifSize, { gif: rendition, webp: rendition }]))
+
+    return { contentType, type, renditions: renditions as MediaItem["renditions"] } as MediaItem
+}
+
+function matches(item: MediaItem, filters: Partial<ItemFilters>) {
+    return matchesFilters(item, { ...noFilters, ...filters }, clickRendition, noBudget)
+}
+
+describe("parseQuery", () => {
+    it("leaves searches without filters alone", () => {
+        expect(parseQuery("  grumpy   cat ")).toEqual({ query: "grumpy cat", filters: {} })
+    })
+
+    it("splits filters out of the search wherever they are", () => {
+        expect(parseQuery("is:landscape grumpy min:800 cat max:2mb")).toEqual({
+            query: "grumpy cat",
+            filters: { orientation: "landscape", minWidth: 800, maxSize: 2 * 1024 * KB },
+        })
+    })
+
+    it("reads ratios written with a colon, an x, a slash or as a number", () => {
+        expect(parseQuery("ratio:16:9").filters.ratio).toBeCloseTo(16 / 9)
+        expect(parseQuery("ratio:4x3").filters.ratio).toBeCloseTo(4 / 3)
+        expect(parseQuery("ratio:9/16").filters.ratio).toBeCloseTo(9 / 16)
+        expect(parseQuery("ratio:1.5").filters.ratio).toBe(1.5)
+    })
+
+    it("reads sizes in bytes, KB and MB, and bare numbers as KB", () => {
+        expect(parseQuery("max:800b").filters.maxSize).toBe(800)
+        expect(parseQuery("max:500kb").filters.maxSize).toBe(500 * KB)
+        expect(parseQuery("max:1.5mb").filters.maxSize).toBe(1536 * KB)
+        expect(parseQuery("max:300").filters.maxSize).toBe(300 * KB)
+    })
+
+    it("reads widths with or without px", () => {
+        expect(parseQuery("min:480px").filters.minWidth).toBe(480)
+        expect(parseQuery("min:480").filters.minWidth).toBe(480)
+    })
+
+    it("tells orientations and animation apart", () => {
+        expect(parseQuery("is:square is:static").filters).toEqual({ orientation: "square", animation: "static" })
+    })
+
+    it("ignores the case of keys and values", () => {
+        expect(parseQuery("IS:Portrait MAX:2MB").filters).toEqual({ orientation: "portrait", maxSize: 2048 * KB })
+    })
+
+    it("keeps terms that don't parse in the search", () => {
+        expect(parseQuery("ratio:wide is:blurry min:big max:-1 :cat time:10:30")).toEqual({
+            query: "ratio:wide is:blurry min:big max:-1 :cat time:10:30",
+            filters: {},
+        })
+    })
+
+    it("keeps the last of a repeated filter", () => {
+        expect(parseQuery("min:240 min:720").filters).toEqual({ minWidth: 720 })
+    })
+})
+
+describe("mergeFilters", () => {
+    it("lets filters from the search override the filter bar", () => {
+        const base = { ...noFilters, orientation: "portrait" as const, minWidth: 480 }
+
+        expect(mergeFilters(base, { orientation: "landscape", maxSize: null })).toEqual({
+            ...base,
+            orientation: "landscape",
+        })
+    })
+})
+
+describe("hasFilters", () => {
+    it("is only true when a filter is set", () => {
+        expect(hasFilters(noFilters)).toBe(false)
+        expect(hasFilters({ ...noFilters, animation: "static" })).toBe(true)
+    })
+})
+
+describe("matchesFilters", () => {
+    it("counts ratios close to 1 as square", () => {
+        expect(matches(itemOf(102, 100), { orientation: "square" })).toBe(true)
+        expect(matches(itemOf(120, 100), { orientation: "square" })).toBe(false)
+        expect(matches(itemOf(120, 100), { orientation: "landscape" })).toBe(true)
+        expect(matches(itemOf(100, 120), { orientation: "portrait" })).toBe(true)
+    })
+
+    it("matches ratios within a small tolerance", () => {
+        expect(matches(itemOf(480, 272), { ratio: 16 / 9 })).toBe(true)
+        expect(matches(itemOf(480, 360), { ratio: 16 / 9 })).toBe(false)
+    })
+
+    it("compares the minimum width with the largest rendition", () => {
+        expect(matches(itemOf(720, 400), { minWidth: 720 })).toBe(true)
+        expect(matches(itemOf(719, 400), { minWidth: 720 })).toBe(false)
+    })
+
+    it("compares the maximum size with the rendition a click inserts, unknown sizes pass", () => {
+        expect(matches(itemOf(100, 100, { size: 600 * KB }), { maxSize: 500 * KB })).toBe(false)
+        expect(matches(itemOf(100, 100, { size: 400 * KB }), { maxSize: 500 * KB })).toBe(true)
+        expect(matches(itemOf(100, 100, { size: 0 }), { maxSize: 500 * KB })).toBe(true)
+    })
+
+    it("treats memes and static types as stills", () => {
+        expect(matches(itemOf(100, 100), { animation: "animated" })).toBe(true)
+        expect(matches(itemOf(100, 100, { type: "static-meme" }), { animation: "static" })).toBe(true)
+        expect(matches(itemOf(100, 100, { contentType: "memes" }), { animation: "animated" })).toBe(false)
+    })
+})
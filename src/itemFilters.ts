@@ -0,0 +1,135 @@
+import { getContentDimensions, type MediaItem } from "./api"
+import { type BudgetSettings, resolveRendition } from "./budget"
+import { getRendition, type RenditionChoice } from "./renditions"
+
+export type Orientation = "portrait" | "landscape" | "square"
+export type Animation = "animated" | "static"
+
+export const orientations: readonly Orientation[] = ["portrait", "square", "landscape"]
+export const animations: readonly Animation[] = ["animated", "static"]
+
+/**
+ * Filters applied on top of the loaded results. They can be set in the filter bar or typed into the search, null
+ * means any.
+ */
+export interface ItemFilters {
+    orientation: Orientation | null
+    ratio: number | null // Width divided by height
+    minWidth: number | null // Pixels, of the largest rendition
+    maxSize: number | null // Bytes, of the rendition a click would insert
+    animation: Animation | null
+}
+
+export const noFilters: ItemFilters = { orientation: null, ratio: null, minWidth: null, maxSize: null, animation: null }
+
+const KB = 1024
+const MB = 1024 * KB
+
+export const minWidthOptions = [240, 480, 720, 1080]
+export const maxSizeOptions = [250 * KB, 500 * KB, 1 * MB, 2 * MB, 5 * MB]
+
+const squareTolerance = 0.05 // Ratios this close to 1 count as square
+const ratioTolerance = 0.08 // Relative difference allowed when matching a ratio like 16:9
+
+export function hasFilters(filters: ItemFilters) {
+    return Object.values(filters).some(value => value !== null)
+}
+
+// Filters set in the search take precedence over the filter bar
+export function mergeFilters(base: ItemFilters, overrides: Partial<ItemFilters>): ItemFilters {
+    const merged = { ...base }
+
+    for (const [key, value] of Object.entries(overrides) as [keyof ItemFilters, ItemFilters[keyof ItemFilters]][]) {
+        if (value !== null && value !== undefined) Object.assign(merged, { [key]: value })
+    }
+
+    return merged
+}
+
+function orientationOf(ratio: number): Orientation {
+    if (Math.abs(ratio - 1) <= squareTolerance) return "square"
+    return ratio > 1 ? "landscape" : "portrait"
+}
+
+// Memes are stills, and providers mark other stills with a type like "static-meme"
+function isAnimated(item: MediaItem) {
+    return item.contentType !== "memes" && !item.type.toLowerCase().includes("static")
+}
+
+export function matchesFilters(
+    item: MediaItem,
+    filters: ItemFilters,
+    defaultRendition: RenditionChoice,
+    budgetSettings: BudgetSettings
+) {
+    const { width, height } = getContentDimensions(item, "hd")
+    const ratio = height > 0 ? width / height : 1
+
+    if (filters.orientation && orientationOf(ratio) !== filters.orientation) return false
+    if (filters.ratio && Math.abs(ratio / filters.ratio - 1) > ratioTolerance) return false
+    if (filters.minWidth && width < filters.minWidth) return false
+    if (filters.animation && (filters.animation === "animated") !== isAnimated(item)) return false
+
+    if (filters.maxSize) {
+        // Providers report 0 when they don't know the size, those items aren't filtered out
+        const { size } = getRendition(item, resolveRendition(item, defaultRendition, budgetSettings))
+        if (size > filters.maxSize) return false
+    }
+
+    return true
+}
+
+function parseRatio(value: string): number | null {
+    const [width, height] = value.split(/[:x/]/).map(Number)
+    if (width === undefined || !Number.isFinite(width) || width <= 0) return null
+    if (height === undefined) return width
+
+    return Number.isFinite(height) && height > 0 ? width / height : null
+}
+
+// "500kb", "2mb" or "800b", a bare number is in KB
+function parseSize(value: string): number | null {
+    const match = /^(\d+(?:\.\d+)?)(b|kb|mb)?$/.exec(value)
+    if (!match) return null
+
+    const amount = Number(match[1])
+    const unit = match[2] === "b" ? 1 : match[2] === "mb" ? MB : KB
+    return Math.round(amount * unit)
+}
+
+function parseWidth(value: string): number | null {
+    const match = /^(\d+)(px)?$/.exec(value)
+    return match ? Number(match[1]) : null
+}
+
+/**
+ * Splits filters out of a search, like `cat ratio:16:9 max:500kb`. Supported terms are `ratio:16:9` (or `ratio:1.5`),
+ * `is:portrait`, `is:landscape`, `is:square`, `is:animated`, `is:static`, `min:800` for a minimum width in pixels and
+ * `max:500kb` for a maximum file size. Anything else, including terms that don't parse, stays in the query.
+ */
+export function parseQuery(input: string): { query: string; filters: Partial<ItemFilters> } {
+    const filters: Partial<ItemFilters> = {}
+    const words: string[] = []
+
+    for (const word of input.split(/\s+/).filter(Boolean)) {
+        const separator = word.indexOf(":")
+        const key = word.slice(0, separator).toLowerCase()
+        const value = word.slice(separator + 1).toLowerCase()
+
+        if (separator > 0 && key === "ratio" && parseRatio(value) !== null) {
+            filters.ratio = parseRatio(value)
+        } else if (separator > 0 && key === "is" && (orientations as readonly string[]).includes(value)) {
+            filters.orientation = value as Orientation
+        } else if (separator > 0 && key === "is" && (animations as readonly string[]).includes(value)) {
+            filters.animation = value as Animation
+        } else if (separator > 0 && key === "min" && parseWidth(value) !== null) {
+            filters.minWidth = parseWidth(value)
+        } else if (separator > 0 && key === "max" && parseSize(value) !== null) {
+            filters.maxSize = parseSize(value)
+        } else {
+            words.push(word)
+        }
+    }
+
+    return { query: words.join(" "), filters }
+}
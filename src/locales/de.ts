@@ -0,0 +1,270 @@
+import type { Messages } from "./en"
+
+export const de: Messages = {
+    "gifs.label": "GIFs",
+    "gifs.name": "GIF",
+    "gifs.empty": "Keine GIFs gefunden",
+    "stickers.label": "Sticker",
+    "stickers.name": "Sticker",
+    "stickers.empty": "Keine Sticker gefunden",
+    "clips.label": "Clips",
+    "clips.name": "Clip",
+    "clips.empty": "Keine Clips gefunden",
+    "memes.label": "Memes",
+    "memes.name": "Meme",
+    "memes.empty": "Keine Memes gefunden",
+    "emoji.label": "Emoji",
+    "emoji.name": "Emoji",
+    "emoji.empty": "Keine Emoji gefunden",
+
+    "app.contentType": "Inhaltstyp",
+    "app.favorites": "Favoriten",
+    "app.loading": "{type} werden geladen…",
+    "app.results": { one: "{count} Ergebnis", other: "{count} Ergebnisse" },
+    "app.hidden": "{count} durch blockierte Begriffe ausgeblendet ({pages})",
+    "app.hiddenPage": "Seite {page}: {count}",
+    "app.editBlocklist": "Bearbeiten",
+
+    "search.placeholder": "Suchen…",
+    "search.label": "Suchen",
+
+    "browse.categories": "Kategorien",
+    "browse.trending": "Im Trend",
+    "browse.related": "Ähnlich",
+
+    "error.generic": "Inhalte konnten nicht geladen werden",
+    "error.genericDetail": "Etwas ist schiefgelaufen.",
+    "error.network": "Du bist offline",
+    "error.networkDetail": "{provider} ist nicht erreichbar, prüfe deine Verbindung.",
+    "error.auth": "API-Schlüssel nicht akzeptiert",
+    "error.authDetail": "{provider} hat die Anfrage abgelehnt, prüfe den API-Schlüssel in deiner .env-Datei.",
+    "error.rateLimited": "Zu viele Anfragen",
+    "error.rateLimitedDetail": "{provider} bittet darum, vor dem Nachladen zu warten.",
+    "error.server": "{provider} hat Probleme",
+    "error.serverDetail": "Das geht meist schnell vorbei, versuche es gleich noch einmal.",
+    "error.schema": "Unerwartete Antwort",
+    "error.schemaDetail": "{provider} hat Daten geliefert, die das Plugin nicht versteht.",
+    "error.request": "Anfrage fehlgeschlagen",
+    "error.retry": "Erneut versuchen",
+    "error.retryIn": "Erneut versuchen in {seconds} s",
+
+    "provider.unknown": "Unbekannter Inhaltsanbieter „{id}“ in VITE_CONTENT_PROVIDER, er wird ausgelassen",
+    "provider.noApiKey": "Kein API-Schlüssel für {names} gesetzt, übersprungen",
+    "provider.noApiKeyDemo": "Kein API-Schlüssel für {names} gesetzt, Demo-Inhalte werden angezeigt",
+
+    "color.label": "Farbe",
+    "color.matchSelection": "Wie Auswahl",
+    "color.matchSelectionTitle": "Ergebnisse nach den Farben der ausgewählten Ebenen sortieren",
+    "color.noPalette": "Wähle eine Ebene mit Bild oder Füllung, um ihre Farben zu übernehmen",
+    "color.noMatches": "Keine Ergebnisse in dieser Farbe",
+    "color.red": "Rot",
+    "color.orange": "Orange",
+    "color.yellow": "Gelb",
+    "color.green": "Grün",
+    "color.teal": "Petrol",
+    "color.blue": "Blau",
+    "color.purple": "Lila",
+    "color.pink": "Pink",
+    "color.brown": "Braun",
+    "color.black": "Schwarz",
+    "color.gray": "Grau",
+    "color.white": "Weiß",
+
+    "filter.label": "Filter",
+    "filter.portrait": "Hochformat",
+    "filter.landscape": "Querformat",
+    "filter.square": "Quadratisch",
+    "filter.animated": "Animiert",
+    "filter.static": "Statisch",
+    "filter.minWidth": "Mindestbreite",
+    "filter.anyWidth": "Jede Breite",
+    "filter.widthOption": "ab {width}px",
+    "filter.maxSize": "Maximale Größe",
+    "filter.anySize": "Jede Größe",
+    "filter.sizeOption": "≤ {size}",
+    "filter.clear": "Zurücksetzen",
+    "filter.noMatches": "Keine Ergebnisse passen zu den Filtern",
+    "filter.keepSearching": "Weitersuchen",
+    "filter.stopped": "Keine Treffer auf den letzten {count} Seiten",
+
+    "grid.results": "Ergebnisse",
+    "grid.showDetails": "Details anzeigen",
+    "grid.addToSelection": "Zur Auswahl hinzufügen",
+    "grid.removeFromSelection": "Aus Auswahl entfernen",
+    "grid.replaceSelection": { one: "Auswahl ersetzen", other: "{count} ausgewählte Ebenen ersetzen" },
+    "grid.addToCollection": "Zu Sammlung hinzufügen",
+    "grid.addToFavorites": "Zu Favoriten hinzufügen",
+    "grid.removeFromFavorites": "Aus Favoriten entfernen",
+
+    "detail.back": "Zurück",
+    "detail.favorite": "Merken",
+    "detail.unfavorite": "Nicht mehr merken",
+    "detail.renditions": "Varianten",
+    "detail.insert": "Einfügen",
+    "detail.inserting": "Wird eingefügt…",
+    "detail.replace": "Ersetzen",
+    "detail.replacing": "Wird ersetzt…",
+    "detail.replaceTitle": {
+        one: "Bild der ausgewählten Ebene ersetzen",
+        other: "Bild von {count} ausgewählten Ebenen ersetzen",
+    },
+    "detail.tags": "Tags",
+    "detail.moreLikeThis": "Mehr davon",
+
+    "still.title": "Standbild",
+    "still.open": "Standbild…",
+    "still.decoding": "Frames werden dekodiert…",
+    "still.unsupported": "Dieser Browser kann keine animierten Bilder dekodieren",
+    "still.failed": "{type} konnte nicht dekodiert werden",
+    "still.tooLarge": "{type} hat zu viele Frames zum Dekodieren",
+    "still.frame": "Frame {index} von {count}",
+    "still.withAnimated": "Auch animiert einfügen",
+    "still.insert": "Frame einfügen",
+    "still.inserted": "Standbild von {type} eingefügt",
+    "still.layerName": "{name} (Standbild)",
+
+    "editor.title": "Bearbeiten",
+    "editor.open": "Bearbeiten…",
+    "editor.aspect": "Zuschneiden",
+    "editor.original": "Original",
+    "editor.trim": "Kürzen",
+    "editor.start": "Start {frame}",
+    "editor.end": "Ende {frame}",
+    "editor.playback": "Wiedergabe",
+    "editor.forward": "Vorwärts",
+    "editor.reverse": "Rückwärts",
+    "editor.boomerang": "Bumerang",
+    "editor.format": "Format",
+    "editor.encoding": "Wird kodiert…",
+    "editor.details": "{size} · {width}×{height} · {seconds} s",
+    "editor.failed": "Die Bearbeitung konnte nicht kodiert werden",
+    "editor.inserted": "Bearbeitetes {type} eingefügt",
+    "editor.layerName": "{name} (bearbeitet)",
+    "editor.update": "Aktualisieren",
+    "editor.updated": "Bearbeitetes {type} aktualisiert",
+
+    "caption.title": "Beschriftung",
+    "caption.open": "Beschriftung…",
+    "caption.top": "Text oben",
+    "caption.bottom": "Text unten",
+    "caption.font": "Schrift",
+    "caption.color": "Füllung",
+    "caption.stroke": "Kontur",
+    "caption.selected": "Die ausgewählte Ebene ist eine Bearbeitung von „{name}“",
+    "caption.edit": "Beschriftung bearbeiten",
+
+    "favorites.recent": "Zuletzt",
+    "favorites.project": "In diesem Projekt",
+    "favorites.new": "Neu…",
+    "favorites.collectionName": "Name der Sammlung",
+    "favorites.export": "Exportieren",
+    "favorites.import": "Importieren",
+    "favorites.delete": "Löschen",
+    "favorites.noMatches": "Keine gespeicherten Treffer",
+    "favorites.empty": "Markiere Inhalte mit einem Stern, um sie hier zu speichern",
+    "favorites.imported": { one: "{count} Sammlung importiert", other: "{count} Sammlungen importiert" },
+    "favorites.importFailed": "Sammlungen konnten nicht importiert werden",
+    "favorites.saveFailed": "Sammlungen konnten nicht gespeichert werden, der Speicher des Browsers ist möglicherweise voll",
+
+    "recent.noMatches": "Keine passenden Einfügungen",
+    "recent.empty": "Eingefügte Inhalte erscheinen hier",
+    "recent.session": "{size} in dieser Sitzung eingefügt",
+
+    "tray.label": "Ausgewählte Inhalte",
+    "tray.selected": "{count} ausgewählt",
+    "tray.grid": "Raster",
+    "tray.stack": "Stapel",
+    "tray.clear": "Leeren",
+    "tray.insert": "{count} einfügen",
+    "tray.inserting": "Wird eingefügt…",
+    "tray.waiting": "wartet",
+    "tray.insertingItem": "wird eingefügt",
+    "tray.inserted": "eingefügt",
+    "tray.failed": "fehlgeschlagen",
+    "tray.itemStatus": "{name}, {status}",
+    "tray.remove": "{name} entfernen",
+    "tray.removeTitle": "{name} (zum Entfernen klicken)",
+    "tray.removeFailedTitle": "{name} (fehlgeschlagen, zum Entfernen klicken)",
+
+    "insert.inserted": "{type} eingefügt ({rendition})",
+    "insert.insertedShort": "{type} eingefügt",
+    "insert.failed": "{type} konnte nicht eingefügt werden",
+    "insert.replaced": {
+        one: "{count} Ebene durch {type} ersetzt ({rendition})",
+        other: "{count} Ebenen durch {type} ersetzt ({rendition})",
+    },
+    "insert.replacedPartially": "{replaced} von {count} Ebenen ersetzt, {failed} fehlgeschlagen",
+    "insert.batchInserted": { one: "{count} Element eingefügt", other: "{count} Elemente eingefügt" },
+    "insert.batchInsertedPartially": "{inserted} von {count} Elementen eingefügt, {failed} fehlgeschlagen",
+    "insert.swapped": {
+        one: "{count} Ebene auf {rendition} umgestellt",
+        other: "{count} Ebenen auf {rendition} umgestellt",
+    },
+    "insert.swappedPartially": "{swapped} von {count} Ebenen umgestellt, {failed} fehlgeschlagen",
+
+    "project.scanFailed": "Das Projekt konnte nicht durchsucht werden",
+    "project.select": "{name} auswählen",
+    "project.selectFailed": "Ebene konnte nicht ausgewählt werden",
+    "project.swapFrom": "Von Variante",
+    "project.swapTo": "Zu Variante",
+    "project.allRenditions": "Alle Varianten",
+    "project.to": "zu",
+    "project.swap": "{count} umstellen",
+    "project.swapping": "Wird umgestellt…",
+    "project.layers": { one: "{count} Ebene in diesem Projekt", other: "{count} Ebenen in diesem Projekt" },
+    "project.refresh": "Aktualisieren",
+    "project.scanning": "Wird durchsucht…",
+    "project.noMatches": "Keine passenden Ebenen",
+    "project.empty": "Eingefügte Inhalte erscheinen hier",
+
+    "blocklist.title": "Inhaltsfilter",
+    "blocklist.safeSearch": "SafeSearch",
+    "blocklist.terms": "Blockierte Begriffe",
+    "blocklist.description": "Ergebnisse mit einem dieser Wörter im Titel oder in den Tags werden ausgeblendet.",
+    "blocklist.placeholder": "Begriff hinzufügen…",
+    "blocklist.add": "Blockierten Begriff hinzufügen",
+    "blocklist.unblock": "„{term}“ nicht mehr blockieren",
+    "blocklist.export": "Exportieren",
+    "blocklist.import": "Importieren",
+    "blocklist.imported": {
+        one: "Inhaltsfilter mit {count} neuem Begriff importiert",
+        other: "Inhaltsfilter mit {count} neuen Begriffen importiert",
+    },
+    "blocklist.importFailed": "Inhaltsfilter konnte nicht importiert werden",
+
+    "safeSearch.off": "Aus",
+    "safeSearch.low": "Niedrig",
+    "safeSearch.medium": "Mittel",
+    "safeSearch.high": "Hoch",
+
+    "rendition.unknownSize": "Unbekannte Größe",
+    "rendition.insert": "{rendition} einfügen",
+    "rendition.default": "Standardvariante",
+
+    "budget.overLimit": "Dieser Inhalt ist {size} groß und liegt über dem Limit von {limit}",
+    "budget.overLimitMany": "{count} Inhalte liegen über dem Limit von {limit}",
+    "budget.insertAnyway": "Trotzdem einfügen",
+    "budget.sizeBudget": "Größenbudget",
+    "budget.off": "Aus",
+    "budget.pickLargest": "Größte Variante im Budget wählen",
+    "budget.warnAbove": "Warnen ab",
+    "budget.never": "Nie",
+    "budget.session": "In dieser Sitzung eingefügt",
+    "budget.nothingYet": "Noch nichts",
+
+    "menu.safeSearch": "SafeSearch",
+    "menu.blockedTerms": "Blockierte Begriffe…",
+    "menu.language": "Sprache",
+    "menu.automatic": "Automatisch",
+    "menu.demoContent": "Demo-Inhalte",
+    "menu.useDemoContent": "Demo-Inhalte verwenden",
+    "menu.slowNetwork": "Langsames Netzwerk",
+    "menu.failRequests": "Anfragen fehlschlagen lassen",
+    "menu.failNever": "Nie",
+    "menu.failSometimes": "Manchmal",
+    "menu.failAlways": "Immer",
+    "menu.clearRecent": "Zuletzt eingefügte löschen",
+    "menu.clearedRecent": "Zuletzt eingefügte gelöscht",
+    "menu.viewCode": "Code auf GitHub ansehen",
+    "menu.openFailed": "Link konnte nicht geöffnet werden: {url}",
+}
@@ -0,0 +1,276 @@
+// Source strings, every other locale has to translate each of these. `{name}` is replaced by a parameter, messages
+// with a `count` parameter can have a form per plural category.
+export const en = {
+    "gifs.label": "GIFs",
+    "gifs.name": "GIF",
+    "gifs.empty": "No GIFs found",
+    "stickers.label": "Stickers",
+    "stickers.name": "Sticker",
+    "stickers.empty": "No stickers found",
+    "clips.label": "Clips",
+    "clips.name": "Clip",
+    "clips.empty": "No clips found",
+    "memes.label": "Memes",
+    "memes.name": "Meme",
+    "memes.empty": "No memes found",
+    "emoji.label": "Emoji",
+    "emoji.name": "Emoji",
+    "emoji.empty": "No emoji found",
+
+    "app.contentType": "Content type",
+    "app.favorites": "Favorites",
+    "app.loading": "Loading {type}…",
+    "app.results": { one: "{count} result", other: "{count} results" },
+    "app.hidden": "{count} hidden by blocked terms ({pages})",
+    "app.hiddenPage": "page {page}: {count}",
+    "app.editBlocklist": "Edit",
+
+    "search.placeholder": "Search…",
+    "search.label": "Search",
+
+    "browse.categories": "Categories",
+    "browse.trending": "Trending",
+    "browse.related": "Related",
+
+    "error.generic": "Could not load content",
+    "error.genericDetail": "Something went wrong.",
+    "error.network": "You're offline",
+    "error.networkDetail": "Could not reach {provider}, check your connection.",
+    "error.auth": "API key not accepted",
+    "error.authDetail": "{provider} rejected the request, check the API key in your .env file.",
+    "error.rateLimited": "Too many requests",
+    "error.rateLimitedDetail": "{provider} asked to wait before loading more.",
+    "error.server": "{provider} is having problems",
+    "error.serverDetail": "This usually passes quickly, try again in a moment.",
+    "error.schema": "Unexpected response",
+    "error.schemaDetail": "{provider} returned data the plugin doesn't understand.",
+    "error.request": "Request failed",
+    "error.retry": "Try again",
+    "error.retryIn": "Try again in {seconds}s",
+
+    "provider.unknown": "Unknown content provider “{id}” in VITE_CONTENT_PROVIDER, it's left out",
+    "provider.noApiKey": "No API key set for {names}, skipped",
+    "provider.noApiKeyDemo": "No API key set for {names}, showing demo content",
+
+    "color.label": "Color",
+    "color.matchSelection": "Match selection",
+    "color.matchSelectionTitle": "Rank results by the colors of the selected layers",
+    "color.noPalette": "Select a layer with an image or fill to match its colors",
+    "color.noMatches": "No results in this color",
+    "color.red": "Red",
+    "color.orange": "Orange",
+    "color.yellow": "Yellow",
+    "color.green": "Green",
+    "color.teal": "Teal",
+    "color.blue": "Blue",
+    "color.purple": "Purple",
+    "color.pink": "Pink",
+    "color.brown": "Brown",
+    "color.black": "Black",
+    "color.gray": "Gray",
+    "color.white": "White",
+
+    "filter.label": "Filter",
+    "filter.portrait": "Portrait",
+    "filter.landscape": "Landscape",
+    "filter.square": "Square",
+    "filter.animated": "Animated",
+    "filter.static": "Static",
+    "filter.minWidth": "Min width",
+    "filter.anyWidth": "Any width",
+    "filter.widthOption": "{width}px+",
+    "filter.maxSize": "Max size",
+    "filter.anySize": "Any size",
+    "filter.sizeOption": "≤ {size}",
+    "filter.clear": "Clear",
+    "filter.noMatches": "No results match the filters",
+    "filter.keepSearching": "Keep searching",
+    "filter.stopped": "No matches in the last {count} pages",
+
+    "grid.results": "Results",
+    "grid.showDetails": "Show Details",
+    "grid.addToSelection": "Add to Selection",
+    "grid.removeFromSelection": "Remove from Selection",
+    "grid.replaceSelection": { one: "Replace Selection", other: "Replace {count} Selected Layers" },
+    "grid.addToCollection": "Add to Collection",
+    "grid.addToFavorites": "Add to Favorites",
+    "grid.removeFromFavorites": "Remove from Favorites",
+
+    "detail.back": "Back",
+    "detail.favorite": "Favorite",
+    "detail.unfavorite": "Unfavorite",
+    "detail.renditions": "Renditions",
+    "detail.insert": "Insert",
+    "detail.inserting": "Inserting…",
+    "detail.replace": "Replace",
+    "detail.replacing": "Replacing…",
+    "detail.replaceTitle": {
+        one: "Replace the selected layer's image",
+        other: "Replace the image of {count} selected layers",
+    },
+    "detail.tags": "Tags",
+    "detail.moreLikeThis": "More like this",
+
+    "still.title": "Still frame",
+    "still.open": "Still frame…",
+    "still.decoding": "Decoding frames…",
+    "still.unsupported": "This browser can't decode animated images",
+    "still.failed": "Couldn't decode the {type}",
+    "still.tooLarge": "This {type} has too many frames to decode",
+    "still.frame": "Frame {index} of {count}",
+    "still.withAnimated": "Also insert animated",
+    "still.insert": "Insert frame",
+    "still.inserted": "Inserted a still frame of the {type}",
+    "still.layerName": "{name} (still)",
+
+    "editor.title": "Edit",
+    "editor.open": "Edit…",
+    "editor.aspect": "Crop",
+    "editor.original": "Original",
+    "editor.trim": "Trim",
+    "editor.start": "Start {frame}",
+    "editor.end": "End {frame}",
+    "editor.playback": "Playback",
+    "editor.forward": "Forward",
+    "editor.reverse": "Reverse",
+    "editor.boomerang": "Boomerang",
+    "editor.format": "Format",
+    "editor.encoding": "Encoding…",
+    "editor.details": "{size} · {width}×{height} · {seconds}s",
+    "editor.failed": "Couldn't encode the edit",
+    "editor.inserted": "Inserted edited {type}",
+    "editor.layerName": "{name} (edited)",
+    "editor.update": "Update",
+    "editor.updated": "Updated the edited {type}",
+
+    "caption.title": "Caption",
+    "caption.open": "Caption…",
+    "caption.top": "Top text",
+    "caption.bottom": "Bottom text",
+    "caption.font": "Font",
+    "caption.color": "Fill",
+    "caption.stroke": "Outline",
+    "caption.selected": "Selected layer is an edit of “{name}”",
+    "caption.edit": "Edit caption",
+
+    "favorites.recent": "Recent",
+    "favorites.project": "In this project",
+    "favorites.new": "New…",
+    "favorites.collectionName": "Collection name",
+    "favorites.export": "Export",
+    "favorites.import": "Import",
+    "favorites.delete": "Delete",
+    "favorites.noMatches": "No saved items match",
+    "favorites.empty": "Star items to save them here",
+    "favorites.imported": { one: "Imported {count} collection", other: "Imported {count} collections" },
+    "favorites.importFailed": "Failed to import collections",
+    "favorites.saveFailed": "Couldn't save collections, the browser's storage may be full",
+
+    "recent.noMatches": "No recent inserts match",
+    "recent.empty": "Inserted items show up here",
+    "recent.session": "{size} inserted this session",
+
+    "tray.label": "Selected items",
+    "tray.selected": "{count} selected",
+    "tray.grid": "Grid",
+    "tray.stack": "Stack",
+    "tray.clear": "Clear",
+    "tray.insert": "Insert {count}",
+    "tray.inserting": "Inserting…",
+    "tray.waiting": "waiting",
+    "tray.insertingItem": "inserting",
+    "tray.inserted": "inserted",
+    "tray.failed": "failed",
+    "tray.itemStatus": "{name}, {status}",
+    "tray.remove": "Remove {name}",
+    "tray.removeTitle": "{name} (click to remove)",
+    "tray.removeFailedTitle": "{name} (failed, click to remove)",
+
+    "insert.inserted": "Inserted {type} ({rendition})",
+    "insert.insertedShort": "Inserted {type}",
+    "insert.failed": "Failed to insert {type}",
+    "insert.replaced": {
+        one: "Replaced {count} layer with {type} ({rendition})",
+        other: "Replaced {count} layers with {type} ({rendition})",
+    },
+    "insert.replacedPartially": "Replaced {replaced} of {count} layers, {failed} failed",
+    "insert.batchInserted": { one: "Inserted {count} item", other: "Inserted {count} items" },
+    "insert.batchInsertedPartially": "Inserted {inserted} of {count} items, {failed} failed",
+    "insert.swapped": {
+        one: "Swapped {count} layer to {rendition}",
+        other: "Swapped {count} layers to {rendition}",
+    },
+    "insert.swappedPartially": "Swapped {swapped} of {count} layers, {failed} failed",
+
+    "project.scanFailed": "Could not scan the project",
+    "project.select": "Select {name}",
+    "project.selectFailed": "Layer could not be selected",
+    "project.swapFrom": "Swap from rendition",
+    "project.swapTo": "Swap to rendition",
+    "project.allRenditions": "All renditions",
+    "project.to": "to",
+    "project.swap": "Swap {count}",
+    "project.swapping": "Swapping…",
+    "project.layers": { one: "{count} layer in this project", other: "{count} layers in this project" },
+    "project.refresh": "Refresh",
+    "project.scanning": "Scanning…",
+    "project.noMatches": "No layers match",
+    "project.empty": "Inserted items show up here",
+
+    "blocklist.title": "Content filter",
+    "blocklist.safeSearch": "Safe search",
+    "blocklist.terms": "Blocked terms",
+    "blocklist.description": "Results with one of these words in their title or tags are hidden.",
+    "blocklist.placeholder": "Add a term…",
+    "blocklist.add": "Add a blocked term",
+    "blocklist.unblock": "Unblock \"{term}\"",
+    "blocklist.export": "Export",
+    "blocklist.import": "Import",
+    "blocklist.imported": {
+        one: "Imported content filter with {count} new term",
+        other: "Imported content filter with {count} new terms",
+    },
+    "blocklist.importFailed": "Failed to import content filter",
+
+    "safeSearch.off": "Off",
+    "safeSearch.low": "Low",
+    "safeSearch.medium": "Medium",
+    "safeSearch.high": "High",
+
+    "rendition.unknownSize": "Unknown size",
+    "rendition.insert": "Insert {rendition}",
+    "rendition.default": "Default Rendition",
+
+    "budget.overLimit": "This item is {size}, above the {limit} limit",
+    "budget.overLimitMany": "{count} items are above the {limit} limit",
+    "budget.insertAnyway": "Insert Anyway",
+    "budget.sizeBudget": "Size Budget",
+    "budget.off": "Off",
+    "budget.pickLargest": "Pick Largest Rendition Under Budget",
+    "budget.warnAbove": "Warn Above",
+    "budget.never": "Never",
+    "budget.session": "Inserted This Session",
+    "budget.nothingYet": "Nothing yet",
+
+    "menu.safeSearch": "Safe Search",
+    "menu.blockedTerms": "Blocked Terms…",
+    "menu.language": "Language",
+    "menu.automatic": "Automatic",
+    "menu.demoContent": "Demo Content",
+    "menu.useDemoContent": "Use Demo Content",
+    "menu.slowNetwork": "Slow Network",
+    "menu.failRequests": "Fail Requests",
+    "menu.failNever": "Never",
+    "menu.failSometimes": "Sometimes",
+    "menu.failAlways": "Always",
+    "menu.clearRecent": "Clear Recent Inserts",
+    "menu.clearedRecent": "Cleared recent inserts",
+    "menu.viewCode": "View Code on GitHub",
+    "menu.openFailed": "Failed to open link: {url}",
+} satisfies Record<string, Message>
+
+export type Message = string | { one?: string; other: string }
+
+export type MessageKey = keyof typeof en
+
+export type Messages = Record<MessageKey, Message>
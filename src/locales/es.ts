@@ -0,0 +1,270 @@
+import type { Messages } from "./en"
+
+export const es: Messages = {
+    "gifs.label": "GIFs",
+    "gifs.name": "GIF",
+    "gifs.empty": "No se encontraron GIFs",
+    "stickers.label": "Stickers",
+    "stickers.name": "Sticker",
+    "stickers.empty": "No se encontraron stickers",
+    "clips.label": "Clips",
+    "clips.name": "Clip",
+    "clips.empty": "No se encontraron clips",
+    "memes.label": "Memes",
+    "memes.name": "Meme",
+    "memes.empty": "No se encontraron memes",
+    "emoji.label": "Emoji",
+    "emoji.name": "Emoji",
+    "emoji.empty": "No se encontraron emoji",
+
+    "app.contentType": "Tipo de contenido",
+    "app.favorites": "Favoritos",
+    "app.loading": "Cargando {type}…",
+    "app.results": { one: "{count} resultado", other: "{count} resultados" },
+    "app.hidden": "{count} ocultos por términos bloqueados ({pages})",
+    "app.hiddenPage": "página {page}: {count}",
+    "app.editBlocklist": "Editar",
+
+    "search.placeholder": "Buscar…",
+    "search.label": "Buscar",
+
+    "browse.categories": "Categorías",
+    "browse.trending": "Tendencias",
+    "browse.related": "Relacionado",
+
+    "error.generic": "No se pudo cargar el contenido",
+    "error.genericDetail": "Algo salió mal.",
+    "error.network": "Estás sin conexión",
+    "error.networkDetail": "No se pudo conectar con {provider}, revisa tu conexión.",
+    "error.auth": "Clave de API no aceptada",
+    "error.authDetail": "{provider} rechazó la solicitud, revisa la clave de API en tu archivo .env.",
+    "error.rateLimited": "Demasiadas solicitudes",
+    "error.rateLimitedDetail": "{provider} pidió esperar antes de cargar más.",
+    "error.server": "{provider} tiene problemas",
+    "error.serverDetail": "Suele pasar pronto, vuelve a intentarlo en un momento.",
+    "error.schema": "Respuesta inesperada",
+    "error.schemaDetail": "{provider} devolvió datos que el plugin no entiende.",
+    "error.request": "La solicitud falló",
+    "error.retry": "Reintentar",
+    "error.retryIn": "Reintentar en {seconds} s",
+
+    "provider.unknown": "Proveedor de contenido desconocido «{id}» en VITE_CONTENT_PROVIDER, se omite",
+    "provider.noApiKey": "No hay clave de API para {names}, se omite",
+    "provider.noApiKeyDemo": "No hay clave de API para {names}, se muestra contenido de demostración",
+
+    "color.label": "Color",
+    "color.matchSelection": "Como la selección",
+    "color.matchSelectionTitle": "Ordenar los resultados por los colores de las capas seleccionadas",
+    "color.noPalette": "Selecciona una capa con imagen o relleno para usar sus colores",
+    "color.noMatches": "No hay resultados en este color",
+    "color.red": "Rojo",
+    "color.orange": "Naranja",
+    "color.yellow": "Amarillo",
+    "color.green": "Verde",
+    "color.teal": "Verde azulado",
+    "color.blue": "Azul",
+    "color.purple": "Morado",
+    "color.pink": "Rosa",
+    "color.brown": "Marrón",
+    "color.black": "Negro",
+    "color.gray": "Gris",
+    "color.white": "Blanco",
+
+    "filter.label": "Filtro",
+    "filter.portrait": "Vertical",
+    "filter.landscape": "Horizontal",
+    "filter.square": "Cuadrado",
+    "filter.animated": "Animado",
+    "filter.static": "Estático",
+    "filter.minWidth": "Ancho mínimo",
+    "filter.anyWidth": "Cualquier ancho",
+    "filter.widthOption": "{width}px o más",
+    "filter.maxSize": "Tamaño máximo",
+    "filter.anySize": "Cualquier tamaño",
+    "filter.sizeOption": "≤ {size}",
+    "filter.clear": "Borrar",
+    "filter.noMatches": "Ningún resultado coincide con los filtros",
+    "filter.keepSearching": "Seguir buscando",
+    "filter.stopped": "Sin coincidencias en las últimas {count} páginas",
+
+    "grid.results": "Resultados",
+    "grid.showDetails": "Ver detalles",
+    "grid.addToSelection": "Añadir a la selección",
+    "grid.removeFromSelection": "Quitar de la selección",
+    "grid.replaceSelection": { one: "Reemplazar selección", other: "Reemplazar {count} capas seleccionadas" },
+    "grid.addToCollection": "Añadir a colección",
+    "grid.addToFavorites": "Añadir a favoritos",
+    "grid.removeFromFavorites": "Quitar de favoritos",
+
+    "detail.back": "Atrás",
+    "detail.favorite": "Favorito",
+    "detail.unfavorite": "Quitar favorito",
+    "detail.renditions": "Versiones",
+    "detail.insert": "Insertar",
+    "detail.inserting": "Insertando…",
+    "detail.replace": "Reemplazar",
+    "detail.replacing": "Reemplazando…",
+    "detail.replaceTitle": {
+        one: "Reemplazar la imagen de la capa seleccionada",
+        other: "Reemplazar la imagen de {count} capas seleccionadas",
+    },
+    "detail.tags": "Etiquetas",
+    "detail.moreLikeThis": "Más como este",
+
+    "still.title": "Fotograma fijo",
+    "still.open": "Fotograma fijo…",
+    "still.decoding": "Decodificando fotogramas…",
+    "still.unsupported": "Este navegador no puede decodificar imágenes animadas",
+    "still.failed": "No se pudo decodificar el {type}",
+    "still.tooLarge": "El {type} tiene demasiados fotogramas para decodificarlo",
+    "still.frame": "Fotograma {index} de {count}",
+    "still.withAnimated": "Insertar también animado",
+    "still.insert": "Insertar fotograma",
+    "still.inserted": "Fotograma fijo del {type} insertado",
+    "still.layerName": "{name} (fijo)",
+
+    "editor.title": "Editar",
+    "editor.open": "Editar…",
+    "editor.aspect": "Recortar",
+    "editor.original": "Original",
+    "editor.trim": "Acortar",
+    "editor.start": "Inicio {frame}",
+    "editor.end": "Fin {frame}",
+    "editor.playback": "Reproducción",
+    "editor.forward": "Normal",
+    "editor.reverse": "Invertida",
+    "editor.boomerang": "Bumerán",
+    "editor.format": "Formato",
+    "editor.encoding": "Codificando…",
+    "editor.details": "{size} · {width}×{height} · {seconds} s",
+    "editor.failed": "No se pudo codificar la edición",
+    "editor.inserted": "{type} editado insertado",
+    "editor.layerName": "{name} (editado)",
+    "editor.update": "Actualizar",
+    "editor.updated": "{type} editado actualizado",
+
+    "caption.title": "Texto",
+    "caption.open": "Texto…",
+    "caption.top": "Texto superior",
+    "caption.bottom": "Texto inferior",
+    "caption.font": "Fuente",
+    "caption.color": "Relleno",
+    "caption.stroke": "Contorno",
+    "caption.selected": "La capa seleccionada es una edición de «{name}»",
+    "caption.edit": "Editar texto",
+
+    "favorites.recent": "Recientes",
+    "favorites.project": "En este proyecto",
+    "favorites.new": "Nueva…",
+    "favorites.collectionName": "Nombre de la colección",
+    "favorites.export": "Exportar",
+    "favorites.import": "Importar",
+    "favorites.delete": "Eliminar",
+    "favorites.noMatches": "Ningún elemento guardado coincide",
+    "favorites.empty": "Marca elementos con una estrella para guardarlos aquí",
+    "favorites.imported": { one: "{count} colección importada", other: "{count} colecciones importadas" },
+    "favorites.importFailed": "No se pudieron importar las colecciones",
+    "favorites.saveFailed": "No se pudieron guardar las colecciones, es posible que el almacenamiento del navegador esté lleno",
+
+    "recent.noMatches": "Ninguna inserción reciente coincide",
+    "recent.empty": "Los elementos insertados aparecen aquí",
+    "recent.session": "{size} insertados en esta sesión",
+
+    "tray.label": "Elementos seleccionados",
+    "tray.selected": { one: "{count} seleccionado", other: "{count} seleccionados" },
+    "tray.grid": "Cuadrícula",
+    "tray.stack": "Pila",
+    "tray.clear": "Vaciar",
+    "tray.insert": "Insertar {count}",
+    "tray.inserting": "Insertando…",
+    "tray.waiting": "en espera",
+    "tray.insertingItem": "insertando",
+    "tray.inserted": "insertado",
+    "tray.failed": "falló",
+    "tray.itemStatus": "{name}, {status}",
+    "tray.remove": "Quitar {name}",
+    "tray.removeTitle": "{name} (haz clic para quitar)",
+    "tray.removeFailedTitle": "{name} (falló, haz clic para quitar)",
+
+    "insert.inserted": "{type} insertado ({rendition})",
+    "insert.insertedShort": "{type} insertado",
+    "insert.failed": "No se pudo insertar {type}",
+    "insert.replaced": {
+        one: "{count} capa reemplazada por {type} ({rendition})",
+        other: "{count} capas reemplazadas por {type} ({rendition})",
+    },
+    "insert.replacedPartially": "{replaced} de {count} capas reemplazadas, {failed} fallaron",
+    "insert.batchInserted": { one: "{count} elemento insertado", other: "{count} elementos insertados" },
+    "insert.batchInsertedPartially": "{inserted} de {count} elementos insertados, {failed} fallaron",
+    "insert.swapped": {
+        one: "{count} capa cambiada a {rendition}",
+        other: "{count} capas cambiadas a {rendition}",
+    },
+    "insert.swappedPartially": "{swapped} de {count} capas cambiadas, {failed} fallaron",
+
+    "project.scanFailed": "No se pudo analizar el proyecto",
+    "project.select": "Seleccionar {name}",
+    "project.selectFailed": "No se pudo seleccionar la capa",
+    "project.swapFrom": "Cambiar desde la versión",
+    "project.swapTo": "Cambiar a la versión",
+    "project.allRenditions": "Todas las versiones",
+    "project.to": "a",
+    "project.swap": "Cambiar {count}",
+    "project.swapping": "Cambiando…",
+    "project.layers": { one: "{count} capa en este proyecto", other: "{count} capas en este proyecto" },
+    "project.refresh": "Actualizar",
+    "project.scanning": "Analizando…",
+    "project.noMatches": "Ninguna capa coincide",
+    "project.empty": "Los elementos insertados aparecen aquí",
+
+    "blocklist.title": "Filtro de contenido",
+    "blocklist.safeSearch": "Búsqueda segura",
+    "blocklist.terms": "Términos bloqueados",
+    "blocklist.description": "Se ocultan los resultados con alguna de estas palabras en el título o las etiquetas.",
+    "blocklist.placeholder": "Añadir un término…",
+    "blocklist.add": "Añadir un término bloqueado",
+    "blocklist.unblock": "Desbloquear «{term}»",
+    "blocklist.export": "Exportar",
+    "blocklist.import": "Importar",
+    "blocklist.imported": {
+        one: "Filtro de contenido importado con {count} término nuevo",
+        other: "Filtro de contenido importado con {count} términos nuevos",
+    },
+    "blocklist.importFailed": "No se pudo importar el filtro de contenido",
+
+    "safeSearch.off": "Desactivada",
+    "safeSearch.low": "Baja",
+    "safeSearch.medium": "Media",
+    "safeSearch.high": "Alta",
+
+    "rendition.unknownSize": "Tamaño desconocido",
+    "rendition.insert": "Insertar {rendition}",
+    "rendition.default": "Versión predeterminada",
+
+    "budget.overLimit": "Este elemento ocupa {size}, por encima del límite de {limit}",
+    "budget.overLimitMany": "{count} elementos superan el límite de {limit}",
+    "budget.insertAnyway": "Insertar de todos modos",
+    "budget.sizeBudget": "Presupuesto de tamaño",
+    "budget.off": "Desactivado",
+    "budget.pickLargest": "Elegir la versión más grande dentro del presupuesto",
+    "budget.warnAbove": "Avisar a partir de",
+    "budget.never": "Nunca",
+    "budget.session": "Insertado en esta sesión",
+    "budget.nothingYet": "Nada todavía",
+
+    "menu.safeSearch": "Búsqueda segura",
+    "menu.blockedTerms": "Términos bloqueados…",
+    "menu.language": "Idioma",
+    "menu.automatic": "Automático",
+    "menu.demoContent": "Contenido de demostración",
+    "menu.useDemoContent": "Usar contenido de demostración",
+    "menu.slowNetwork": "Red lenta",
+    "menu.failRequests": "Hacer fallar las solicitudes",
+    "menu.failNever": "Nunca",
+    "menu.failSometimes": "A veces",
+    "menu.failAlways": "Siempre",
+    "menu.clearRecent": "Borrar inserciones recientes",
+    "menu.clearedRecent": "Inserciones recientes borradas",
+    "menu.viewCode": "Ver el código en GitHub",
+    "menu.openFailed": "No se pudo abrir el enlace: {url}",
+}
@@ -0,0 +1,270 @@
+import type { Messages } from "./en"
+
+export const fr: Messages = {
+    "gifs.label": "GIF",
+    "gifs.name": "GIF",
+    "gifs.empty": "Aucun GIF trouvé",
+    "stickers.label": "Stickers",
+    "stickers.name": "Sticker",
+    "stickers.empty": "Aucun sticker trouvé",
+    "clips.label": "Clips",
+    "clips.name": "Clip",
+    "clips.empty": "Aucun clip trouvé",
+    "memes.label": "Mèmes",
+    "memes.name": "Mème",
+    "memes.empty": "Aucun mème trouvé",
+    "emoji.label": "Emoji",
+    "emoji.name": "Emoji",
+    "emoji.empty": "Aucun emoji trouvé",
+
+    "app.contentType": "Type de contenu",
+    "app.favorites": "Favoris",
+    "app.loading": "Chargement des {type}…",
+    "app.results": { one: "{count} résultat", other: "{count} résultats" },
+    "app.hidden": "{count} masqués par des termes bloqués ({pages})",
+    "app.hiddenPage": "page {page} : {count}",
+    "app.editBlocklist": "Modifier",
+
+    "search.placeholder": "Rechercher…",
+    "search.label": "Rechercher",
+
+    "browse.categories": "Catégories",
+    "browse.trending": "Tendances",
+    "browse.related": "Similaires",
+
+    "error.generic": "Impossible de charger le contenu",
+    "error.genericDetail": "Une erreur s'est produite.",
+    "error.network": "Vous êtes hors ligne",
+    "error.networkDetail": "Impossible de joindre {provider}, vérifiez votre connexion.",
+    "error.auth": "Clé d'API refusée",
+    "error.authDetail": "{provider} a refusé la requête, vérifiez la clé d'API dans votre fichier .env.",
+    "error.rateLimited": "Trop de requêtes",
+    "error.rateLimitedDetail": "{provider} demande d'attendre avant de charger la suite.",
+    "error.server": "{provider} rencontre des problèmes",
+    "error.serverDetail": "Cela passe généralement vite, réessayez dans un instant.",
+    "error.schema": "Réponse inattendue",
+    "error.schemaDetail": "{provider} a renvoyé des données que le plugin ne comprend pas.",
+    "error.request": "La requête a échoué",
+    "error.retry": "Réessayer",
+    "error.retryIn": "Réessayer dans {seconds} s",
+
+    "provider.unknown": "Fournisseur de contenu inconnu « {id} » dans VITE_CONTENT_PROVIDER, il est ignoré",
+    "provider.noApiKey": "Aucune clé API définie pour {names}, ignoré",
+    "provider.noApiKeyDemo": "Aucune clé API définie pour {names}, affichage du contenu de démonstration",
+
+    "color.label": "Couleur",
+    "color.matchSelection": "Comme la sélection",
+    "color.matchSelectionTitle": "Classer les résultats selon les couleurs des calques sélectionnés",
+    "color.noPalette": "Sélectionnez un calque avec une image ou un remplissage pour reprendre ses couleurs",
+    "color.noMatches": "Aucun résultat dans cette couleur",
+    "color.red": "Rouge",
+    "color.orange": "Orange",
+    "color.yellow": "Jaune",
+    "color.green": "Vert",
+    "color.teal": "Bleu canard",
+    "color.blue": "Bleu",
+    "color.purple": "Violet",
+    "color.pink": "Rose",
+    "color.brown": "Marron",
+    "color.black": "Noir",
+    "color.gray": "Gris",
+    "color.white": "Blanc",
+
+    "filter.label": "Filtre",
+    "filter.portrait": "Portrait",
+    "filter.landscape": "Paysage",
+    "filter.square": "Carré",
+    "filter.animated": "Animé",
+    "filter.static": "Statique",
+    "filter.minWidth": "Largeur min.",
+    "filter.anyWidth": "Toute largeur",
+    "filter.widthOption": "{width}px et plus",
+    "filter.maxSize": "Taille max.",
+    "filter.anySize": "Toute taille",
+    "filter.sizeOption": "≤ {size}",
+    "filter.clear": "Effacer",
+    "filter.noMatches": "Aucun résultat ne correspond aux filtres",
+    "filter.keepSearching": "Continuer la recherche",
+    "filter.stopped": "Aucune correspondance dans les {count} dernières pages",
+
+    "grid.results": "Résultats",
+    "grid.showDetails": "Afficher les détails",
+    "grid.addToSelection": "Ajouter à la sélection",
+    "grid.removeFromSelection": "Retirer de la sélection",
+    "grid.replaceSelection": { one: "Remplacer la sélection", other: "Remplacer {count} calques sélectionnés" },
+    "grid.addToCollection": "Ajouter à une collection",
+    "grid.addToFavorites": "Ajouter aux favoris",
+    "grid.removeFromFavorites": "Retirer des favoris",
+
+    "detail.back": "Retour",
+    "detail.favorite": "Favori",
+    "detail.unfavorite": "Retirer des favoris",
+    "detail.renditions": "Versions",
+    "detail.insert": "Insérer",
+    "detail.inserting": "Insertion…",
+    "detail.replace": "Remplacer",
+    "detail.replacing": "Remplacement…",
+    "detail.replaceTitle": {
+        one: "Remplacer l'image du calque sélectionné",
+        other: "Remplacer l'image de {count} calques sélectionnés",
+    },
+    "detail.tags": "Tags",
+    "detail.moreLikeThis": "Dans le même style",
+
+    "still.title": "Image fixe",
+    "still.open": "Image fixe…",
+    "still.decoding": "Décodage des images…",
+    "still.unsupported": "Ce navigateur ne peut pas décoder les images animées",
+    "still.failed": "Impossible de décoder le {type}",
+    "still.tooLarge": "Le {type} a trop d'images pour être décodé",
+    "still.frame": "Image {index} sur {count}",
+    "still.withAnimated": "Insérer aussi l'animation",
+    "still.insert": "Insérer l'image",
+    "still.inserted": "Image fixe du {type} insérée",
+    "still.layerName": "{name} (fixe)",
+
+    "editor.title": "Modifier",
+    "editor.open": "Modifier…",
+    "editor.aspect": "Recadrer",
+    "editor.original": "Original",
+    "editor.trim": "Couper",
+    "editor.start": "Début {frame}",
+    "editor.end": "Fin {frame}",
+    "editor.playback": "Lecture",
+    "editor.forward": "Normale",
+    "editor.reverse": "Inversée",
+    "editor.boomerang": "Boomerang",
+    "editor.format": "Format",
+    "editor.encoding": "Encodage…",
+    "editor.details": "{size} · {width}×{height} · {seconds} s",
+    "editor.failed": "Impossible d'encoder la modification",
+    "editor.inserted": "{type} modifié inséré",
+    "editor.layerName": "{name} (modifié)",
+    "editor.update": "Mettre à jour",
+    "editor.updated": "{type} modifié mis à jour",
+
+    "caption.title": "Légende",
+    "caption.open": "Légende…",
+    "caption.top": "Texte du haut",
+    "caption.bottom": "Texte du bas",
+    "caption.font": "Police",
+    "caption.color": "Remplissage",
+    "caption.stroke": "Contour",
+    "caption.selected": "Le calque sélectionné est une modification de « {name} »",
+    "caption.edit": "Modifier la légende",
+
+    "favorites.recent": "Récents",
+    "favorites.project": "Dans ce projet",
+    "favorites.new": "Nouvelle…",
+    "favorites.collectionName": "Nom de la collection",
+    "favorites.export": "Exporter",
+    "favorites.import": "Importer",
+    "favorites.delete": "Supprimer",
+    "favorites.noMatches": "Aucun élément enregistré ne correspond",
+    "favorites.empty": "Ajoutez une étoile aux éléments pour les enregistrer ici",
+    "favorites.imported": { one: "{count} collection importée", other: "{count} collections importées" },
+    "favorites.importFailed": "Impossible d'importer les collections",
+    "favorites.saveFailed": "Impossible d'enregistrer les collections, le stockage du navigateur est peut-être plein",
+
+    "recent.noMatches": "Aucune insertion récente ne correspond",
+    "recent.empty": "Les éléments insérés apparaissent ici",
+    "recent.session": "{size} insérés pendant cette session",
+
+    "tray.label": "Éléments sélectionnés",
+    "tray.selected": { one: "{count} sélectionné", other: "{count} sélectionnés" },
+    "tray.grid": "Grille",
+    "tray.stack": "Pile",
+    "tray.clear": "Vider",
+    "tray.insert": "Insérer {count}",
+    "tray.inserting": "Insertion…",
+    "tray.waiting": "en attente",
+    "tray.insertingItem": "insertion",
+    "tray.inserted": "inséré",
+    "tray.failed": "échec",
+    "tray.itemStatus": "{name}, {status}",
+    "tray.remove": "Retirer {name}",
+    "tray.removeTitle": "{name} (cliquer pour retirer)",
+    "tray.removeFailedTitle": "{name} (échec, cliquer pour retirer)",
+
+    "insert.inserted": "{type} inséré ({rendition})",
+    "insert.insertedShort": "{type} inséré",
+    "insert.failed": "Impossible d'insérer le {type}",
+    "insert.replaced": {
+        one: "{count} calque remplacé par {type} ({rendition})",
+        other: "{count} calques remplacés par {type} ({rendition})",
+    },
+    "insert.replacedPartially": "{replaced} calques sur {count} remplacés, {failed} en échec",
+    "insert.batchInserted": { one: "{count} élément inséré", other: "{count} éléments insérés" },
+    "insert.batchInsertedPartially": "{inserted} éléments sur {count} insérés, {failed} en échec",
+    "insert.swapped": {
+        one: "{count} calque passé en {rendition}",
+        other: "{count} calques passés en {rendition}",
+    },
+    "insert.swappedPartially": "{swapped} calques sur {count} changés, {failed} en échec",
+
+    "project.scanFailed": "Impossible d'analyser le projet",
+    "project.select": "Sélectionner {name}",
+    "project.selectFailed": "Impossible de sélectionner le calque",
+    "project.swapFrom": "Changer depuis la version",
+    "project.swapTo": "Changer vers la version",
+    "project.allRenditions": "Toutes les versions",
+    "project.to": "vers",
+    "project.swap": "Changer {count}",
+    "project.swapping": "Changement…",
+    "project.layers": { one: "{count} calque dans ce projet", other: "{count} calques dans ce projet" },
+    "project.refresh": "Actualiser",
+    "project.scanning": "Analyse…",
+    "project.noMatches": "Aucun calque ne correspond",
+    "project.empty": "Les éléments insérés apparaissent ici",
+
+    "blocklist.title": "Filtre de contenu",
+    "blocklist.safeSearch": "Recherche sécurisée",
+    "blocklist.terms": "Termes bloqués",
+    "blocklist.description": "Les résultats contenant l'un de ces mots dans leur titre ou leurs tags sont masqués.",
+    "blocklist.placeholder": "Ajouter un terme…",
+    "blocklist.add": "Ajouter un terme bloqué",
+    "blocklist.unblock": "Débloquer « {term} »",
+    "blocklist.export": "Exporter",
+    "blocklist.import": "Importer",
+    "blocklist.imported": {
+        one: "Filtre de contenu importé avec {count} nouveau terme",
+        other: "Filtre de contenu importé avec {count} nouveaux termes",
+    },
+    "blocklist.importFailed": "Impossible d'importer le filtre de contenu",
+
+    "safeSearch.off": "Désactivée",
+    "safeSearch.low": "Faible",
+    "safeSearch.medium": "Moyenne",
+    "safeSearch.high": "Élevée",
+
+    "rendition.unknownSize": "Taille inconnue",
+    "rendition.insert": "Insérer {rendition}",
+    "rendition.default": "Version par défaut",
+
+    "budget.overLimit": "Cet élément fait {size}, au-dessus de la limite de {limit}",
+    "budget.overLimitMany": "{count} éléments dépassent la limite de {limit}",
+    "budget.insertAnyway": "Insérer quand même",
+    "budget.sizeBudget": "Budget de taille",
+    "budget.off": "Désactivé",
+    "budget.pickLargest": "Choisir la plus grande version dans le budget",
+    "budget.warnAbove": "Avertir au-delà de",
+    "budget.never": "Jamais",
+    "budget.session": "Inséré pendant cette session",
+    "budget.nothingYet": "Rien pour l'instant",
+
+    "menu.safeSearch": "Recherche sécurisée",
+    "menu.blockedTerms": "Termes bloqués…",
+    "menu.language": "Langue",
+    "menu.automatic": "Automatique",
+    "menu.demoContent": "Contenu de démonstration",
+    "menu.useDemoContent": "Utiliser le contenu de démonstration",
+    "menu.slowNetwork": "Réseau lent",
+    "menu.failRequests": "Faire échouer les requêtes",
+    "menu.failNever": "Jamais",
+    "menu.failSometimes": "Parfois",
+    "menu.failAlways": "Toujours",
+    "menu.clearRecent": "Effacer les insertions récentes",
+    "menu.clearedRecent": "Insertions récentes effacées",
+    "menu.viewCode": "Voir le code sur GitHub",
+    "menu.openFailed": "Impossible d'ouvrir le lien : {url}",
+}
@@ -0,0 +1,258 @@
+import type { Messages } from "./en"
+
+export const ja: Messages = {
+    "gifs.label": "GIF",
+    "gifs.name": "GIF",
+    "gifs.empty": "GIF が見つかりません",
+    "stickers.label": "ステッカー",
+    "stickers.name": "ステッカー",
+    "stickers.empty": "ステッカーが見つかりません",
+    "clips.label": "クリップ",
+    "clips.name": "クリップ",
+    "clips.empty": "クリップが見つかりません",
+    "memes.label": "ミーム",
+    "memes.name": "ミーム",
+    "memes.empty": "ミームが見つかりません",
+    "emoji.label": "絵文字",
+    "emoji.name": "絵文字",
+    "emoji.empty": "絵文字が見つかりません",
+
+    "app.contentType": "コンテンツの種類",
+    "app.favorites": "お気に入り",
+    "app.loading": "{type}を読み込み中…",
+    "app.results": { other: "{count} 件の結果" },
+    "app.hidden": "ブロック語句により {count} 件を非表示 ({pages})",
+    "app.hiddenPage": "{page} ページ目: {count}",
+    "app.editBlocklist": "編集",
+
+    "search.placeholder": "検索…",
+    "search.label": "検索",
+
+    "browse.categories": "カテゴリ",
+    "browse.trending": "トレンド",
+    "browse.related": "関連",
+
+    "error.generic": "コンテンツを読み込めませんでした",
+    "error.genericDetail": "問題が発生しました。",
+    "error.network": "オフラインです",
+    "error.networkDetail": "{provider} に接続できません。接続を確認してください。",
+    "error.auth": "API キーが受け付けられませんでした",
+    "error.authDetail": "{provider} がリクエストを拒否しました。.env ファイルの API キーを確認してください。",
+    "error.rateLimited": "リクエストが多すぎます",
+    "error.rateLimitedDetail": "{provider} から、読み込みを続ける前に待つよう求められました。",
+    "error.server": "{provider} で問題が発生しています",
+    "error.serverDetail": "通常はすぐに解消されます。少し待ってから再試行してください。",
+    "error.schema": "予期しない応答",
+    "error.schemaDetail": "{provider} からプラグインが解釈できないデータが返されました。",
+    "error.request": "リクエストに失敗しました",
+    "error.retry": "再試行",
+    "error.retryIn": "{seconds} 秒後に再試行",
+
+    "provider.unknown": "VITE_CONTENT_PROVIDER に不明なコンテンツプロバイダー「{id}」があるため除外しました",
+    "provider.noApiKey": "{names} の API キーが設定されていないため、スキップしました",
+    "provider.noApiKeyDemo": "{names} の API キーが設定されていないため、デモコンテンツを表示しています",
+
+    "color.label": "色",
+    "color.matchSelection": "選択に合わせる",
+    "color.matchSelectionTitle": "選択中のレイヤーの色で結果を並べ替え",
+    "color.noPalette": "色を合わせるには、画像または塗りのあるレイヤーを選択してください",
+    "color.noMatches": "この色の結果はありません",
+    "color.red": "赤",
+    "color.orange": "オレンジ",
+    "color.yellow": "黄",
+    "color.green": "緑",
+    "color.teal": "ティール",
+    "color.blue": "青",
+    "color.purple": "紫",
+    "color.pink": "ピンク",
+    "color.brown": "茶",
+    "color.black": "黒",
+    "color.gray": "グレー",
+    "color.white": "白",
+
+    "filter.label": "フィルター",
+    "filter.portrait": "縦長",
+    "filter.landscape": "横長",
+    "filter.square": "正方形",
+    "filter.animated": "アニメーション",
+    "filter.static": "静止画",
+    "filter.minWidth": "最小幅",
+    "filter.anyWidth": "すべての幅",
+    "filter.widthOption": "{width}px 以上",
+    "filter.maxSize": "最大サイズ",
+    "filter.anySize": "すべてのサイズ",
+    "filter.sizeOption": "{size} 以下",
+    "filter.clear": "クリア",
+    "filter.noMatches": "フィルターに一致する結果はありません",
+    "filter.keepSearching": "検索を続ける",
+    "filter.stopped": "直近 {count} ページに一致する結果はありません",
+
+    "grid.results": "結果",
+    "grid.showDetails": "詳細を表示",
+    "grid.addToSelection": "選択に追加",
+    "grid.removeFromSelection": "選択から削除",
+    "grid.replaceSelection": { other: "選択中の {count} 個のレイヤーを置き換え" },
+    "grid.addToCollection": "コレクションに追加",
+    "grid.addToFavorites": "お気に入りに追加",
+    "grid.removeFromFavorites": "お気に入りから削除",
+
+    "detail.back": "戻る",
+    "detail.favorite": "お気に入り",
+    "detail.unfavorite": "お気に入り解除",
+    "detail.renditions": "バリエーション",
+    "detail.insert": "挿入",
+    "detail.inserting": "挿入中…",
+    "detail.replace": "置き換え",
+    "detail.replacing": "置き換え中…",
+    "detail.replaceTitle": { other: "選択中の {count} 個のレイヤーの画像を置き換え" },
+    "detail.tags": "タグ",
+    "detail.moreLikeThis": "似たコンテンツ",
+
+    "still.title": "静止フレーム",
+    "still.open": "静止フレーム…",
+    "still.decoding": "フレームをデコード中…",
+    "still.unsupported": "このブラウザはアニメーション画像をデコードできません",
+    "still.failed": "{type}をデコードできませんでした",
+    "still.tooLarge": "{type}はフレームが多すぎてデコードできません",
+    "still.frame": "フレーム {index} / {count}",
+    "still.withAnimated": "アニメーションも挿入",
+    "still.insert": "フレームを挿入",
+    "still.inserted": "{type}の静止フレームを挿入しました",
+    "still.layerName": "{name} (静止)",
+
+    "editor.title": "編集",
+    "editor.open": "編集…",
+    "editor.aspect": "切り抜き",
+    "editor.original": "元の比率",
+    "editor.trim": "トリミング",
+    "editor.start": "開始 {frame}",
+    "editor.end": "終了 {frame}",
+    "editor.playback": "再生",
+    "editor.forward": "順再生",
+    "editor.reverse": "逆再生",
+    "editor.boomerang": "ブーメラン",
+    "editor.format": "形式",
+    "editor.encoding": "エンコード中…",
+    "editor.details": "{size} · {width}×{height} · {seconds} 秒",
+    "editor.failed": "編集をエンコードできませんでした",
+    "editor.inserted": "編集した{type}を挿入しました",
+    "editor.layerName": "{name} (編集済み)",
+    "editor.update": "更新",
+    "editor.updated": "編集した{type}を更新しました",
+
+    "caption.title": "キャプション",
+    "caption.open": "キャプション…",
+    "caption.top": "上のテキスト",
+    "caption.bottom": "下のテキスト",
+    "caption.font": "フォント",
+    "caption.color": "塗り",
+    "caption.stroke": "線",
+    "caption.selected": "選択中のレイヤーは「{name}」の編集です",
+    "caption.edit": "キャプションを編集",
+
+    "favorites.recent": "最近",
+    "favorites.project": "このプロジェクト",
+    "favorites.new": "新規…",
+    "favorites.collectionName": "コレクション名",
+    "favorites.export": "書き出し",
+    "favorites.import": "読み込み",
+    "favorites.delete": "削除",
+    "favorites.noMatches": "一致する保存済みアイテムはありません",
+    "favorites.empty": "星を付けたアイテムがここに保存されます",
+    "favorites.imported": { other: "{count} 個のコレクションを読み込みました" },
+    "favorites.importFailed": "コレクションを読み込めませんでした",
+    "favorites.saveFailed": "ブラウザのストレージがいっぱいの可能性があるため、コレクションを保存できませんでした",
+
+    "recent.noMatches": "一致する最近の挿入はありません",
+    "recent.empty": "挿入したアイテムがここに表示されます",
+    "recent.session": "このセッションで {size} を挿入",
+
+    "tray.label": "選択中のアイテム",
+    "tray.selected": "{count} 件を選択中",
+    "tray.grid": "グリッド",
+    "tray.stack": "縦並び",
+    "tray.clear": "クリア",
+    "tray.insert": "{count} 件を挿入",
+    "tray.inserting": "挿入中…",
+    "tray.waiting": "待機中",
+    "tray.insertingItem": "挿入中",
+    "tray.inserted": "挿入済み",
+    "tray.failed": "失敗",
+    "tray.itemStatus": "{name}、{status}",
+    "tray.remove": "{name}を削除",
+    "tray.removeTitle": "{name} (クリックで削除)",
+    "tray.removeFailedTitle": "{name} (失敗、クリックで削除)",
+
+    "insert.inserted": "{type}を挿入しました ({rendition})",
+    "insert.insertedShort": "{type}を挿入しました",
+    "insert.failed": "{type}を挿入できませんでした",
+    "insert.replaced": { other: "{count} 個のレイヤーを{type}に置き換えました ({rendition})" },
+    "insert.replacedPartially": "{count} 個中 {replaced} 個のレイヤーを置き換えました ({failed} 個失敗)",
+    "insert.batchInserted": { other: "{count} 件を挿入しました" },
+    "insert.batchInsertedPartially": "{count} 件中 {inserted} 件を挿入しました ({failed} 件失敗)",
+    "insert.swapped": { other: "{count} 個のレイヤーを {rendition} に切り替えました" },
+    "insert.swappedPartially": "{count} 個中 {swapped} 個のレイヤーを切り替えました ({failed} 個失敗)",
+
+    "project.scanFailed": "プロジェクトをスキャンできませんでした",
+    "project.select": "{name}を選択",
+    "project.selectFailed": "レイヤーを選択できませんでした",
+    "project.swapFrom": "切り替え元のバリエーション",
+    "project.swapTo": "切り替え先のバリエーション",
+    "project.allRenditions": "すべてのバリエーション",
+    "project.to": "→",
+    "project.swap": "{count} 個を切り替え",
+    "project.swapping": "切り替え中…",
+    "project.layers": { other: "このプロジェクトに {count} 個のレイヤー" },
+    "project.refresh": "更新",
+    "project.scanning": "スキャン中…",
+    "project.noMatches": "一致するレイヤーはありません",
+    "project.empty": "挿入したアイテムがここに表示されます",
+
+    "blocklist.title": "コンテンツフィルター",
+    "blocklist.safeSearch": "セーフサーチ",
+    "blocklist.terms": "ブロックする語句",
+    "blocklist.description": "タイトルまたはタグにこれらの語句を含む結果は非表示になります。",
+    "blocklist.placeholder": "語句を追加…",
+    "blocklist.add": "ブロックする語句を追加",
+    "blocklist.unblock": "「{term}」のブロックを解除",
+    "blocklist.export": "書き出し",
+    "blocklist.import": "読み込み",
+    "blocklist.imported": { other: "{count} 個の新しい語句を含むコンテンツフィルターを読み込みました" },
+    "blocklist.importFailed": "コンテンツフィルターを読み込めませんでした",
+
+    "safeSearch.off": "オフ",
+    "safeSearch.low": "低",
+    "safeSearch.medium": "中",
+    "safeSearch.high": "高",
+
+    "rendition.unknownSize": "サイズ不明",
+    "rendition.insert": "{rendition} を挿入",
+    "rendition.default": "デフォルトのバリエーション",
+
+    "budget.overLimit": "このアイテムは {size} で、上限の {limit} を超えています",
+    "budget.overLimitMany": "{count} 件のアイテムが上限の {limit} を超えています",
+    "budget.insertAnyway": "それでも挿入",
+    "budget.sizeBudget": "サイズの目安",
+    "budget.off": "オフ",
+    "budget.pickLargest": "目安内で最大のバリエーションを選ぶ",
+    "budget.warnAbove": "警告する上限",
+    "budget.never": "しない",
+    "budget.session": "このセッションで挿入",
+    "budget.nothingYet": "まだありません",
+
+    "menu.safeSearch": "セーフサーチ",
+    "menu.blockedTerms": "ブロックする語句…",
+    "menu.language": "言語",
+    "menu.automatic": "自動",
+    "menu.demoContent": "デモコンテンツ",
+    "menu.useDemoContent": "デモコンテンツを使用",
+    "menu.slowNetwork": "低速なネットワーク",
+    "menu.failRequests": "リクエストを失敗させる",
+    "menu.failNever": "しない",
+    "menu.failSometimes": "ときどき",
+    "menu.failAlways": "常に",
+    "menu.clearRecent": "最近の挿入を消去",
+    "menu.clearedRecent": "最近の挿入を消去しました",
+    "menu.viewCode": "GitHub でコードを見る",
+    "menu.openFailed": "リンクを開けませんでした: {url}",
+}
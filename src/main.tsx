@@ -3,8 +3,22 @@ import "./App.css";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import React from "react";
 import ReactDOM from "react-dom/client";
-import { App } from "./App.tsx";
+import { LocalizedApp } from "./App.tsx";
 import { framer } from "framer-plugin";
+import { clearRecentInserts } from "./recent";
+import { retryDelay, shouldRetry } from "./retry";
+import { provider, providerWarnings } from "./api";
+import { isDemoContentEnabled, providerWarningMessage, setDemoContentEnabled } from "./providers";
+import { mockMenuItems, subscribeToMockSettings } from "./providers/mock";
+import {
+	budgetMenuItems,
+	getBudgetSettings,
+	getSessionBytes,
+	subscribeToBudgetSettings,
+	subscribeToSessionBytes,
+} from "./budget";
+import { contentFilterMenuItems, getContentFilter, subscribeToContentFilter } from "./contentFilter";
+import { getLocaleOverride, localeMenuItems, subscribeToLocale, t } from "./i18n";
 
 const GITHUB_URL = "https://github.com/madebyisaacr/framer-gifs-plugin";
 
@@ -14,7 +28,8 @@ if (!root) throw new Error("Root element not found");
 const queryClient = new QueryClient({
 	defaultOptions: {
 		queries: {
-			retry: 1,
+			retry: shouldRetry,
+			retryDelay,
 			staleTime: 1000 * 60 * 5,
 			refetchOnWindowFocus: false,
 			throwOnError: true,
@@ -22,24 +37,66 @@ const queryClient = new QueryClient({
 	},
 });
 
-framer.setMenu([
-	{
-		label: "View Code on GitHub",
-		onAction: () => {
-			try {
-				window.open(GITHUB_URL, "_blank");
-			} catch (error) {
-				console.error(error);
-				framer.notify(`Failed to open link: ${GITHUB_URL}`, { variant: "error" });
-			}
+// The menu shows the current size budget, session total, content filter and language, so it is set again whenever they change
+const updateMenu = () => {
+	framer.setMenu([
+		...budgetMenuItems(getBudgetSettings(), getSessionBytes()),
+		{ type: "separator" },
+		...contentFilterMenuItems(getContentFilter()),
+		{ type: "separator" },
+		...localeMenuItems(getLocaleOverride()),
+		{
+			label: t("menu.demoContent"),
+			submenu: [
+				{
+					label: t("menu.useDemoContent"),
+					checked: provider.id === "mock",
+					onAction: () => {
+						// The provider is picked once on load
+						setDemoContentEnabled(!isDemoContentEnabled());
+						window.location.reload();
+					},
+				},
+				...(provider.id === "mock" ? [{ type: "separator" } as const, ...mockMenuItems()] : []),
+			],
 		},
-	},
-]);
+		{
+			label: t("menu.clearRecent"),
+			onAction: () => {
+				clearRecentInserts();
+				framer.notify(t("menu.clearedRecent"), { variant: "success" });
+			},
+		},
+		{ type: "separator" },
+		{
+			label: t("menu.viewCode"),
+			onAction: () => {
+				try {
+					window.open(GITHUB_URL, "_blank");
+				} catch (error) {
+					console.error(error);
+					framer.notify(t("menu.openFailed", { url: GITHUB_URL }), { variant: "error" });
+				}
+			},
+		},
+	]);
+};
+
+for (const warning of providerWarnings) {
+	framer.notify(providerWarningMessage(warning), { variant: "warning" });
+}
+
+updateMenu();
+subscribeToBudgetSettings(updateMenu);
+subscribeToSessionBytes(updateMenu);
+subscribeToMockSettings(updateMenu);
+subscribeToContentFilter(updateMenu);
+subscribeToLocale(updateMenu);
 
 ReactDOM.createRoot(root).render(
 	<React.StrictMode>
 		<QueryClientProvider client={queryClient}>
-			<App />
+			<LocalizedApp />
 		</QueryClientProvider>
 	</React.StrictMode>
 );
@@ -0,0 +1,232 @@
+import { describe, expect, it } from "vitest"
+import {
+    appendItems,
+    createLayout,
+    findAnchor,
+    layoutHeight,
+    type MasonryInput,
+    type MasonryLayout,
+    type MasonryOptions,
+    neighborPosition,
+    updateLayout,
+    visiblePositions,
+} from "./masonry"
+
+// Three columns of 100px with 10px gaps
+const options: MasonryOptions = { containerWidth: 320, minColumnWidth: 100, gap: 10 }
+
+function squares(count: number, prefix = "item"): MasonryInput[] {
+    return Array.from({ length: count }, (_, index) => ({ id: `${prefix}-${index}`, aspectRatio: 1 }))
+}
+
+function layoutOf(items: readonly MasonryInput[], layoutOptions = options) {
+    return appendItems(createLayout(layoutOptions), items)
+}
+
+function ids(positions: readonly { id: string }[]) {
+    return positions.map(position => position.id)
+}
+
+describe("createLayout", () => {
+    it("fits as many columns of the minimum width as the container allows", () => {
+        const layout = createLayout(options)
+
+        expect(layout.columnCount).toBe(3)
+        expect(layout.columnWidth).toBe(100)
+    })
+
+    it("keeps one column when the container is narrower than a column", () => {
+        const layout = createLayout({ ...options, containerWidth: 50 })
+
+        expect(layout.columnCount).toBe(1)
+        expect(layout.columnWidth).toBe(50)
+    })
+})
+
+describe("appendItems", () => {
+    it("places each item in the shortest column", () => {
+        const layout = layoutOf([
+            { id: "tall", aspectRatio: 0.5 },
+            { id: "a", aspectRatio: 1 },
+            { id: "b", aspectRatio: 1 },
+            { id: "c", aspectRatio: 1 },
+        ])
+
+        expect(layout.positions.get("tall")).toMatchObject({ column: 0, x: 0, y: 0, height: 200 })
+        expect(layout.positions.get("a")).toMatchObject({ column: 1, x: 110, y: 0 })
+        expect(layout.positions.get("b")).toMatchObject({ column: 2, x: 220, y: 0 })
+        expect(layout.positions.get("c")).toMatchObject({ column: 1, y: 110 })
+        expect(layout.columnHeights).toEqual([200, 210, 100])
+        expect(layoutHeight(layout)).toBe(210)
+    })
+
+    it("appends without moving items already placed", () => {
+        const first = layoutOf(squares(5))
+        const before = new Map(first.positions)
+        const second = appendItems(first, squares(4, "next"))
+
+        for (const [id, position] of before) expect(second.positions.get(id)).toEqual(position)
+        expect(second.order).toEqual([...first.order, ...ids(squares(4, "next"))])
+    })
+
+    it("leaves the previous layout untouched", () => {
+        const first = layoutOf(squares(2))
+        appendItems(first, squares(3, "next"))
+
+        expect(first.order).toEqual(["item-0", "item-1"])
+        expect(first.positions.size).toBe(2)
+        expect(first.columns.flat()).toHaveLength(2)
+    })
+
+    it("skips duplicates within and across pages", () => {
+        const first = layoutOf([...squares(3), { id: "item-1", aspectRatio: 2 }])
+        const second = appendItems(first, [{ id: "item-2", aspectRatio: 1 }, ...squares(1, "next")])
+
+        expect(first.order).toEqual(["item-0", "item-1", "item-2"])
+        expect(first.positions.get("item-1")?.height).toBe(100)
+        expect(second.order).toEqual(["item-0", "item-1", "item-2", "next-0"])
+        expect(second.columns.flat()).toHaveLength(4)
+    })
+
+    it("treats items without a usable aspect ratio as squares", () => {
+        const layout = layoutOf([{ id: "broken", aspectRatio: 0 }])
+
+        expect(layout.positions.get("broken")?.height).toBe(100)
+    })
+})
+
+describe("updateLayout", () => {
+    it("returns the same layout when nothing changed", () => {
+        const layout = layoutOf(squares(4))
+
+        expect(updateLayout(layout, { ...options }, squares(4))).toBe(layout)
+    })
+
+    it("appends when the list only grew", () => {
+        const layout = layoutOf(squares(4))
+        const updated = updateLayout(layout, options, squares(7))
+
+        expect(updated.order).toEqual(ids(squares(7)))
+        for (const [id, position] of layout.positions) expect(updated.positions.get(id)).toEqual(position)
+    })
+
+    it("lays everything out again when the width changes", () => {
+        const layout = layoutOf(squares(4))
+        const narrow = { ...options, containerWidth: 210 }
+        const updated = updateLayout(layout, narrow, squares(4))
+
+        expect(updated.columnCount).toBe(2)
+        expect(updated.options).toEqual(narrow)
+        expect(updated.positions.get("item-2")).toMatchObject({ column: 0, y: 110 })
+        expect(updated.positions.get("item-3")).toMatchObject({ column: 1, x: 110, y: 110 })
+    })
+
+    it("lays everything out again when items are removed or reordered", () => {
+        const layout = layoutOf(squares(4))
+        const reordered = [...squares(4)].reverse()
+
+        expect(updateLayout(layout, options, reordered).order).toEqual(ids(reordered))
+        expect(updateLayout(layout, options, squares(2)).order).toEqual(["item-0", "item-1"])
+    })
+
+    it("starts a layout when there is none", () => {
+        expect(updateLayout(null, options, squares(3)).order).toEqual(ids(squares(3)))
+    })
+})
+
+describe("visiblePositions", () => {
+    // Three rows of squares at y 0, 110 and 220
+    const layout = layoutOf(squares(9))
+
+    it("returns items intersecting the range in append order", () => {
+        expect(ids(visiblePositions(layout, 120, 200))).toEqual(["item-3", "item-4", "item-5"])
+        expect(ids(visiblePositions(layout, 0, 1000))).toEqual(ids(squares(9)))
+    })
+
+    it("includes items touching the edges of the range", () => {
+        // The first row ends at 100 and the third starts at 220
+        expect(ids(visiblePositions(layout, 100, 220))).toEqual(ids(squares(9)))
+    })
+
+    it("excludes items in the gap just outside the range", () => {
+        expect(ids(visiblePositions(layout, 101, 219))).toEqual(["item-3", "item-4", "item-5"])
+    })
+
+    it("returns nothing above, below or between the items", () => {
+        expect(visiblePositions(layout, -50, -1)).toEqual([])
+        expect(visiblePositions(layout, 321, 500)).toEqual([])
+        expect(visiblePositions(layout, 101, 109)).toEqual([])
+    })
+
+    it("handles empty layouts and empty columns", () => {
+        expect(visiblePositions(createLayout(options), 0, 1000)).toEqual([])
+        expect(ids(visiblePositions(layoutOf(squares(1)), 0, 1000))).toEqual(["item-0"])
+    })
+
+    it("finds the first visible item in long columns", () => {
+        const long = layoutOf(squares(300))
+        const visible = visiblePositions(long, 5500, 5800)
+
+        expect(visible.length).toBeGreaterThan(0)
+        for (const position of visible) {
+            expect(position.y + position.height).toBeGreaterThanOrEqual(5500)
+            expect(position.y).toBeLessThanOrEqual(5800)
+        }
+        const expected = long.columns
+            .flat()
+            .filter(position => position.y <= 5800 && position.y + position.height >= 5500)
+            .sort((a, b) => a.index - b.index)
+        expect(ids(visible)).toEqual(ids(expected))
+    })
+})
+
+describe("findAnchor", () => {
+    const layout = layoutOf(squares(9))
+
+    it("returns the topmost item at the top of the viewport with its offset", () => {
+        expect(findAnchor(layout, 0)).toEqual({ id: "item-0", offset: 0 })
+        expect(findAnchor(layout, 150)).toEqual({ id: "item-3", offset: -40 })
+    })
+
+    it("returns nothing for empty layouts or past the end", () => {
+        expect(findAnchor(createLayout(options), 0)).toBeNull()
+        expect(findAnchor(layout, 1000)).toBeNull()
+    })
+})
+
+describe("neighborPosition", () => {
+    // Column 0 holds a tall item, column 1 three squares and column 2 two squares
+    const layout: MasonryLayout = layoutOf([
+        { id: "tall", aspectRatio: 0.4 },
+        { id: "a", aspectRatio: 1 },
+        { id: "b", aspectRatio: 1 },
+        { id: "c", aspectRatio: 1 },
+        { id: "d", aspectRatio: 1 },
+        { id: "e", aspectRatio: 1 },
+    ])
+
+    it("moves up and down within a column", () => {
+        expect(neighborPosition(layout, "a", "down")?.id).toBe("c")
+        expect(neighborPosition(layout, "c", "up")?.id).toBe("a")
+    })
+
+    it("stops at the ends of a column", () => {
+        expect(neighborPosition(layout, "a", "up")).toBeNull()
+        expect(neighborPosition(layout, "tall", "down")).toBeNull()
+    })
+
+    it("moves to the item in the adjacent column with the closest center", () => {
+        expect(neighborPosition(layout, "tall", "right")?.id).toBe("c")
+        expect(neighborPosition(layout, "e", "left")?.id).toBe("tall")
+        expect(neighborPosition(layout, "e", "right")?.id).toBe("d")
+    })
+
+    it("stops at the outer columns", () => {
+        expect(neighborPosition(layout, "tall", "left")).toBeNull()
+        expect(neighborPosition(layout, "b", "right")).toBeNull()
+    })
+
+    it("returns nothing for unknown items", () => {
+        expect(neighborPosition(layout, "missing", "down")).toBeNull()
+    })
+})
@@ -0,0 +1,212 @@
+/**
+ * Pure masonry layout engine. Items are placed into the shortest column in order, new pages are appended without
+ * moving anything already placed, and visible items are looked up by binary search per column so the grid only has to
+ * mount what is near the viewport.
+ */
+
+export interface MasonryOptions {
+    containerWidth: number
+    minColumnWidth: number
+    gap: number
+}
+
+export interface MasonryInput {
+    id: string
+    aspectRatio: number // Width divided by height
+}
+
+export interface MasonryPosition {
+    id: string
+    index: number // Order the item was appended in
+    column: number
+    x: number
+    y: number
+    width: number
+    height: number
+}
+
+export interface MasonryLayout {
+    options: MasonryOptions
+    columnCount: number
+    columnWidth: number
+    columns: MasonryPosition[][] // Positions per column, sorted by y
+    columnHeights: number[]
+    positions: Map<string, MasonryPosition>
+    order: string[] // Item ids in append order, used to detect when a list only grew
+}
+
+export function createLayout(options: MasonryOptions): MasonryLayout {
+    const { containerWidth, minColumnWidth, gap } = options
+    const columnCount = Math.max(1, Math.floor((containerWidth + gap) / (minColumnWidth + gap)))
+    const columnWidth = Math.max(0, (containerWidth - (columnCount - 1) * gap) / columnCount)
+
+    return {
+        options,
+        columnCount,
+        columnWidth,
+        columns: Array.from({ length: columnCount }, () => []),
+        columnHeights: Array<number>(columnCount).fill(0),
+        positions: new Map(),
+        order: [],
+    }
+}
+
+/**
+ * Places items after the ones already in the layout. Items already placed are skipped, which also drops duplicates
+ * that pagination can return. Returns a new layout, the previous one is left untouched.
+ */
+export function appendItems(layout: MasonryLayout, items: readonly MasonryInput[]): MasonryLayout {
+    const { gap } = layout.options
+    const columns = layout.columns.map(column => [...column])
+    const columnHeights = [...layout.columnHeights]
+    const positions = new Map(layout.positions)
+    const order = [...layout.order]
+
+    for (const item of items) {
+        if (positions.has(item.id)) continue
+
+        const column = shortestColumn(columnHeights)
+        const columnHeight = columnHeights[column] ?? 0
+        const height = item.aspectRatio > 0 ? layout.columnWidth / item.aspectRatio : layout.columnWidth
+        const y = columnHeight === 0 ? 0 : columnHeight + gap
+
+        const position: MasonryPosition = {
+            id: item.id,
+            index: order.length,
+            column,
+            x: column * (layout.columnWidth + gap),
+            y,
+            width: layout.columnWidth,
+            height,
+        }
+
+        columns[column]?.push(position)
+        columnHeights[column] = y + height
+        positions.set(item.id, position)
+        order.push(item.id)
+    }
+
+    return { ...layout, columns, columnHeights, positions, order }
+}
+
+/**
+ * Brings a layout up to date with a list of items. When the list only grew the new items are appended, otherwise
+ * (items removed or reordered, or different options) everything is laid out again.
+ */
+export function updateLayout(
+    layout: MasonryLayout | null,
+    options: MasonryOptions,
+    items: readonly MasonryInput[]
+): MasonryLayout {
+    if (layout && isSameOptions(layout.options, options) && isPrefix(layout.order, items)) {
+        if (items.length === layout.order.length) return layout
+        return appendItems(layout, items.slice(layout.order.length))
+    }
+
+    return appendItems(createLayout(options), items)
+}
+
+export function layoutHeight(layout: MasonryLayout) {
+    return Math.max(0, ...layout.columnHeights)
+}
+
+/**
+ * Items intersecting the range from `top` to `bottom`, in append order.
+ */
+export function visiblePositions(layout: MasonryLayout, top: number, bottom: number): MasonryPosition[] {
+    const visible: MasonryPosition[] = []
+
+    for (const column of layout.columns) {
+        // First item whose bottom edge is below the top of the range
+        let low = 0
+        let high = column.length
+        while (low < high) {
+            const middle = (low + high) >> 1
+            const position = column[middle]
+            if (position && position.y + position.height < top) {
+                low = middle + 1
+            } else {
+                high = middle
+            }
+        }
+
+        for (let index = low; index < column.length; index++) {
+            const position = column[index]
+            if (!position || position.y > bottom) break
+            visible.push(position)
+        }
+    }
+
+    return visible.sort((a, b) => a.index - b.index)
+}
+
+/**
+ * Topmost item at the top of the viewport and how far it is from `scrollTop`, used to keep the same item in view
+ * when the layout changes.
+ */
+export function findAnchor(layout: MasonryLayout, scrollTop: number): { id: string; offset: number } | null {
+    let anchor: MasonryPosition | null = null
+
+    for (const position of visiblePositions(layout, scrollTop, scrollTop + layout.columnWidth * 2)) {
+        if (!anchor || position.y < anchor.y) anchor = position
+    }
+
+    return anchor ? { id: anchor.id, offset: anchor.y - scrollTop } : null
+}
+
+function shortestColumn(columnHeights: number[]) {
+    let shortest = 0
+
+    for (let column = 1; column < columnHeights.length; column++) {
+        if ((columnHeights[column] ?? 0) < (columnHeights[shortest] ?? 0)) shortest = column
+    }
+
+    return shortest
+}
+
+function isSameOptions(a: MasonryOptions, b: MasonryOptions) {
+    return a.containerWidth === b.containerWidth && a.minColumnWidth === b.minColumnWidth && a.gap === b.gap
+}
+
+function isPrefix(order: string[], items: readonly MasonryInput[]) {
+    if (order.length > items.length) return false
+    return order.every((id, index) => items[index]?.id === id)
+}
+
+export type MasonryDirection = "up" | "down" | "left" | "right"
+
+/**
+ * Item next to `id` by visual position: the one above or below in the same column, or the one in the adjacent column
+ * whose vertical center is closest.
+ */
+export function neighborPosition(
+    layout: MasonryLayout,
+    id: string,
+    direction: MasonryDirection
+): MasonryPosition | null {
+    const current = layout.positions.get(id)
+    if (!current) return null
+
+    if (direction === "up" || direction === "down") {
+        const column = layout.columns[current.column] ?? []
+        const index = column.findIndex(position => position.id === id)
+        return column[direction === "up" ? index - 1 : index + 1] ?? null
+    }
+
+    const column = layout.columns[direction === "left" ? current.column - 1 : current.column + 1]
+    if (!column) return null
+
+    const center = current.y + current.height / 2
+    let closest: MasonryPosition | null = null
+    let closestDistance = Infinity
+
+    for (const position of column) {
+        const distance = Math.abs(position.y + position.height / 2 - center)
+        if (distance >= closestDistance) continue
+
+        closest = position
+        closestDistance = distance
+    }
+
+    return closest
+}
@@ -0,0 +1,198 @@
+/**
+ * IndexedDB cache that keeps loaded result pages and thumbnails across plugin sessions, so previously seen results
+ * show up right away on reopen and can still be browsed offline. Every store is bounded in size, the least recently
+ * used entries are evicted first. Failures are logged and never thrown, the cache is only ever a fallback.
+ */
+
+import * as v from "valibot"
+
+const DB_NAME = "framestack-gifs-cache"
+const DB_VERSION = 2
+
+// Bump when the shape of cached data changes, entries saved under another version are ignored until they're evicted
+const CACHE_VERSION = 1
+
+const QUERIES_STORE = "queries"
+const THUMBNAILS_STORE = "thumbnails"
+const TOTALS_STORE = "totals" // Bytes in each store, kept up to date on every write so eviction doesn't scan
+
+const maxBytes: Record<StoreName, number> = {
+    [QUERIES_STORE]: 5 * 1024 * 1024,
+    [THUMBNAILS_STORE]: 20 * 1024 * 1024,
+}
+
+type StoreName = typeof QUERIES_STORE | typeof THUMBNAILS_STORE
+
+interface CacheEntry {
+    key: string
+    version: number
+    savedAt: number
+    accessedAt: number // Last read or write, the least recently used entries are evicted first
+    size: number // Approximate bytes, used for eviction
+    value: unknown
+}
+
+interface StoreTotal {
+    store: StoreName
+    bytes: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function requestToPromise<T>(request: IDBRequest<T>) {
+    return new Promise<T>((resolve, reject) => {
+        request.onsuccess = () => {
+            resolve(request.result)
+        }
+        request.onerror = () => {
+            reject(request.error ?? new Error("IndexedDB request failed"))
+        }
+    })
+}
+
+function openDatabase() {
+    if (!dbPromise) {
+        const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+        request.onupgradeneeded = () => {
+            const db = request.result
+
+            // Entries of the first version have no access time and aren't counted in a total, they're dropped
+            for (const storeName of [...db.objectStoreNames]) db.deleteObjectStore(storeName)
+
+            for (const storeName of [QUERIES_STORE, THUMBNAILS_STORE]) {
+                db.createObjectStore(storeName, { keyPath: "key" }).createIndex("accessedAt", "accessedAt")
+            }
+            db.createObjectStore(TOTALS_STORE, { keyPath: "store" })
+        }
+
+        dbPromise = requestToPromise(request)
+        dbPromise.catch(() => {
+            // Let the next call try again
+            dbPromise = null
+        })
+    }
+
+    return dbPromise
+}
+
+// Reading an entry counts as using it, so results that keep being opened stay cached the longest
+async function readEntry(storeName: StoreName, key: string): Promise<CacheEntry | null> {
+    const db = await openDatabase()
+    const store = db.transaction(storeName, "readwrite").objectStore(storeName)
+    const entry = (await requestToPromise(store.get(key))) as CacheEntry | undefined
+    if (!entry || entry.version !== CACHE_VERSION) return null
+
+    await requestToPromise(store.put({ ...entry, accessedAt: Date.now() }))
+    return entry
+}
+
+async function writeEntry(storeName: StoreName, key: string, value: unknown, size: number) {
+    const db = await openDatabase()
+    const transaction = db.transaction([storeName, TOTALS_STORE], "readwrite")
+    const store = transaction.objectStore(storeName)
+    const totals = transaction.objectStore(TOTALS_STORE)
+
+    const previous = (await requestToPromise(store.get(key))) as CacheEntry | undefined
+    const total = (await requestToPromise(totals.get(storeName))) as StoreTotal | undefined
+    const now = Date.now()
+    const entry: CacheEntry = { key, version: CACHE_VERSION, savedAt: now, accessedAt: now, size, value }
+
+    await requestToPromise(store.put(entry))
+
+    const bytes = (total?.bytes ?? 0) + size - (previous?.size ?? 0)
+    const remaining = await evict(store, bytes, maxBytes[storeName], key)
+    await requestToPromise(totals.put({ store: storeName, bytes: remaining } satisfies StoreTotal))
+}
+
+// Deletes the least recently used entries, except the one just written, until the store fits. Returns its new size.
+async function evict(store: IDBObjectStore, bytes: number, limit: number, keptKey: string) {
+    if (bytes <= limit) return bytes
+
+    const request = store.index("accessedAt").openCursor()
+    let cursor = await requestToPromise(request)
+
+    while (cursor) {
+        const entry = cursor.value as CacheEntry
+        if (entry.key !== keptKey) {
+            await requestToPromise(cursor.delete())
+            bytes -= entry.size
+        }
+        if (bytes <= limit) break
+
+        cursor.continue()
+        cursor = await requestToPromise(request)
+    }
+
+    return Math.max(0, bytes)
+}
+
+function queryCacheKey(queryKey: readonly unknown[]) {
+    return JSON.stringify(queryKey)
+}
+
+export async function readCachedQuery<T>(queryKey: readonly unknown[], schema: v.GenericSchema<unknown, T>) {
+    try {
+        const entry = await readEntry(QUERIES_STORE, queryCacheKey(queryKey))
+        if (!entry) return null
+
+        const result = v.safeParse(schema, entry.value)
+        return result.success ? result.output : null
+    } catch (error) {
+        console.warn("Failed to read cached results:", error)
+        return null
+    }
+}
+
+export async function writeCachedQuery(queryKey: readonly unknown[], value: unknown) {
+    try {
+        const size = JSON.stringify(value).length
+        await writeEntry(QUERIES_STORE, queryCacheKey(queryKey), value, size)
+    } catch (error) {
+        console.warn("Failed to cache results:", error)
+    }
+}
+
+// Object URLs of cached thumbnails, created once per session
+const thumbnailUrls = new Map<string, string>()
+
+/**
+ * Object URL for a cached thumbnail, or null when the thumbnail was never cached.
+ */
+export async function readCachedThumbnail(url: string): Promise<string | null> {
+    const existing = thumbnailUrls.get(url)
+    if (existing) return existing
+
+    try {
+        const entry = await readEntry(THUMBNAILS_STORE, url)
+        if (!entry || !(entry.value instanceof Blob)) return null
+
+        const objectUrl = URL.createObjectURL(entry.value)
+        thumbnailUrls.set(url, objectUrl)
+        return objectUrl
+    } catch (error) {
+        console.warn("Failed to read cached thumbnail:", error)
+        return null
+    }
+}
+
+/**
+ * Downloads and stores thumbnails that are not cached yet, one at a time so it never competes with browsing.
+ */
+export async function cacheThumbnails(urls: string[]) {
+    for (const url of new Set(urls)) {
+        try {
+            if (await readEntry(THUMBNAILS_STORE, url)) continue
+
+            const response = await fetch(url)
+            if (!response.ok) continue
+
+            const blob = await response.blob()
+            await writeEntry(THUMBNAILS_STORE, url, blob, blob.size)
+        } catch (error) {
+            // Usually offline, the next sync picks it up
+            console.warn(`Failed to cache thumbnail ${url}:`, error)
+            return
+        }
+    }
+}
@@ -0,0 +1,43 @@
+import { useQuery } from "@tanstack/react-query"
+import { useEffect, useMemo } from "react"
+import { getContentUrl } from "./api"
+import { useCollections } from "./favorites"
+import { cacheThumbnails, readCachedThumbnail } from "./offlineCache"
+import { useRecentInserts } from "./recent"
+
+/**
+ * Keeps thumbnails of saved items (collections and recent inserts) in the offline cache, so the saved views still
+ * show images without the network.
+ */
+export function useOfflineThumbnailSync() {
+    const collections = useCollections()
+    const recentInserts = useRecentInserts()
+
+    const urls = useMemo(
+        () => [
+            // Same sizes ContentGrid and RecentList render
+            ...collections.flatMap(collection => collection.items.map(item => getContentUrl(item, "sm", "webp"))),
+            ...recentInserts.map(({ item }) => getContentUrl(item, "xs", "webp")),
+        ],
+        [collections, recentInserts]
+    )
+
+    useEffect(() => {
+        void cacheThumbnails(urls)
+    }, [urls])
+}
+
+/**
+ * Cached copy of a thumbnail when there is one, the original URL otherwise.
+ */
+export function useOfflineThumbnail(url: string, enabled = true) {
+    const { data } = useQuery({
+        queryKey: ["offline-thumbnail", url],
+        queryFn: () => readCachedThumbnail(url),
+        staleTime: Infinity,
+        enabled,
+        throwOnError: false,
+    })
+
+    return (enabled && data) || url
+}
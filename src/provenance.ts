@@ -0,0 +1,123 @@
+import { framer, supportsName } from "framer-plugin"
+import * as v from "valibot"
+import { gifFormats, gifSizes, type MediaItem, providerIds } from "./api"
+import { contentTypeIds } from "./contentTypes"
+import { clearEditRecord } from "./editRecords"
+import { mediaItemSchema } from "./providers/schema"
+import type { RenditionChoice } from "./renditions"
+
+// Plugin data key on every layer inserted by the plugin
+const PROVENANCE_KEY = "provenance"
+
+const provenanceSchema = v.object({
+    contentId: v.string(),
+    slug: v.string(),
+    contentType: v.picklist(contentTypeIds),
+    provider: v.picklist(providerIds),
+    rendition: v.object({
+        size: v.picklist(gifSizes),
+        format: v.picklist(gifFormats),
+    }),
+    insertedAt: v.number(),
+    // Snapshot of the item so layers can be listed and swapped to another rendition without fetching it again
+    item: mediaItemSchema,
+})
+
+export type Provenance = v.InferOutput<typeof provenanceSchema>
+
+export interface TaggedLayer {
+    nodeId: string
+    name: string | null
+    provenance: Provenance
+}
+
+/**
+ * Records on a layer which item and rendition it was inserted from. The layer now shows the rendition as is, so an
+ * edit recorded on it before is removed. Failures are logged, a missing tag never fails the insert itself.
+ */
+export async function tagLayer(
+    nodeId: string,
+    item: MediaItem,
+    rendition: RenditionChoice,
+    insertedAt = Date.now()
+) {
+    const provenance: Provenance = {
+        contentId: item.id,
+        slug: item.slug,
+        contentType: item.contentType,
+        provider: item.provider,
+        rendition,
+        insertedAt,
+        item,
+    }
+
+    try {
+        const node = await framer.getNode(nodeId)
+        await node?.setPluginData(PROVENANCE_KEY, JSON.stringify(provenance))
+    } catch (error) {
+        console.warn(`Failed to tag layer ${nodeId}:`, error)
+    }
+
+    await clearEditRecord(nodeId)
+}
+
+/**
+ * Removes the tag once the layer's image no longer is a rendition of the item, like after editing it. The layer then
+ * isn't listed or swapped to another rendition, which would undo the edit.
+ */
+export async function untagLayer(nodeId: string) {
+    try {
+        const node = await framer.getNode(nodeId)
+        if (await node?.getPluginData(PROVENANCE_KEY)) await node?.setPluginData(PROVENANCE_KEY, null)
+    } catch (error) {
+        console.warn(`Failed to untag layer ${nodeId}:`, error)
+    }
+}
+
+export async function selectedLayerIds() {
+    try {
+        const selection = await framer.getSelection()
+        return selection.map(node => node.id)
+    } catch (error) {
+        console.warn("Failed to get selection:", error)
+        return []
+    }
+}
+
+/**
+ * `addImage` does not return the new layer. Framer selects it after adding, so it is the one selected layer that was
+ * not selected before the insert.
+ */
+export async function addedLayerId(previousSelection: string[]) {
+    const added = (await selectedLayerIds()).filter(id => !previousSelection.includes(id))
+    return added.length === 1 ? (added[0] ?? null) : null
+}
+
+export async function tagAddedLayer(previousSelection: string[], item: MediaItem, rendition: RenditionChoice) {
+    const added = await addedLayerId(previousSelection)
+    if (added) await tagLayer(added, item, rendition)
+}
+
+/**
+ * Every image layer in the project that was inserted by the plugin, most recently inserted first.
+ */
+export async function findTaggedLayers(): Promise<TaggedLayer[]> {
+    const nodes = await framer.getNodesWithAttributeSet("backgroundImage")
+    const layers: TaggedLayer[] = []
+
+    for (const node of nodes) {
+        try {
+            const data = await node.getPluginData(PROVENANCE_KEY)
+            if (!data) continue
+
+            const result = v.safeParse(provenanceSchema, JSON.parse(data))
+            if (!result.success) continue
+
+            layers.push({ nodeId: node.id, name: supportsName(node) ? node.name : null, provenance: result.output })
+        } catch (error) {
+            console.warn(`Failed to read plugin data of ${node.id}:`, error)
+        }
+    }
+
+    return layers.sort((a, b) => b.provenance.insertedAt - a.provenance.insertedAt)
+}
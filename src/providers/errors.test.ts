@@ -0,0 +1,110 @@
+import * as v from "valibot"
+import { afterEach, describe, expect, it, vi } from "vitest"
+import { ApiError, fetchApi, parseRetryAfter, RateLimitError } from "./errors"
+
+const now = Date.parse("2026-01-01T12:00:00Z")
+
+describe("parseRetryAfter", () => {
+    it("waits the given number of seconds", () => {
+        expect(parseRetryAfter("12", now)).toBe(now + 12_000)
+    })
+
+    it("doesn't wait for negative seconds", () => {
+        expect(parseRetryAfter("-5", now)).toBe(now)
+    })
+
+    it("waits until an HTTP date", () => {
+        expect(parseRetryAfter("Thu, 01 Jan 2026 12:01:00 GMT", now)).toBe(now + 60_000)
+    })
+
+    it("doesn't wait for dates in the past", () => {
+        expect(parseRetryAfter("Thu, 01 Jan 2026 11:00:00 GMT", now)).toBe(now)
+    })
+
+    it("waits 30 seconds without a header or with one it can't read", () => {
+        expect(parseRetryAfter(null, now)).toBe(now + 30_000)
+        expect(parseRetryAfter("", now)).toBe(now + 30_000)
+        expect(parseRetryAfter("soon", now)).toBe(now + 30_000)
+    })
+})
+
+describe("fetchApi", () => {
+    const schema = v.object({ id: v.string() })
+
+    function respondWith(response: Response | Error) {
+        vi.stubGlobal(
+            "fetch",
+            vi.fn(() => (response instanceof Error ? Promise.reject(response) : Promise.resolve(response)))
+        )
+    }
+
+    async function errorOf(promise: Promise<unknown>) {
+        try {
+            await promise
+        } catch (error) {
+            return error
+        }
+        throw new Error("Expected the request to fail")
+    }
+
+    afterEach(() => {
+        vi.unstubAllGlobals()
+        vi.useRealTimers()
+    })
+
+    it("returns the validated response", async () => {
+        respondWith(Response.json({ id: "a" }))
+
+        await expect(fetchApi("Test", "https://example.com", schema)).resolves.toEqual({ id: "a" })
+    })
+
+    it.each([
+        [401, "auth"],
+        [403, "auth"],
+        [404, "request"],
+        [500, "server"],
+        [503, "server"],
+    ] as const)("reports status %i as %s", async (status, kind) => {
+        respondWith(new Response(null, { status }))
+
+        const error = await errorOf(fetchApi("Test", "https://example.com", schema))
+
+        expect(error).toBeInstanceOf(ApiError)
+        expect(error).toMatchObject({ kind, provider: "Test", status })
+    })
+
+    it("reports rate limits with the time they end", async () => {
+        vi.useFakeTimers({ now })
+        respondWith(new Response(null, { status: 429, headers: { "Retry-After": "5" } }))
+
+        const error = await errorOf(fetchApi("Test", "https://example.com", schema))
+
+        expect(error).toBeInstanceOf(RateLimitError)
+        expect(error).toMatchObject({ kind: "rate-limited", retryAt: now + 5_000 })
+    })
+
+    it("reports failed requests as network errors", async () => {
+        respondWith(new TypeError("Failed to fetch"))
+
+        await expect(fetchApi("Test", "https://example.com", schema)).rejects.toMatchObject({ kind: "network" })
+    })
+
+    it("rethrows aborts as they are", async () => {
+        const controller = new AbortController()
+        const abort = new DOMException("Aborted", "AbortError")
+        controller.abort(abort)
+        respondWith(abort)
+
+        await expect(
+            fetchApi("Test", "https://example.com", schema, { signal: controller.signal })
+        ).rejects.toBe(abort)
+    })
+
+    it("reports invalid JSON and unexpected shapes as schema errors", async () => {
+        respondWith(new Response("not json"))
+        await expect(fetchApi("Test", "https://example.com", schema)).rejects.toMatchObject({ kind: "schema" })
+
+        respondWith(Response.json({ id: 1 }))
+        await expect(fetchApi("Test", "https://example.com", schema)).rejects.toMatchObject({ kind: "schema" })
+    })
+})
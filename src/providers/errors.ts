@@ -0,0 +1,119 @@
+import * as v from "valibot"
+
+/**
+ * Errors thrown by providers. Each kind says what went wrong so the UI can explain it and the query client can
+ * decide whether retrying makes sense.
+ */
+export type ApiErrorKind = "network" | "auth" | "rate-limited" | "server" | "request" | "schema"
+
+export class ApiError extends Error {
+    readonly kind: ApiErrorKind
+    readonly provider: string
+    readonly status: number | null
+
+    constructor(kind: ApiErrorKind, provider: string, message: string, status: number | null = null) {
+        super(message)
+        this.name = "ApiError"
+        this.kind = kind
+        this.provider = provider
+        this.status = status
+    }
+
+    // Network failures, rate limits and server errors can go away by themselves
+    get isRetryable() {
+        return this.kind === "network" || this.kind === "rate-limited" || this.kind === "server"
+    }
+}
+
+export class RateLimitError extends ApiError {
+    readonly retryAt: number // Timestamp after which requests should work again
+
+    constructor(provider: string, retryAt: number) {
+        super("rate-limited", provider, `${provider} rate limit reached`, 429)
+        this.name = "RateLimitError"
+        this.retryAt = retryAt
+    }
+}
+
+export function isApiError(error: unknown): error is ApiError {
+    return error instanceof ApiError
+}
+
+const defaultRetryAfter = 30_000
+
+/**
+ * Parses a Retry-After header, either seconds or an HTTP date, into a timestamp.
+ */
+export function parseRetryAfter(value: string | null, now = Date.now()): number {
+    if (!value) return now + defaultRetryAfter
+
+    const seconds = Number(value)
+    if (Number.isFinite(seconds)) return now + Math.max(0, seconds) * 1000
+
+    const date = Date.parse(value)
+    return Number.isNaN(date) ? now + defaultRetryAfter : Math.max(now, date)
+}
+
+function errorForResponse(response: Response, provider: string): ApiError {
+    const { status, statusText } = response
+
+    if (status === 401 || status === 403) {
+        return new ApiError("auth", provider, `${provider} rejected the API key: ${status} ${statusText}`, status)
+    }
+
+    if (status === 429) {
+        return new RateLimitError(provider, parseRetryAfter(response.headers.get("Retry-After")))
+    }
+
+    if (status >= 500) {
+        return new ApiError("server", provider, `${provider} server error: ${status} ${statusText}`, status)
+    }
+
+    return new ApiError("request", provider, `${provider} request failed: ${status} ${statusText}`, status)
+}
+
+/**
+ * Fetches JSON from a provider API and validates it, turning every failure into an `ApiError`. Aborted requests are
+ * rethrown as they are so react-query can tell them apart.
+ */
+export async function fetchApi<TSchema extends v.GenericSchema>(
+    provider: string,
+    url: string,
+    schema: TSchema,
+    init: RequestInit = {}
+): Promise<v.InferOutput<TSchema>> {
+    let response: Response
+
+    try {
+        response = await fetch(url, init)
+    } catch (error) {
+        if (init.signal?.aborted) throw error
+        throw new ApiError("network", provider, `Could not reach ${provider}: ${String(error)}`)
+    }
+
+    if (!response.ok) {
+        throw errorForResponse(response, provider)
+    }
+
+    let json: unknown
+
+    try {
+        json = await response.json()
+    } catch (error) {
+        if (init.signal?.aborted) throw error
+        throw new ApiError("schema", provider, `${provider} returned invalid JSON`, response.status)
+    }
+
+    const result = v.safeParse(schema, json)
+
+    if (result.issues) {
+        throw new ApiError(
+            "schema",
+            provider,
+            `Failed to parse ${provider} API response: ${v.summarize(result.issues)}`,
+            response.status
+        )
+    }
+
+    return result.output
+}
@@ -0,0 +1,201 @@
+/**
+ * Bundled fixture content for the mock provider, shaped exactly like Klipy API responses so it goes through the same
+ * schema validation and normalization as real data. Images are generated SVGs, nothing is loaded from the network.
+ */
+
+interface Fixture {
+    id: number
+    title: string
+    tags: string[]
+    hue: number
+    aspectRatio: number // Width divided by height
+}
+
+const gifFixtures: Fixture[] = [
+    ["Happy cat dance", ["cat", "happy", "dance"]],
+    ["Thumbs up", ["yes", "approve", "ok"]],
+    ["Mind blown", ["wow", "shocked", "amazing"]],
+    ["Slow clap", ["applause", "clap", "sarcasm"]],
+    ["Dog zoomies", ["dog", "happy", "running"]],
+    ["Facepalm", ["ugh", "frustrated", "fail"]],
+    ["Party time", ["party", "celebrate", "dance"]],
+    ["Eye roll", ["annoyed", "whatever", "sarcasm"]],
+    ["High five", ["yes", "team", "celebrate"]],
+    ["Sleepy monday", ["tired", "monday", "sleep"]],
+    ["Cat keyboard", ["cat", "typing", "work"]],
+    ["Confetti drop", ["celebrate", "party", "congrats"]],
+    ["Nodding yes", ["yes", "agree", "ok"]],
+    ["Shaking head", ["no", "disagree", "nope"]],
+    ["Coffee first", ["coffee", "morning", "tired"]],
+    ["Deal with it", ["cool", "sunglasses", "whatever"]],
+    ["Happy dance", ["happy", "dance", "celebrate"]],
+    ["Waving hello", ["hello", "hi", "wave"]],
+    ["Goodbye wave", ["bye", "wave", "goodbye"]],
+    ["Popcorn watching", ["drama", "popcorn", "watching"]],
+    ["Thinking hard", ["thinking", "hmm", "confused"]],
+    ["Rain on window", ["rain", "mood", "calm"]],
+    ["Dog smile", ["dog", "happy", "smile"]],
+    ["Loading forever", ["waiting", "loading", "slow"]],
+    ["Fireworks", ["celebrate", "new year", "party"]],
+    ["Mic drop", ["done", "boom", "cool"]],
+    ["Cat jump fail", ["cat", "fail", "funny"]],
+    ["Shrug", ["whatever", "idk", "shrug"]],
+    ["Crying laughing", ["lol", "funny", "laugh"]],
+    ["Victory dance", ["win", "dance", "celebrate"]],
+    ["Typing fast", ["work", "typing", "busy"]],
+    ["Sunset drive", ["mood", "calm", "summer"]],
+    ["Dog wave", ["dog", "hello", "wave"]],
+    ["Brain expanding", ["smart", "thinking", "wow"]],
+    ["Nervous sweat", ["nervous", "awkward", "sweat"]],
+    ["Heart eyes", ["love", "heart", "wow"]],
+    ["Cat stare", ["cat", "stare", "judging"]],
+    ["Rocket launch", ["launch", "ship it", "space"]],
+    ["Bug squash", ["bug", "work", "fix"]],
+    ["Weekend mode", ["weekend", "relax", "happy"]],
+    ["Snow day", ["winter", "snow", "calm"]],
+    ["Ship it", ["ship it", "launch", "work"]],
+    ["Cat nap", ["cat", "sleep", "tired"]],
+    ["Wow sparkles", ["wow", "amazing", "sparkle"]],
+    ["Nope nope nope", ["no", "nope", "scared"]],
+].map(([title, tags], index) => ({
+    id: 1000 + index,
+    title: title as string,
+    tags: tags as string[],
+    hue: (index * 47) % 360,
+    aspectRatio: [1, 4 / 3, 16 / 9, 3 / 4, 1.2][index % 5] ?? 1,
+}))
+
+const stickerFixtures: Fixture[] = [
+    ["Star sticker", ["star", "sparkle", "wow"]],
+    ["Heart sticker", ["love", "heart", "cute"]],
+    ["Cat face", ["cat", "cute", "face"]],
+    ["Thumbs up sticker", ["yes", "ok", "approve"]],
+    ["Sun sticker", ["sun", "summer", "happy"]],
+    ["Rainbow sticker", ["rainbow", "happy", "pride"]],
+    ["Fire sticker", ["fire", "hot", "lit"]],
+    ["Ghost sticker", ["ghost", "spooky", "halloween"]],
+    ["Pizza sticker", ["pizza", "food", "party"]],
+    ["Rocket sticker", ["rocket", "launch", "space"]],
+    ["Cloud sticker", ["cloud", "calm", "weather"]],
+    ["Party hat", ["party", "celebrate", "birthday"]],
+    ["Coffee cup", ["coffee", "morning", "work"]],
+    ["Dog face", ["dog", "cute", "face"]],
+    ["Lightning", ["energy", "fast", "power"]],
+    ["Moon sticker", ["moon", "night", "sleep"]],
+    ["Crown sticker", ["king", "queen", "win"]],
+    ["Sparkles", ["sparkle", "wow", "magic"]],
+    ["Check mark", ["done", "yes", "ok"]],
+    ["Cross mark", ["no", "wrong", "nope"]],
+    ["Flower sticker", ["flower", "spring", "cute"]],
+    ["Ice cream", ["summer", "food", "cute"]],
+].map(([title, tags], index) => ({
+    id: 5000 + index,
+    title: title as string,
+    tags: tags as string[],
+    hue: (index * 67 + 20) % 360,
+    aspectRatio: 1,
+}))
+
+export const fixtureCategories = [
+    { category: "Celebrate", query: "celebrate" },
+    { category: "Cats", query: "cat" },
+    { category: "Dogs", query: "dog" },
+    { category: "Work", query: "work" },
+    { category: "Yes", query: "yes" },
+    { category: "No", query: "no" },
+]
+
+export const fixtureTrendingSearches = ["cat", "happy", "celebrate", "wow", "work", "dance"]
+
+function svgDataUrl(fixture: Fixture, width: number, height: number, isSticker: boolean) {
+    const background = isSticker
+        ? `<circle cx="${width / 2}" cy="${height / 2}" r="${Math.min(width, height) * 0.45}" fill="hsl(${fixture.hue} 70% 60%)"/>`
+        : `<rect width="${width}" height="${height}" fill="hsl(${fixture.hue} 55% 55%)"/>`
+    const fontSize = Math.max(8, Math.round(Math.min(width, height) / 9))
+    const svg =
+        `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+        background +
+        `<text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" font-family="sans-serif" ` +
+        `font-size="${fontSize}" font-weight="600" fill="white">${fixture.title}</text></svg>`
+
+    return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+}
+
+const variantWidths = { xs: 90, sm: 200, md: 360, hd: 720 }
+
+// Made-up byte sizes that grow with the pixel count, so size budgets have something to work with
+function fixtureFile(fixture: Fixture, isSticker: boolean) {
+    return Object.fromEntries(
+        Object.entries(variantWidths).map(([size, width]) => {
+            const height = Math.round(width / fixture.aspectRatio)
+            const url = svgDataUrl(fixture, width, height, isSticker)
+            const gifSize = Math.round(width * height * 1.6)
+
+            return [
+                size,
+                {
+                    gif: { url, width, height, size: gifSize },
+                    webp: { url, width, height, size: Math.round(gifSize * 0.45) },
+                },
+            ]
+        })
+    )
+}
+
+function fixtureContent(fixture: Fixture, isSticker: boolean) {
+    return {
+        id: fixture.id,
+        slug: fixture.title.toLowerCase().replace(/\W+/g, "-"),
+        title: fixture.title,
+        blur_preview: svgDataUrl(fixture, 8, Math.max(1, Math.round(8 / fixture.aspectRatio)), isSticker),
+        file: fixtureFile(fixture, isSticker),
+        tags: fixture.tags,
+        type: isSticker ? "sticker" : "gif",
+    }
+}
+
+function matchesQuery(fixture: Fixture, query: string) {
+    const normalizedQuery = query.trim().toLowerCase()
+    return (
+        fixture.title.toLowerCase().includes(normalizedQuery) ||
+        fixture.tags.some(tag => tag.includes(normalizedQuery))
+    )
+}
+
+/**
+ * One page of fixtures as a raw Klipy list response. Trending lists every fixture, a search keeps the ones whose
+ * title or tags contain the query.
+ */
+export function fixturePage(options: { stickers: boolean; query: string | null; page: number; perPage: number }) {
+    const { stickers, query, page, perPage } = options
+    const fixtures = stickers ? stickerFixtures : gifFixtures
+    const matches = query === null ? fixtures : fixtures.filter(fixture => matchesQuery(fixture, query))
+    const start = (page - 1) * perPage
+
+    return {
+        result: true,
+        data: {
+            data: matches.slice(start, start + perPage).map(fixture => fixtureContent(fixture, stickers)),
+            current_page: page,
+            per_page: perPage,
+            has_next: start + perPage < matches.length,
+        },
+    }
+}
+
+// Tags of the fixtures a search finds, like related searches from a real API
+export function fixtureRelatedTerms(query: string) {
+    const normalizedQuery = query.trim().toLowerCase()
+    const matches = [...gifFixtures, ...stickerFixtures].filter(fixture => matchesQuery(fixture, normalizedQuery))
+    const terms = new Set(matches.flatMap(fixture => fixture.tags))
+    terms.delete(normalizedQuery)
+
+    return [...terms].slice(0, 8)
+}
+
+export function fixtureTerms(query: string) {
+    const normalizedQuery = query.trim().toLowerCase()
+    const terms = new Set([...gifFixtures, ...stickerFixtures].flatMap(fixture => fixture.tags))
+
+    return [...terms].filter(term => term.startsWith(normalizedQuery) && term !== normalizedQuery)
+}
@@ -0,0 +1,195 @@
+import * as v from "valibot"
+import { ApiError, fetchApi } from "./errors"
+import type {
+    Category,
+    ContentProvider,
+    ContentType,
+    GifSize,
+    MediaItem,
+    MediaPage,
+    ProviderContext,
+    ProviderRequest,
+    Rendition,
+    SafeSearch,
+} from "./types"
+
+// Giphy reports dimensions and sizes as strings
+const giphyRenditionSchema = v.object({
+    url: v.string(),
+    width: v.string(),
+    height: v.string(),
+    size: v.optional(v.string()),
+    webp: v.optional(v.string()),
+    webp_size: v.optional(v.string()),
+})
+
+const giphyContentSchema = v.object({
+    id: v.string(),
+    slug: v.string(),
+    title: v.string(),
+    type: v.string(),
+    images: v.object({
+        original: giphyRenditionSchema,
+        downsized: v.optional(giphyRenditionSchema),
+        fixed_width: v.optional(giphyRenditionSchema),
+        fixed_width_small: v.optional(giphyRenditionSchema),
+        fixed_width_small_still: v.optional(v.object({ url: v.string() })),
+    }),
+})
+
+const giphyResponseSchema = v.object({
+    data: v.array(giphyContentSchema),
+    pagination: v.object({
+        total_count: v.number(),
+        count: v.number(),
+        offset: v.number(),
+    }),
+})
+
+// Categories, autocomplete and related tags are all lists of named entries
+const giphyNamesResponseSchema = v.object({
+    data: v.array(
+        v.object({
+            name: v.string(),
+        })
+    ),
+})
+
+const giphyTrendingSearchesResponseSchema = v.object({
+    data: v.array(v.string()),
+})
+
+export type GiphyContent = v.InferOutput<typeof giphyContentSchema>
+type GiphyRendition = v.InferOutput<typeof giphyRenditionSchema>
+type GiphyRenditionKey = "original" | "downsized" | "fixed_width" | "fixed_width_small"
+
+// Which Giphy rendition stands in for each of our sizes, from most to least preferred
+const giphyRenditionsForSize: Record<GifSize, GiphyRenditionKey[]> = {
+    xs: ["fixed_width_small", "fixed_width", "downsized", "original"],
+    sm: ["fixed_width", "downsized", "original"],
+    md: ["downsized", "original"],
+    hd: ["original"],
+}
+
+async function fetchGiphy<TSchema extends v.GenericSchema>(
+    path: string,
+    schema: TSchema,
+    params: Record<string, string>,
+    signal?: AbortSignal
+): Promise<v.InferOutput<TSchema>> {
+    const apiKey = import.meta.env.VITE_GIPHY_API_KEY
+
+    if (!apiKey) {
+        throw new ApiError("auth", "Giphy", "VITE_GIPHY_API_KEY environment variable is not set")
+    }
+
+    const url = new URL(`https://api.giphy.com/v1${path}`)
+    url.searchParams.set("api_key", apiKey)
+    for (const [key, value] of Object.entries(params)) {
+        url.searchParams.set(key, value)
+    }
+
+    return fetchApi("Giphy", url.toString(), schema, { method: "GET", signal })
+}
+
+function giphyRendition(rendition: GiphyRendition, format: "gif" | "webp"): Rendition {
+    const useWebp = format === "webp" && rendition.webp
+
+    return {
+        url: useWebp ? (rendition.webp ?? rendition.url) : rendition.url,
+        width: Number(rendition.width),
+        height: Number(rendition.height),
+        size: Number((useWebp ? rendition.webp_size : rendition.size) ?? 0),
+    }
+}
+
+export function normalizeGiphyContent(content: GiphyContent, contentType: ContentType): MediaItem {
+    const renditionForSize = (size: GifSize) => {
+        const key = giphyRenditionsForSize[size].find(key => content.images[key] !== undefined) ?? "original"
+        const source = content.images[key] ?? content.images.original
+
+        return { gif: giphyRendition(source, "gif"), webp: giphyRendition(source, "webp") }
+    }
+
+    return {
+        id: `giphy:${content.id}`,
+        sourceId: content.id,
+        provider: "giphy",
+        contentType,
+        slug: content.slug,
+        title: content.title,
+        type: content.type,
+        preview: content.images.fixed_width_small_still?.url ?? "",
+        tags: [],
+        renditions: {
+            xs: renditionForSize("xs"),
+            sm: renditionForSize("sm"),
+            md: renditionForSize("md"),
+            hd: renditionForSize("hd"),
+        },
+    }
+}
+
+// Giphy search takes a two letter language code, trending and the browse endpoints aren't localized
+function giphyLanguage(locale?: string): Record<string, string> {
+    return locale ? { lang: locale.split("_")[0] ?? locale } : {}
+}
+
+// Highest Giphy rating allowed at each safe search level
+const giphyRatings: Record<SafeSearch, string> = { off: "r", low: "pg-13", medium: "pg", high: "g" }
+
+async function fetchGiphyPage(
+    path: string,
+    params: Record<string, string>,
+    { contentType, page, perPage, signal, safeSearch }: ProviderRequest
+): Promise<MediaPage> {
+    const rating: Record<string, string> = safeSearch ? { rating: giphyRatings[safeSearch] } : {}
+
+    // Giphy paginates by offset, we paginate by page number
+    const response = await fetchGiphy(
+        path,
+        giphyResponseSchema,
+        { ...params, ...rating, limit: String(perPage), offset: String((page - 1) * perPage) },
+        signal
+    )
+    const { total_count, count, offset } = response.pagination
+
+    return {
+        items: response.data.map(content => normalizeGiphyContent(content, contentType)),
+        page,
+        perPage,
+        hasNext: count > 0 && offset + count < total_count,
+    }
+}
+
+async function fetchGiphyCategories({ contentType, signal }: ProviderContext): Promise<Category[]> {
+    // Giphy only has categories for GIFs
+    if (contentType !== "gifs") return []
+
+    const response = await fetchGiphy("/gifs/categories", giphyNamesResponseSchema, {}, signal)
+
+    return response.data.map(category => ({ name: category.name, query: category.name }))
+}
+
+async function fetchGiphyTrendingSearches({ signal }: ProviderContext): Promise<string[]> {
+    const response = await fetchGiphy("/trending/searches", giphyTrendingSearchesResponseSchema, {}, signal)
+    return response.data
+}
+
+async function fetchGiphyTags(path: string, params: Record<string, string>, signal?: AbortSignal) {
+    const response = await fetchGiphy(path, giphyNamesResponseSchema, params, signal)
+    return response.data.map(tag => tag.name)
+}
+
+export const giphyProvider: ContentProvider = {
+    id: "giphy",
+    name: "Giphy",
+    contentTypes: ["gifs", "stickers"],
+    search: (query, request) =>
+        fetchGiphyPage(`/${request.contentType}/search`, { q: query, ...giphyLanguage(request.locale) }, request),
+    trending: request => fetchGiphyPage(`/${request.contentType}/trending`, {}, request),
+    categories: fetchGiphyCategories,
+    trendingSearches: fetchGiphyTrendingSearches,
+    autocomplete: (query, { signal }) => fetchGiphyTags("/gifs/search/tags", { q: query }, signal),
+    relatedSearches: (query, { signal }) => fetchGiphyTags(`/tags/related/${encodeURIComponent(query)}`, {}, signal),
+}
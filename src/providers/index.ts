@@ -0,0 +1,82 @@
+import * as v from "valibot"
+import { t } from "../i18n"
+import { loadFromStorage, saveToStorage } from "../storage"
+import { giphyProvider } from "./giphy"
+import { klipyProvider } from "./klipy"
+import { createMixedProvider } from "./mixed"
+import { mockProvider } from "./mock"
+import { type ContentProvider, type ProviderId, providerIds } from "./types"
+
+export const providers: Record<ProviderId, ContentProvider> = {
+    klipy: klipyProvider,
+    giphy: giphyProvider,
+    mock: mockProvider,
+}
+
+// Set from the plugin menu, switches to demo content without touching .env
+const DEMO_CONTENT_KEY = "framestack-gifs-demo-content"
+
+export function isDemoContentEnabled() {
+    return loadFromStorage(DEMO_CONTENT_KEY, v.boolean(), false)
+}
+
+export function setDemoContentEnabled(enabled: boolean) {
+    saveToStorage(DEMO_CONTENT_KEY, enabled)
+}
+
+function isProviderId(value: string | undefined): value is ProviderId {
+    return (providerIds as readonly (string | undefined)[]).includes(value)
+}
+
+function hasApiKey(id: ProviderId) {
+    if (id === "klipy") return !!import.meta.env.VITE_KLIPY_APP_KEY
+    if (id === "giphy") return !!import.meta.env.VITE_GIPHY_API_KEY
+    return true
+}
+
+// Problems with the config, shown once the plugin opens
+export type ProviderWarning = { kind: "unknown"; id: string } | { kind: "no-api-key"; names: string; isDemo: boolean }
+
+export interface ProviderSelection {
+    provider: ContentProvider
+    warnings: ProviderWarning[]
+}
+
+export function providerWarningMessage(warning: ProviderWarning) {
+    if (warning.kind === "unknown") return t("provider.unknown", { id: warning.id })
+    return warning.isDemo
+        ? t("provider.noApiKeyDemo", { names: warning.names })
+        : t("provider.noApiKey", { names: warning.names })
+}
+
+/**
+ * Selected with VITE_CONTENT_PROVIDER, Klipy unless configured otherwise. Several providers separated by commas, like
+ * `klipy,giphy`, are mixed. Unknown providers and providers without an API key are left out, demo content is used when
+ * none is left or when it's turned on from the menu.
+ */
+export function selectProvider(): ProviderSelection {
+    if (isDemoContentEnabled()) return { provider: mockProvider, warnings: [] }
+
+    const configured = (import.meta.env.VITE_CONTENT_PROVIDER ?? "")
+        .split(",")
+        .map(id => id.trim().toLowerCase())
+        .filter(Boolean)
+    const warnings = configured
+        .filter(id => !isProviderId(id))
+        .map((id): ProviderWarning => ({ kind: "unknown", id }))
+
+    const ids = [...new Set(configured.filter(isProviderId))]
+    if (ids.length === 0) ids.push("klipy")
+
+    const withoutKey = ids.filter(id => !hasApiKey(id))
+    const selected = ids.filter(hasApiKey).map(id => providers[id])
+    const names = withoutKey.map(id => providers[id].name).join(", ")
+    const [first] = selected
+
+    if (!first) {
+        return { provider: mockProvider, warnings: [...warnings, { kind: "no-api-key", names, isDemo: true }] }
+    }
+
+    if (withoutKey.length > 0) warnings.push({ kind: "no-api-key", names, isDemo: false })
+    return { provider: selected.length === 1 ? first : createMixedProvider(selected), warnings }
+}
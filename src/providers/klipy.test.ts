@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { normalizeKlipyPage } from "./klipy"
+import { gifSizes } from "./types"
+
+function rendition(size: string, format: string) {
+    return { url: `https://static.klipy.com/${size}.${format}`, width: 100, height: 80, size: 1000 }
+}
+
+function variant(size: string) {
+    return { gif: rendition(size, "gif"), webp: rendition(size, "webp") }
+}
+
+function klipyItem(id: number, changes: Record<string, unknown> = {}) {
+    return {
+        id,
+        slug: `item-${id}`,
+        title: `Item ${id}`,
+        blur_preview: "data:image/png;base64,AAAA",
+        file: { xs: variant("xs"), sm: variant("sm"), md: variant("md"), hd: variant("hd") },
+        tags: ["funny"],
+        type: "gif",
+        ...changes,
+    }
+}
+
+function pageOf(items: unknown[]) {
+    return { result: true, data: { data: items, current_page: 2, per_page: 24, has_next: true } }
+}
+
+function normalize(items: unknown[]) {
+    return normalizeKlipyPage(pageOf(items), "gifs")
+}
+
+beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {})
+})
+
+afterEach(() => {
+    vi.restoreAllMocks()
+})
+
+describe("normalizeKlipyPage", () => {
+    it("turns well formed items into media items", () => {
+        const page = normalize([klipyItem(1)])
+
+        expect(page).toMatchObject({ page: 2, perPage: 24, hasNext: true })
+        expect(page.items).toEqual([
+            {
+                id: "klipy:1",
+                sourceId: "1",
+                provider: "klipy",
+                contentType: "gifs",
+                slug: "item-1",
+                title: "Item 1",
+                type: "gif",
+                preview: "data:image/png;base64,AAAA",
+                tags: ["funny"],
+                renditions: { xs: variant("xs"), sm: variant("sm"), md: variant("md"), hd: variant("hd") },
+            },
+        ])
+        expect(console.warn).not.toHaveBeenCalled()
+    })
+
+    it("prefixes ids with the provider passed in", () => {
+        const page = normalizeKlipyPage(pageOf([klipyItem(1)]), "gifs", "mock")
+
+        expect(page.items[0]).toMatchObject({ id: "mock:1", provider: "mock" })
+    })
+
+    it("drops malformed items without failing the page", () => {
+        const page = normalize([klipyItem(1), { id: "two" }, null, klipyItem(3, { file: {} })])
+
+        expect(page.items.map(item => item.id)).toEqual(["klipy:1"])
+        expect(console.warn).toHaveBeenCalledWith("Klipy page 2: repaired 0, skipped 3 items")
+    })
+
+    it("falls back to empty fields and a placeholder preview", () => {
+        const page = normalize([klipyItem(1, { slug: 5, title: null, blur_preview: undefined, tags: "funny" })])
+        const [item] = page.items
+
+        expect(item).toMatchObject({ slug: "", title: "", tags: [] })
+        expect(item?.preview).toMatch(/^data:image\/svg\+xml/)
+        expect(console.warn).toHaveBeenCalledWith("Klipy page 2: repaired 1, skipped 0 items")
+    })
+
+    it("uses the other format of the same size for a missing format", () => {
+        const file = { ...klipyItem(1).file, md: { gif: rendition("md", "gif") } }
+        const [item] = normalize([klipyItem(1, { file })]).items
+
+        expect(item?.renditions.md).toEqual({ gif: rendition("md", "gif"), webp: rendition("md", "gif") })
+    })
+
+    it("uses the closest smaller size for a missing size, then the closest larger one", () => {
+        const file = { xs: undefined, sm: variant("sm"), md: undefined, hd: variant("hd") }
+        const [item] = normalize([klipyItem(1, { file })]).items
+
+        expect(item?.renditions).toEqual({ xs: variant("sm"), sm: variant("sm"), md: variant("sm"), hd: variant("hd") })
+    })
+
+    it("treats renditions without a url as missing and unknown byte sizes as 0", () => {
+        const withoutSize = { url: "https://static.klipy.com/xs.webp", width: 100, height: 80 }
+        const file = { ...klipyItem(1).file, sm: { gif: { width: 1, height: 1 } }, xs: { webp: withoutSize } }
+        const [item] = normalize([klipyItem(1, { file })]).items
+
+        expect(item?.renditions.xs.webp).toEqual({ ...withoutSize, size: 0 })
+        expect(item?.renditions.sm).toEqual(item?.renditions.xs)
+    })
+
+    it("drops items without any rendition", () => {
+        const file = Object.fromEntries(gifSizes.map(size => [size, { gif: null, webp: null }]))
+
+        expect(normalize([klipyItem(1, { file })]).items).toEqual([])
+    })
+})
@@ -0,0 +1,336 @@
+import * as v from "valibot"
+import { contentTypes } from "../contentTypes"
+import { ApiError, fetchApi } from "./errors"
+import {
+    type Category,
+    type ContentProvider,
+    type ContentType,
+    gifSizes,
+    type MediaItem,
+    type MediaPage,
+    type ProviderContext,
+    type ProviderId,
+    type ProviderRequest,
+} from "./types"
+
+const klipyFileVariantSchema = v.object({
+    gif: v.object({
+        url: v.string(),
+        width: v.number(),
+        height: v.number(),
+        size: v.number(),
+    }),
+    webp: v.object({
+        url: v.string(),
+        width: v.number(),
+        height: v.number(),
+        size: v.number(),
+    }),
+})
+
+const klipyContentSchema = v.object({
+    id: v.number(),
+    slug: v.string(),
+    title: v.string(),
+    blur_preview: v.string(), // Base64 blur preview
+    file: v.object({
+        hd: klipyFileVariantSchema,
+        md: klipyFileVariantSchema,
+        sm: klipyFileVariantSchema,
+        xs: klipyFileVariantSchema,
+    }),
+    tags: v.array(v.string()),
+    type: v.string(),
+})
+
+const klipyDataSchema = v.object({
+    data: v.array(klipyContentSchema),
+    current_page: v.number(),
+    per_page: v.number(),
+    has_next: v.boolean(),
+})
+
+export const klipyResponseSchema = v.object({
+    result: v.boolean(),
+    data: klipyDataSchema,
+})
+
+const klipyCategoriesResponseSchema = v.object({
+    result: v.boolean(),
+    data: v.object({
+        categories: v.array(
+            v.object({
+                category: v.string(),
+                query: v.string(),
+                preview_url: v.optional(v.string()),
+            })
+        ),
+    }),
+})
+
+// The page envelope is validated strictly, items one by one so a single malformed item can't fail the whole page
+const klipyPageEnvelopeSchema = v.object({
+    result: v.boolean(),
+    data: v.object({
+        data: v.array(v.unknown()),
+        current_page: v.number(),
+        per_page: v.number(),
+        has_next: v.boolean(),
+    }),
+})
+
+// Lenient item shape, fields that can be repaired fall back instead of failing the item
+const lenientRenditionSchema = v.fallback(
+    v.optional(
+        v.object({
+            url: v.string(),
+            width: v.number(),
+            height: v.number(),
+            size: v.fallback(v.number(), 0),
+        })
+    ),
+    undefined
+)
+
+const lenientFileVariantSchema = v.fallback(
+    v.optional(v.object({ gif: lenientRenditionSchema, webp: lenientRenditionSchema })),
+    undefined
+)
+
+const lenientContentSchema = v.object({
+    id: v.number(),
+    slug: v.fallback(v.string(), ""),
+    title: v.fallback(v.string(), ""),
+    blur_preview: v.fallback(v.optional(v.string()), undefined),
+    file: v.object({
+        hd: lenientFileVariantSchema,
+        md: lenientFileVariantSchema,
+        sm: lenientFileVariantSchema,
+        xs: lenientFileVariantSchema,
+    }),
+    tags: v.fallback(v.array(v.string()), []),
+    type: v.fallback(v.string(), "gif"),
+})
+
+type LenientContent = v.InferOutput<typeof lenientContentSchema>
+
+// Trending searches, autocomplete and search suggestions all return plain lists of terms
+const klipyTermsResponseSchema = v.object({
+    result: v.boolean(),
+    data: v.array(v.string()),
+})
+
+export type KlipyContent = v.InferInput<typeof klipyContentSchema>
+export type KlipyGif = KlipyContent // Legacy alias
+export type KlipyResponse = v.InferInput<typeof klipyResponseSchema>
+type KlipyPageEnvelope = v.InferOutput<typeof klipyPageEnvelopeSchema>
+export type KlipyFileVariant = v.InferInput<typeof klipyFileVariantSchema>
+
+interface FetchOptions extends Omit<RequestInit, "body"> {
+    body?: unknown
+}
+
+export async function fetchKlipy<TSchema extends v.GenericSchema>(
+    path: string,
+    schema: TSchema,
+    customerId: string,
+    { body, ...options }: FetchOptions = {}
+): Promise<v.InferInput<TSchema>> {
+    const appKey = import.meta.env.VITE_KLIPY_APP_KEY
+
+    if (!appKey) {
+        throw new ApiError("auth", "Klipy", "VITE_KLIPY_APP_KEY environment variable is not set")
+    }
+
+    if (!customerId) {
+        throw new Error("Customer ID is required for Klipy API calls")
+    }
+
+    const url = new URL(`https://api.klipy.com/api/v1/${appKey}${path}`)
+    url.searchParams.set("customer_id", customerId)
+
+    return fetchApi("Klipy", url.toString(), schema, {
+        body: body ? JSON.stringify(body) : undefined,
+        headers: {
+            "Content-Type": "application/json",
+            ...((options.headers as Record<string, string>) || {}),
+        },
+        ...options,
+    })
+}
+
+// Other providers serving Klipy-shaped data (the mock provider) pass their own id
+export function normalizeKlipyContent(
+    content: KlipyContent,
+    contentType: ContentType,
+    providerId: ProviderId = "klipy"
+): MediaItem {
+    const { file } = content
+
+    return {
+        id: `${providerId}:${content.id}`,
+        sourceId: String(content.id),
+        provider: providerId,
+        contentType,
+        slug: content.slug,
+        title: content.title,
+        type: content.type,
+        preview: content.blur_preview,
+        tags: content.tags,
+        renditions: { xs: file.xs, sm: file.sm, md: file.md, hd: file.hd },
+    }
+}
+
+// Endpoint is relative to the content type, e.g. "/trending" for "/gifs/trending"
+async function fetchKlipyPage(
+    endpoint: string,
+    { contentType, page, perPage, customerId, signal, safeSearch, locale }: ProviderRequest
+): Promise<MediaPage> {
+    const params = new URLSearchParams({ page: String(page), per_page: String(perPage) })
+    if (safeSearch) params.set("content_filter", safeSearch)
+    if (locale) params.set("locale", locale)
+
+    const separator = endpoint.includes("?") ? "&" : "?"
+    const response = await fetchKlipy(
+        `/${contentTypes[contentType].path}${endpoint}${separator}${params.toString()}`,
+        klipyPageEnvelopeSchema,
+        customerId,
+        { signal, method: "GET" }
+    )
+
+    return normalizeKlipyPage(response, contentType)
+}
+
+// Neutral preview for items without a blur preview
+const placeholderSvg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="1" height="1">' +
+    '<rect width="1" height="1" fill="#888" fill-opacity="0.25"/></svg>'
+const placeholderPreview = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(placeholderSvg)}`
+
+/**
+ * Fills in what a lenient item is missing: a missing format uses the other format of the same size, a missing size
+ * uses the closest size that has a rendition, and a missing preview gets a placeholder. Returns null when the item
+ * has no rendition at all.
+ */
+function repairKlipyContent(content: LenientContent): KlipyContent | null {
+    const variants = gifSizes.map(size => {
+        const variant = content.file[size]
+        const gif = variant?.gif ?? variant?.webp
+        const webp = variant?.webp ?? variant?.gif
+
+        return gif && webp ? { gif, webp } : null
+    })
+
+    const closestVariant = (index: number) => {
+        for (let distance = 0; distance < variants.length; distance++) {
+            const variant = variants[index - distance] ?? variants[index + distance]
+            if (variant) return variant
+        }
+
+        return null
+    }
+
+    const [xs, sm, md, hd] = gifSizes.map((_, index) => closestVariant(index))
+    if (!xs || !sm || !md || !hd) return null
+
+    return {
+        ...content,
+        blur_preview: content.blur_preview || placeholderPreview,
+        file: { xs, sm, md, hd },
+    }
+}
+
+/**
+ * Validates the items of a page one by one. Malformed items are repaired when possible and dropped otherwise, in
+ * development the number of repaired and dropped items is logged.
+ */
+export function normalizeKlipyPage(
+    envelope: KlipyPageEnvelope,
+    contentType: ContentType,
+    providerId: ProviderId = "klipy"
+): MediaPage {
+    const items: MediaItem[] = []
+    let repairedCount = 0
+    let skippedCount = 0
+
+    for (const entry of envelope.data.data) {
+        const strict = v.safeParse(klipyContentSchema, entry)
+        if (strict.success) {
+            items.push(normalizeKlipyContent(strict.output, contentType, providerId))
+            continue
+        }
+
+        const lenient = v.safeParse(lenientContentSchema, entry)
+        const repaired = lenient.success ? repairKlipyContent(lenient.output) : null
+
+        if (repaired) {
+            items.push(normalizeKlipyContent(repaired, contentType, providerId))
+            repairedCount++
+        } else {
+            skippedCount++
+        }
+    }
+
+    if (import.meta.env.DEV && (repairedCount > 0 || skippedCount > 0)) {
+        console.warn(
+            `Klipy page ${envelope.data.current_page}: repaired ${repairedCount}, skipped ${skippedCount} items`
+        )
+    }
+
+    return {
+        items,
+        page: envelope.data.current_page,
+        perPage: envelope.data.per_page,
+        hasNext: envelope.data.has_next,
+    }
+}
+
+// Browse endpoints take the locale as their only query parameter
+function klipyLocaleQuery(locale?: string) {
+    return locale ? `?${new URLSearchParams({ locale }).toString()}` : ""
+}
+
+async function fetchKlipyCategories({ contentType, customerId, signal, locale }: ProviderContext): Promise<Category[]> {
+    const path = `/${contentTypes[contentType].path}/categories${klipyLocaleQuery(locale)}`
+    const response = await fetchKlipy(path, klipyCategoriesResponseSchema, customerId, { signal, method: "GET" })
+
+    return response.data.categories.map(category => ({
+        name: category.category,
+        query: category.query,
+        preview: category.preview_url,
+    }))
+}
+
+async function fetchKlipyTrendingSearches({ customerId, signal, locale }: ProviderContext): Promise<string[]> {
+    const path = `/trending-searches${klipyLocaleQuery(locale)}`
+    const response = await fetchKlipy(path, klipyTermsResponseSchema, customerId, {
+        signal,
+        method: "GET",
+    })
+
+    return response.data
+}
+
+async function fetchKlipyTerms(path: string, query: string, { customerId, signal, locale }: ProviderContext) {
+    const response = await fetchKlipy(
+        `${path}/${encodeURIComponent(query)}${klipyLocaleQuery(locale)}`,
+        klipyTermsResponseSchema,
+        customerId,
+        { signal, method: "GET" }
+    )
+
+    return response.data
+}
+
+export const klipyProvider: ContentProvider = {
+    id: "klipy",
+    name: "Klipy",
+    logo: "/klipy-logo.png",
+    contentTypes: ["gifs", "stickers", "clips", "memes", "emoji"],
+    search: (query, request) => fetchKlipyPage(`/search?q=${encodeURIComponent(query)}`, request),
+    trending: request => fetchKlipyPage("/trending", request),
+    categories: fetchKlipyCategories,
+    trendingSearches: fetchKlipyTrendingSearches,
+    autocomplete: (query, context) => fetchKlipyTerms("/autocomplete", query, context),
+    relatedSearches: (query, context) => fetchKlipyTerms("/search-suggestions", query, context),
+}
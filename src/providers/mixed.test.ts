@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest"
+import { ApiError } from "./errors"
+import { createMixedProvider, interleave } from "./mixed"
+import type { ContentProvider, ContentType, MediaItem, MediaPage, ProviderId, ProviderRequest } from "./types"
+
+function pageOf(id: ProviderId, request: ProviderRequest, hasNext = true): MediaPage {
+    const items = Array.from({ length: request.perPage }, (_, index) => ({ id: `${id}:${request.page}-${index}` }))
+
+    return { items: items as MediaItem[], page: request.page, perPage: request.perPage, hasNext }
+}
+
+function fakeProvider(id: ProviderId, contentTypes: ContentType[], changes: Partial<ContentProvider> = {}) {
+    const provider: ContentProvider = {
+        id,
+        name: id.toUpperCase(),
+        contentTypes,
+        search: (_query, request) => Promise.resolve(pageOf(id, request)),
+        trending: request => Promise.resolve(pageOf(id, request)),
+        ...changes,
+    }
+
+    return provider
+}
+
+const request: ProviderRequest = { contentType: "gifs", customerId: "customer", page: 2, perPage: 4 }
+
+function ids(page: MediaPage) {
+    return page.items.map(item => item.id)
+}
+
+describe("interleave", () => {
+    it("takes one item from each list in turn", () => {
+        expect(interleave([[1, 2, 3], [4], [5, 6]])).toEqual([1, 4, 5, 2, 6, 3])
+    })
+
+    it("returns nothing for no lists", () => {
+        expect(interleave([])).toEqual([])
+    })
+})
+
+describe("createMixedProvider", () => {
+    const klipy = fakeProvider("klipy", ["gifs", "stickers", "memes"])
+    const giphy = fakeProvider("giphy", ["gifs", "stickers"])
+
+    it("gets its own id for query keys and names every provider", () => {
+        const mixed = createMixedProvider([klipy, giphy])
+
+        expect(mixed.id).toBe("klipy+giphy")
+        expect(mixed.name).toBe("KLIPY + GIPHY")
+        expect(mixed.contentTypes).toEqual(["gifs", "stickers", "memes"])
+    })
+
+    it("splits the page size and interleaves the same page of every provider", async () => {
+        const page = await createMixedProvider([klipy, giphy]).search("cat", request)
+
+        expect(ids(page)).toEqual(["klipy:2-0", "giphy:2-0", "klipy:2-1", "giphy:2-1"])
+        expect(page).toMatchObject({ page: 2, perPage: 4, hasNext: true })
+    })
+
+    it("only asks providers that serve the content type", async () => {
+        const page = await createMixedProvider([klipy, giphy]).trending({ ...request, contentType: "memes" })
+
+        expect(ids(page)).toEqual(["klipy:2-0", "klipy:2-1", "klipy:2-2", "klipy:2-3"])
+    })
+
+    it("has a next page while any provider does", async () => {
+        const done = fakeProvider("giphy", ["gifs"], {
+            trending: request => Promise.resolve(pageOf("giphy", request, false)),
+        })
+
+        await expect(createMixedProvider([klipy, done]).trending(request)).resolves.toMatchObject({ hasNext: true })
+        await expect(createMixedProvider([done, done]).trending(request)).resolves.toMatchObject({ hasNext: false })
+    })
+
+    it("leaves out providers that fail and only fails when all of them do", async () => {
+        const error = new ApiError("server", "GIPHY", "GIPHY server error: 500", 500)
+        const failing = fakeProvider("giphy", ["gifs"], { trending: () => Promise.reject(error) })
+        const originalError = console.error
+        console.error = () => {}
+
+        try {
+            const page = await createMixedProvider([klipy, failing]).trending(request)
+            expect(ids(page)).toEqual(["klipy:2-0", "klipy:2-1"])
+
+            await expect(createMixedProvider([failing, failing]).trending(request)).rejects.toBe(error)
+        } finally {
+            console.error = originalError
+        }
+    })
+
+    it("browses with the first provider that supports the endpoint", async () => {
+        const withCategories = fakeProvider("giphy", ["gifs"], {
+            categories: () => Promise.resolve([{ name: "Cats", query: "cats" }]),
+        })
+
+        const mixed = createMixedProvider([klipy, withCategories])
+
+        expect(mixed.trendingSearches).toBeUndefined()
+        await expect(mixed.categories?.(request)).resolves.toEqual([{ name: "Cats", query: "cats" }])
+        await expect(mixed.categories?.({ ...request, contentType: "memes" })).resolves.toEqual([])
+    })
+})
@@ -0,0 +1,79 @@
+import type { ContentProvider, ContentType, MediaPage, MixedProviderId, ProviderRequest } from "./types"
+
+// Takes one item from each list in turn, so no provider's results end up all at the bottom
+export function interleave<T>(lists: readonly (readonly T[])[]): T[] {
+    const length = Math.max(0, ...lists.map(list => list.length))
+    return Array.from({ length }, (_, index) => lists.flatMap(list => list.slice(index, index + 1))).flat()
+}
+
+/**
+ * Provider showing the results of several providers together. Each page is the same page of every provider that
+ * serves the content type, with the page size split between them and their items interleaved. Providers that fail
+ * are left out of the page, it only fails when all of them do. Browsing and suggestions come from the first provider
+ * that supports them.
+ */
+export function createMixedProvider(mixed: readonly ContentProvider[]): ContentProvider {
+    const sourcesFor = (contentType: ContentType) => mixed.filter(source => source.contentTypes.includes(contentType))
+
+    const loadPage = async (
+        request: ProviderRequest,
+        load: (source: ContentProvider, request: ProviderRequest) => Promise<MediaPage>
+    ): Promise<MediaPage> => {
+        const sources = sourcesFor(request.contentType)
+        const perPage = Math.ceil(request.perPage / sources.length)
+        const results = await Promise.allSettled(sources.map(source => load(source, { ...request, perPage })))
+        request.signal?.throwIfAborted()
+
+        const pages: MediaPage[] = []
+        for (const [index, result] of results.entries()) {
+            if (result.status === "fulfilled") {
+                pages.push(result.value)
+            } else {
+                console.error(`Failed to load page ${request.page} from ${sources[index]?.name}:`, result.reason)
+            }
+        }
+
+        const failure = results.find(result => result.status === "rejected")
+        if (pages.length === 0 && failure) throw failure.reason
+
+        return {
+            items: interleave(pages.map(page => page.items)),
+            page: request.page,
+            perPage: pages.reduce((sum, page) => sum + page.perPage, 0),
+            hasNext: pages.some(page => page.hasNext),
+        }
+    }
+
+    // Endpoint of the first provider serving the content type that has it
+    const firstEndpoint = <T>(contentType: ContentType, endpoint: (source: ContentProvider) => T | undefined) => {
+        for (const source of sourcesFor(contentType)) {
+            const found = endpoint(source)
+            if (found) return found
+        }
+
+        return undefined
+    }
+
+    return {
+        id: mixed.map(source => source.id).join("+") as MixedProviderId,
+        name: mixed.map(source => source.name).join(" + "),
+        contentTypes: [...new Set(mixed.flatMap(source => source.contentTypes))],
+        search: (query, request) => loadPage(request, (source, sourceRequest) => source.search(query, sourceRequest)),
+        trending: request => loadPage(request, (source, sourceRequest) => source.trending(sourceRequest)),
+        categories: mixed.some(source => source.categories)
+            ? async context => (await firstEndpoint(context.contentType, source => source.categories)?.(context)) ?? []
+            : undefined,
+        trendingSearches: mixed.some(source => source.trendingSearches)
+            ? async context =>
+                  (await firstEndpoint(context.contentType, source => source.trendingSearches)?.(context)) ?? []
+            : undefined,
+        autocomplete: mixed.some(source => source.autocomplete)
+            ? async (query, context) =>
+                  (await firstEndpoint(context.contentType, source => source.autocomplete)?.(query, context)) ?? []
+            : undefined,
+        relatedSearches: mixed.some(source => source.relatedSearches)
+            ? async (query, context) =>
+                  (await firstEndpoint(context.contentType, source => source.relatedSearches)?.(query, context)) ?? []
+            : undefined,
+    }
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { mockProvider } from "./mock"
+import type { ProviderRequest } from "./types"
+
+// Persisted stores load when their module is imported, so localStorage has to exist before that
+vi.hoisted(() => {
+    const values = new Map<string, string>()
+    vi.stubGlobal("localStorage", {
+        getItem: (key: string) => values.get(key) ?? null,
+        setItem: (key: string, value: string) => values.set(key, value),
+    })
+})
+
+function requestWith(signal: AbortSignal): ProviderRequest {
+    return { contentType: "gifs", customerId: "customer", page: 1, perPage: 4, signal }
+}
+
+beforeEach(() => {
+    vi.useFakeTimers()
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+})
+
+describe("mockProvider", () => {
+    it("responds after the simulated latency", async () => {
+        const controller = new AbortController()
+        const page = mockProvider.trending(requestWith(controller.signal))
+        await vi.runAllTimersAsync()
+
+        await expect(page).resolves.toMatchObject({ page: 1, perPage: 4 })
+    })
+
+    it("rejects right away when the request was aborted before it started", async () => {
+        const controller = new AbortController()
+        controller.abort()
+
+        await expect(mockProvider.trending(requestWith(controller.signal))).rejects.toBe(controller.signal.reason)
+        expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("stops waiting when the request is aborted", async () => {
+        const controller = new AbortController()
+        const page = mockProvider.search("cats", requestWith(controller.signal))
+        controller.abort()
+
+        await expect(page).rejects.toBe(controller.signal.reason)
+        expect(vi.getTimerCount()).toBe(0)
+    })
+
+    it("stops listening for aborts once it responded", async () => {
+        const controller = new AbortController()
+        const removeEventListener = vi.spyOn(controller.signal, "removeEventListener")
+        const page = mockProvider.trending(requestWith(controller.signal))
+        await vi.runAllTimersAsync()
+        await page
+
+        expect(removeEventListener).toHaveBeenCalledWith("abort", expect.any(Function))
+    })
+})
@@ -0,0 +1,151 @@
+import type { MenuItem } from "framer-plugin"
+import * as v from "valibot"
+import { type MessageKey, t } from "../i18n"
+import { createPersistedStore } from "../storage"
+import { ApiError, RateLimitError } from "./errors"
+import {
+    fixtureCategories,
+    fixturePage,
+    fixtureRelatedTerms,
+    fixtureTerms,
+    fixtureTrendingSearches,
+} from "./fixtures"
+import { klipyResponseSchema, normalizeKlipyPage } from "./klipy"
+import type { ContentProvider, MediaPage, ProviderRequest } from "./types"
+
+/**
+ * Provider serving bundled fixtures, used for local development without API keys. Requests wait for a simulated
+ * latency and can be made to fail, so loading, empty and error states can be tried out. Some searches always fail
+ * with a specific error, see `simulatedErrors`.
+ */
+
+const mockSettingsSchema = v.object({
+    latency: v.number(), // Milliseconds before each response
+    errorRate: v.number(), // Share of requests that fail, from 0 to 1
+})
+
+type MockSettings = v.InferOutput<typeof mockSettingsSchema>
+
+const MOCK_SETTINGS_KEY = "framestack-gifs-mock-settings"
+
+const defaultMockSettings: MockSettings = {
+    latency: Number(import.meta.env.VITE_MOCK_LATENCY ?? 400),
+    errorRate: Number(import.meta.env.VITE_MOCK_ERROR_RATE ?? 0),
+}
+
+const settingsStore = createPersistedStore(MOCK_SETTINGS_KEY, mockSettingsSchema, defaultMockSettings)
+
+export const subscribeToMockSettings = settingsStore.subscribe
+
+const slowLatency = 2000
+const errorRates: { label: MessageKey; errorRate: number }[] = [
+    { label: "menu.failNever", errorRate: 0 },
+    { label: "menu.failSometimes", errorRate: 0.3 },
+    { label: "menu.failAlways", errorRate: 1 },
+]
+
+export function mockMenuItems(): MenuItem[] {
+    const settings = settingsStore.get()
+
+    return [
+        {
+            label: t("menu.slowNetwork"),
+            checked: settings.latency >= slowLatency,
+            onAction: () => {
+                const latency = settings.latency >= slowLatency ? defaultMockSettings.latency : slowLatency
+                settingsStore.set({ ...settings, latency })
+            },
+        },
+        {
+            label: t("menu.failRequests"),
+            submenu: errorRates.map(
+                ({ label, errorRate }): MenuItem => ({
+                    label: t(label),
+                    checked: settings.errorRate === errorRate,
+                    onAction: () => {
+                        settingsStore.set({ ...settings, errorRate })
+                    },
+                })
+            ),
+        },
+    ]
+}
+
+const simulatedErrors: Record<string, () => ApiError> = {
+    error: () => new ApiError("server", "Demo", "Simulated server error", 500),
+    offline: () => new ApiError("network", "Demo", "Simulated network error"),
+    unauthorized: () => new ApiError("auth", "Demo", "Simulated invalid API key", 401),
+    ratelimit: () => new RateLimitError("Demo", Date.now() + 15_000),
+}
+
+function simulateRequest(signal?: AbortSignal, query?: string | null) {
+    const { latency, errorRate } = settingsStore.get()
+    const simulatedError = simulatedErrors[query?.trim().toLowerCase() ?? ""]
+
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason)
+            return
+        }
+
+        const abort = () => {
+            clearTimeout(timeout)
+            reject(signal?.reason)
+        }
+
+        const timeout = setTimeout(() => {
+            signal?.removeEventListener("abort", abort)
+
+            if (simulatedError) {
+                reject(simulatedError())
+                return
+            }
+
+            if (Math.random() < errorRate) {
+                reject(new ApiError("network", "Demo", "Simulated request failure"))
+                return
+            }
+
+            resolve()
+        }, latency)
+
+        signal?.addEventListener("abort", abort, { once: true })
+    })
+}
+
+async function fetchMockPage(query: string | null, request: ProviderRequest): Promise<MediaPage> {
+    const { contentType, page, perPage, signal } = request
+    await simulateRequest(signal, query)
+
+    // Fixtures go through the Klipy schema so they can't drift from what the real API returns
+    const response = v.parse(
+        klipyResponseSchema,
+        fixturePage({ stickers: contentType === "stickers", query, page, perPage })
+    )
+
+    return normalizeKlipyPage(response, contentType, "mock")
+}
+
+export const mockProvider: ContentProvider = {
+    id: "mock",
+    name: "Demo",
+    contentTypes: ["gifs", "stickers"],
+    search: (query, request) => fetchMockPage(query, request),
+    trending: request => fetchMockPage(null, request),
+    categories: async ({ signal }) => {
+        await simulateRequest(signal)
+        return fixtureCategories.map(({ category, query }) => ({ name: category, query }))
+    },
+    trendingSearches: async ({ signal }) => {
+        await simulateRequest(signal)
+        return fixtureTrendingSearches
+    },
+    autocomplete: async (query, { signal }) => {
+        await simulateRequest(signal)
+        return fixtureTerms(query)
+    },
+    relatedSearches: async (query, { signal }) => {
+        await simulateRequest(signal)
+        return fixtureRelatedTerms(query)
+    },
+}
@@ -0,0 +1,41 @@
+import * as v from "valibot"
+import { contentTypeIds } from "../contentTypes"
+import { type MediaItem, type MediaPage, providerIds } from "./types"
+
+// Validates normalized items read back from storage or imported files
+const renditionSchema = v.object({
+    url: v.string(),
+    width: v.number(),
+    height: v.number(),
+    size: v.number(),
+})
+
+const renditionFormatsSchema = v.object({
+    gif: renditionSchema,
+    webp: renditionSchema,
+})
+
+export const mediaItemSchema: v.GenericSchema<unknown, MediaItem> = v.object({
+    id: v.string(),
+    sourceId: v.string(),
+    provider: v.picklist(providerIds),
+    contentType: v.picklist(contentTypeIds),
+    slug: v.string(),
+    title: v.string(),
+    type: v.string(),
+    preview: v.string(),
+    tags: v.array(v.string()),
+    renditions: v.object({
+        xs: renditionFormatsSchema,
+        sm: renditionFormatsSchema,
+        md: renditionFormatsSchema,
+        hd: renditionFormatsSchema,
+    }),
+})
+
+export const mediaPageSchema: v.GenericSchema<unknown, MediaPage> = v.object({
+    items: v.array(mediaItemSchema),
+    page: v.number(),
+    perPage: v.number(),
+    hasNext: v.boolean(),
+})
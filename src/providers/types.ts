@@ -0,0 +1,85 @@
+import type { ContentType } from "../contentTypes"
+
+export type { ContentType } from "../contentTypes"
+
+// Helper types for file sizes
+export type GifSize = "xs" | "sm" | "md" | "hd"
+export type GifFormat = "gif" | "webp"
+
+export const gifSizes: readonly GifSize[] = ["xs", "sm", "md", "hd"]
+export const gifFormats: readonly GifFormat[] = ["gif", "webp"]
+
+export interface Rendition {
+    url: string
+    width: number
+    height: number
+    size: number // Bytes, 0 when the provider doesn't report it
+}
+
+// Safe search level, providers map it to their own rating filter
+export type SafeSearch = "off" | "low" | "medium" | "high"
+export const safeSearchLevels: readonly SafeSearch[] = ["off", "low", "medium", "high"]
+
+export type ProviderId = "klipy" | "giphy" | "mock"
+export const providerIds: readonly ProviderId[] = ["klipy", "giphy", "mock"]
+
+// Providers mixed together are keyed by the ids they mix, like "klipy+giphy"
+export type MixedProviderId = `${ProviderId}+${string}`
+
+/**
+ * Provider-agnostic media item. Providers normalize their responses into this shape so the UI never has to know
+ * where an item came from. Every size has both formats; providers fill in a missing format with the closest one.
+ */
+export interface MediaItem {
+    id: string // Unique across providers, e.g. "klipy:123"
+    sourceId: string // Id in the provider's own API
+    provider: ProviderId
+    contentType: ContentType // Tab the item was loaded for
+    slug: string
+    title: string
+    type: string
+    preview: string // Blur preview or tiny still, usable as a CSS background image
+    tags: string[]
+    renditions: Record<GifSize, Record<GifFormat, Rendition>>
+}
+
+export interface MediaPage {
+    items: MediaItem[]
+    page: number
+    perPage: number
+    hasNext: boolean
+}
+
+export interface ProviderContext {
+    contentType: ContentType
+    customerId: string
+    signal?: AbortSignal
+    locale?: string // Language and region like "de_DE", for results relevant to the user's language
+}
+
+export interface ProviderRequest extends ProviderContext {
+    page: number
+    perPage: number
+    safeSearch?: SafeSearch // Providers use their own default without it
+}
+
+export interface Category {
+    name: string
+    query: string // Search to run when the category is picked
+    preview?: string
+}
+
+export interface ContentProvider {
+    id: ProviderId | MixedProviderId // Also the start of every query key, so each mix has its own cache
+    name: string
+    logo?: string // Attribution logo shown in the search field
+    contentTypes: ContentType[] // Subset of the content type registry this provider can serve
+    search: (query: string, request: ProviderRequest) => Promise<MediaPage>
+    trending: (request: ProviderRequest) => Promise<MediaPage>
+    // Browse endpoints are optional, the browse screen hides whatever a provider doesn't support
+    categories?: (context: ProviderContext) => Promise<Category[]>
+    trendingSearches?: (context: ProviderContext) => Promise<string[]>
+    // Search suggestions, the search field falls back to local history without them
+    autocomplete?: (query: string, context: ProviderContext) => Promise<string[]>
+    relatedSearches?: (query: string, context: ProviderContext) => Promise<string[]>
+}
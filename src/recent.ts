@@ -0,0 +1,35 @@
+import * as v from "valibot"
+import { gifFormats, gifSizes, type MediaItem } from "./api"
+import { mediaItemSchema } from "./providers/schema"
+import type { RenditionChoice } from "./renditions"
+import { createPersistedStore } from "./storage"
+
+const recentInsertSchema = v.object({
+    item: mediaItemSchema,
+    rendition: v.object({
+        size: v.picklist(gifSizes),
+        format: v.picklist(gifFormats),
+    }),
+    insertedAt: v.number(),
+})
+
+export type RecentInsert = v.InferOutput<typeof recentInsertSchema>
+
+const RECENT_INSERTS_KEY = "framestack-gifs-recent-inserts"
+const maxRecentInserts = 50
+
+const store = createPersistedStore(RECENT_INSERTS_KEY, v.array(recentInsertSchema), [])
+
+export const useRecentInserts = store.useStore
+
+// Most recent first, an item inserted again moves back to the top with its latest rendition
+export function addRecentInsert(item: MediaItem, rendition: RenditionChoice) {
+    const entry: RecentInsert = { item, rendition, insertedAt: Date.now() }
+    const others = store.get().filter(recent => recent.item.id !== item.id)
+
+    store.set([entry, ...others].slice(0, maxRecentInserts))
+}
+
+export function clearRecentInserts() {
+    store.set([])
+}
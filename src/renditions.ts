@@ -0,0 +1,93 @@
+import type { MenuItem } from "framer-plugin"
+import * as v from "valibot"
+import { gifFormats, gifSizes, type GifFormat, type GifSize, type MediaItem, type Rendition } from "./api"
+import { t } from "./i18n"
+import { createPersistedStore } from "./storage"
+
+export interface RenditionChoice {
+    size: GifSize
+    format: GifFormat
+}
+
+export const fallbackRendition: RenditionChoice = { size: "md", format: "gif" }
+
+const renditionChoiceSchema = v.object({
+    size: v.picklist(gifSizes),
+    format: v.picklist(gifFormats),
+})
+
+const DEFAULT_RENDITION_KEY = "framestack-gifs-default-rendition"
+
+export function getRendition(content: MediaItem, { size, format }: RenditionChoice): Rendition {
+    return content.renditions[size][format]
+}
+
+export function renditionLabel({ size, format }: RenditionChoice) {
+    return `${size.toUpperCase()} ${format.toUpperCase()}`
+}
+
+export function formatBytes(bytes: number) {
+    if (bytes <= 0) return t("rendition.unknownSize")
+    if (bytes < 1024) return `${bytes} B`
+    if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export function renditionDetails(rendition: Rendition) {
+    return `${rendition.width}×${rendition.height} · ${formatBytes(rendition.size)}`
+}
+
+export function isSameRendition(a: RenditionChoice, b: RenditionChoice) {
+    return a.size === b.size && a.format === b.format
+}
+
+export function allRenditionChoices(): RenditionChoice[] {
+    return gifSizes.flatMap(size => gifFormats.map(format => ({ size, format })))
+}
+
+// Persisted rendition used for clicks and drags without an explicit choice, shared by every view
+const defaultRenditionStore = createPersistedStore(DEFAULT_RENDITION_KEY, renditionChoiceSchema, fallbackRendition)
+
+export const useDefaultRendition = defaultRenditionStore.useStore
+
+export function setDefaultRendition(choice: RenditionChoice) {
+    defaultRenditionStore.set(choice)
+}
+
+/**
+ * Context menu listing every rendition of an item with its pixel dimensions and byte size, to insert it once or make
+ * it the default.
+ */
+export function renditionMenuItems(
+    content: MediaItem,
+    defaultRendition: RenditionChoice,
+    onInsert: (choice: RenditionChoice) => void,
+    onChangeDefault: (choice: RenditionChoice) => void
+): MenuItem[] {
+    const choices = allRenditionChoices()
+
+    return [
+        ...choices.map(
+            (choice): MenuItem => ({
+                label: t("rendition.insert", { rendition: renditionLabel(choice) }),
+                secondaryLabel: renditionDetails(getRendition(content, choice)),
+                onAction: () => {
+                    onInsert(choice)
+                },
+            })
+        ),
+        { type: "separator" },
+        {
+            label: t("rendition.default"),
+            submenu: choices.map(
+                (choice): MenuItem => ({
+                    label: renditionLabel(choice),
+                    checked: isSameRendition(choice, defaultRendition),
+                    onAction: () => {
+                        onChangeDefault(choice)
+                    },
+                })
+            ),
+        },
+    ]
+}
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest"
+import { ApiError, type ApiErrorKind, RateLimitError } from "./providers/errors"
+import { retryDelay, shouldRetry } from "./retry"
+
+const now = Date.parse("2026-01-01T12:00:00Z")
+
+function apiError(kind: ApiErrorKind) {
+    return new ApiError(kind, "Test", `Test ${kind} error`)
+}
+
+beforeEach(() => {
+    vi.useFakeTimers({ now })
+})
+
+afterEach(() => {
+    vi.useRealTimers()
+    vi.restoreAllMocks()
+})
+
+describe("shouldRetry", () => {
+    it("retries errors that can go away by themselves", () => {
+        expect(shouldRetry(0, apiError("network"))).toBe(true)
+        expect(shouldRetry(0, apiError("server"))).toBe(true)
+    })
+
+    it("doesn't retry errors that would fail the same way again", () => {
+        expect(shouldRetry(0, apiError("auth"))).toBe(false)
+        expect(shouldRetry(0, apiError("request"))).toBe(false)
+        expect(shouldRetry(0, apiError("schema"))).toBe(false)
+    })
+
+    it("doesn't retry errors that don't come from a provider", () => {
+        expect(shouldRetry(0, new Error("Something else"))).toBe(false)
+        expect(shouldRetry(0, "failed")).toBe(false)
+    })
+
+    it("stops after three failures", () => {
+        expect(shouldRetry(2, apiError("network"))).toBe(true)
+        expect(shouldRetry(3, apiError("network"))).toBe(false)
+    })
+
+    it("retries a rate limit only when its wait is short", () => {
+        expect(shouldRetry(0, new RateLimitError("Test", now + 10_000))).toBe(true)
+        expect(shouldRetry(0, new RateLimitError("Test", now + 10_001))).toBe(false)
+    })
+})
+
+describe("retryDelay", () => {
+    it("waits exactly as long as a rate limit asks", () => {
+        expect(retryDelay(0, new RateLimitError("Test", now + 4_000))).toBe(4_000)
+        expect(retryDelay(0, new RateLimitError("Test", now - 1_000))).toBe(0)
+    })
+
+    it("backs off exponentially up to ten seconds", () => {
+        vi.spyOn(Math, "random").mockReturnValue(1)
+
+        expect(retryDelay(0, apiError("network"))).toBe(500)
+        expect(retryDelay(2, apiError("network"))).toBe(2_000)
+        expect(retryDelay(10, apiError("network"))).toBe(10_000)
+    })
+})
@@ -0,0 +1,23 @@
+import { isApiError, RateLimitError } from "./providers/errors"
+
+const maxRetries = 3
+const baseDelay = 500
+const maxDelay = 10_000
+
+/**
+ * Retry policy for provider queries. Only errors that can go away by themselves are retried, a rate limit only when
+ * its wait is short, longer waits are left to the error UI with a countdown.
+ */
+export function shouldRetry(failureCount: number, error: unknown) {
+    if (!isApiError(error) || !error.isRetryable || failureCount >= maxRetries) return false
+    if (error instanceof RateLimitError) return error.retryAt - Date.now() <= maxDelay
+
+    return true
+}
+
+// Exponential backoff with full jitter, or exactly the wait a rate limit asked for
+export function retryDelay(failureCount: number, error: unknown) {
+    if (error instanceof RateLimitError) return Math.max(0, error.retryAt - Date.now())
+
+    return Math.round(Math.random() * Math.min(maxDelay, baseDelay * 2 ** failureCount))
+}
@@ -0,0 +1,31 @@
+import * as v from "valibot"
+import { createPersistedStore } from "./storage"
+
+const SEARCH_HISTORY_KEY = "framestack-gifs-search-history"
+const maxSearchHistory = 50
+
+const store = createPersistedStore(SEARCH_HISTORY_KEY, v.array(v.string()), [])
+
+export const useSearchHistory = store.useStore
+
+export function addToSearchHistory(query: string) {
+    const normalizedQuery = query.trim()
+    if (!normalizedQuery) return
+
+    const others = store.get().filter(existing => existing.toLowerCase() !== normalizedQuery.toLowerCase())
+    store.set([normalizedQuery, ...others].slice(0, maxSearchHistory))
+}
+
+// Local suggestions used when the provider has none, prefix matches first
+export function suggestFromHistory(history: string[], query: string, limit: number) {
+    const normalizedQuery = query.trim().toLowerCase()
+    if (!normalizedQuery) return []
+
+    const candidates = history.filter(entry => entry.toLowerCase() !== normalizedQuery)
+    const prefixMatches = candidates.filter(entry => entry.toLowerCase().startsWith(normalizedQuery))
+    const otherMatches = candidates.filter(
+        entry => !entry.toLowerCase().startsWith(normalizedQuery) && entry.toLowerCase().includes(normalizedQuery)
+    )
+
+    return [...prefixMatches, ...otherMatches].slice(0, limit)
+}
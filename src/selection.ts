@@ -0,0 +1,26 @@
+import type { MediaItem } from "./api"
+import { createStore } from "./storage"
+
+// Items picked with shift or cmd click for a batch insert, in the order they were picked
+const store = createStore<MediaItem[]>([])
+
+export const useSelection = store.useStore
+
+export function isSelected(selection: MediaItem[], item: MediaItem) {
+    return selection.some(selected => selected.id === item.id)
+}
+
+export function toggleSelection(item: MediaItem) {
+    const selection = store.get()
+    store.set(
+        isSelected(selection, item) ? selection.filter(selected => selected.id !== item.id) : [...selection, item]
+    )
+}
+
+export function removeFromSelection(ids: string[]) {
+    store.set(store.get().filter(selected => !ids.includes(selected.id)))
+}
+
+export function clearSelection() {
+    store.set([])
+}
@@ -0,0 +1,67 @@
+import { useSyncExternalStore } from "react"
+import * as v from "valibot"
+
+// localStorage utility functions, failures are logged and never thrown
+export function loadFromStorage<T>(key: string, schema: v.GenericSchema<unknown, T>, fallback: T): T {
+    try {
+        const saved = localStorage.getItem(key)
+        if (saved === null) return fallback
+
+        const result = v.safeParse(schema, JSON.parse(saved))
+        return result.success ? result.output : fallback
+    } catch (error) {
+        console.warn(`Failed to get ${key} from localStorage:`, error)
+        return fallback
+    }
+}
+
+// Returns whether the value was saved, so callers can tell the user when it wasn't
+export function saveToStorage(key: string, value: unknown) {
+    try {
+        localStorage.setItem(key, JSON.stringify(value))
+        return true
+    } catch (error) {
+        console.warn(`Failed to save ${key} to localStorage:`, error)
+        return false
+    }
+}
+
+/**
+ * Small in-memory external store, shared by every component that reads it through `useStore`. `onChange` runs after
+ * every update, before listeners are notified.
+ */
+export function createStore<T>(initial: T, onChange?: (value: T) => void) {
+    let value = initial
+    const listeners = new Set<() => void>()
+
+    const subscribe = (listener: () => void) => {
+        listeners.add(listener)
+        return () => {
+            listeners.delete(listener)
+        }
+    }
+
+    const get = () => value
+
+    const set = (next: T) => {
+        value = next
+        onChange?.(value)
+
+        for (const listener of listeners) {
+            listener()
+        }
+    }
+
+    const useStore = () => useSyncExternalStore(subscribe, get)
+
+    return { get, set, subscribe, useStore }
+}
+
+/**
+ * Store persisted to localStorage, loaded once when created and saved on every update.
+ */
+export function createPersistedStore<T>(key: string, schema: v.GenericSchema<unknown, T>, fallback: T) {
+    return createStore(loadFromStorage(key, schema, fallback), value => {
+        saveToStorage(key, value)
+    })
+}
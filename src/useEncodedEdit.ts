@@ -0,0 +1,104 @@
+import { useEffect, useRef, useState } from "react"
+import type { Edits } from "./edits"
+import type { DecodedAnimation } from "./frames"
+import { useDebounce } from "./hooks"
+
+export type EditorRequest =
+    | { type: "load"; frames: ImageBitmap[]; durations: number[] }
+    | { type: "encode"; id: number; edits: Edits }
+
+export type EditorResponse =
+    | { type: "encoded"; id: number; bytes: Uint8Array; mimeType: string }
+    | { type: "failed"; id: number; message: string }
+
+export interface EncodedImage {
+    bytes: Uint8Array
+    mimeType: string
+}
+
+export type EncodeState =
+    | { status: "encoding"; previous: EncodedImage | null } // The last result stays around for its size
+    | { status: "encoded"; image: EncodedImage; edits: Edits } // The edits the image was encoded with
+    | { status: "failed"; message: string }
+
+function post(worker: Worker, request: EditorRequest, transfer: Transferable[] = []) {
+    worker.postMessage(request, transfer)
+}
+
+/**
+ * Encodes the animation with the edits in a worker, again whenever the edits settle. Frames are copied once and the
+ * copies transferred to the worker, the originals stay with the preview. Results of edits that changed since are
+ * dropped. Edits still waiting to settle aren't encoded yet, so the result is only current when its edits are the ones
+ * passed in.
+ */
+export function useEncodedEdit(animation: DecodedAnimation | null, edits: Edits | null): EncodeState {
+    const [worker, setWorker] = useState<Worker | null>(null)
+    const [state, setState] = useState<EncodeState>({ status: "encoding", previous: null })
+    const latestRequest = useRef<{ id: number; edits: Edits } | null>(null)
+    const debouncedEdits = useDebounce(edits, 300)
+
+    useEffect(() => {
+        if (!animation) return
+
+        const instance = new Worker(new URL("./editor.worker.ts", import.meta.url), { type: "module" })
+        instance.onmessage = (event: MessageEvent<EditorResponse>) => {
+            const response = event.data
+            const request = latestRequest.current
+            if (response.id !== request?.id) return
+
+            setState(
+                response.type === "encoded"
+                    ? {
+                          status: "encoded",
+                          image: { bytes: response.bytes, mimeType: response.mimeType },
+                          edits: request.edits,
+                      }
+                    : { status: "failed", message: response.message }
+            )
+        }
+        instance.onerror = event => {
+            console.error("Editor worker failed:", event.message)
+            setState({ status: "failed", message: event.message })
+        }
+
+        let isCancelled = false
+
+        Promise.all(animation.frames.map(frame => createImageBitmap(frame.image))).then(
+            frames => {
+                if (isCancelled) {
+                    for (const frame of frames) frame.close()
+                    return
+                }
+
+                const durations = animation.frames.map(frame => frame.duration)
+                post(instance, { type: "load", frames, durations }, frames)
+                setWorker(instance)
+            },
+            (error: unknown) => {
+                if (isCancelled) return
+                console.error("Failed to copy frames for the editor worker:", error)
+                setState({ status: "failed", message: String(error) })
+            }
+        )
+
+        return () => {
+            isCancelled = true
+            instance.terminate()
+            setWorker(null)
+        }
+    }, [animation])
+
+    useEffect(() => {
+        if (!worker || !debouncedEdits) return
+
+        const id = (latestRequest.current?.id ?? 0) + 1
+        latestRequest.current = { id, edits: debouncedEdits }
+        setState(current => {
+            if (current.status === "encoded") return { status: "encoding", previous: current.image }
+            return { status: "encoding", previous: current.status === "encoding" ? current.previous : null }
+        })
+        post(worker, { type: "encode", id, edits: debouncedEdits })
+    }, [worker, debouncedEdits])
+
+    return state
+}
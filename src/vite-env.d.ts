@@ -6,4 +6,8 @@ interface ViteTypeOptions {
 
 interface ImportMetaEnv {
     readonly VITE_KLIPY_APP_KEY: string
+    readonly VITE_GIPHY_API_KEY?: string
+    readonly VITE_CONTENT_PROVIDER?: string
+    readonly VITE_MOCK_LATENCY?: string
+    readonly VITE_MOCK_ERROR_RATE?: string
 }
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+// Tests cover pure modules only, so they run without the plugins the app build needs
+export default defineConfig({
+	test: {
+		include: ["src/**/*.test.ts"],
+	},
+});